@@ -1,11 +1,110 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
-import { CalculatorInputs, CalculatorResults } from "@/types/calculator";
+import { useState, useEffect, useRef, useCallback, Fragment } from "react";
 import {
-  calculateMonthlyCompoundInterest,
+  AccountBucket,
+  AssetClass,
+  AssetClassAssumptions,
+  CalculatorInputs,
+  CashFlowEvent,
+  ContributionSchedule,
+  CalculatorResults,
+  EmployerMatch,
+  CapitalMarketAssumptions,
+  FederalTaxSettings,
+  FilingStatus,
+  GlidePath,
+  GoalSolution,
+  GoalSolverSettings,
+  GoalTarget,
+  GoalVariable,
+  GlidePathCurve,
+  IncomeStream,
+  IncomeStreamType,
+  ReturnDistribution,
+  RothConversionPlan,
+  SafeWithdrawalSettings,
+  SavedScenario,
+  ScenarioComparison,
+  ScenarioMetrics,
+  SocialSecurityClaiming,
+  SocialSecurityRecord,
+  TaxRates,
+  VestingType,
+  WithdrawalOrder,
+  WithdrawalStrategySettings,
+  WithdrawalStrategyType,
+} from "@/types/calculator";
+import {
+  CLAIMING_SIMULATIONS,
+  DEFAULT_SAFE_WITHDRAWAL,
+  MONTE_CARLO_SIMULATIONS,
+  SAFE_WITHDRAWAL_SIMULATIONS,
   formatCurrency,
 } from "@/utils/calculations";
+import {
+  DEFAULT_GLIDE_PATH,
+  DEFAULT_STEP_YEARS,
+  parseGlidePathTable,
+} from "@/utils/glidePath";
+import {
+  ASSET_CLASSES,
+  DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  calculatePortfolioAssumptions,
+  rebalanceAllocation,
+} from "@/utils/portfolio";
+import {
+  CalculationRunner,
+  createCalculationRunner,
+} from "@/utils/calculationRunner";
+import { DEFAULT_CASH_FLOW_EVENT } from "@/utils/cashFlows";
+import { DEFAULT_CONTRIBUTION_SCHEDULE } from "@/utils/contributions";
+import { DEFAULT_EMPLOYER_MATCH } from "@/utils/employerMatch";
+import {
+  DEFAULT_GOAL_SOLVER,
+  GOAL_SOLVER_BALANCE_SIMULATIONS,
+  GOAL_SOLVER_SIMULATIONS,
+  GOAL_VARIABLE_RANGES,
+  roundGoalValue,
+  withGoalVariable,
+} from "@/utils/goalSolver";
+import {
+  DEFAULT_INCOME_STREAMS,
+  INCOME_STREAM_TYPES,
+  MAX_CLAIMING_AGE,
+  MIN_CLAIMING_AGE,
+} from "@/utils/incomeStreams";
+import { DEFAULT_ROTH_CONVERSION } from "@/utils/rothConversion";
+import { generateSeed } from "@/utils/random";
+import { planStartYear } from "@/utils/rmd";
+import { DEFAULT_SOCIAL_SECURITY_CLAIMING } from "@/utils/socialSecurity";
+import { DEFAULT_DIVIDEND_YIELD } from "@/utils/simulation";
+import {
+  DEFAULT_WITHDRAWAL_ORDER,
+  WITHDRAWAL_SEQUENCES,
+} from "@/utils/withdrawalOrder";
+import {
+  DEFAULT_WITHDRAWAL_STRATEGY,
+  WITHDRAWAL_STRATEGY_TYPES,
+  strategySetsSpending,
+} from "@/utils/withdrawalStrategies";
+import {
+  CATCH_UP_AGE,
+  CONTRIBUTION_LIMITS,
+  CONTRIBUTION_LIMITS_YEAR,
+} from "@/data/contributionLimits";
+import {
+  FEDERAL_TAX_TABLES,
+  STATE_TAX_TABLES,
+  StateTaxTable,
+} from "@/data/taxTables";
+import {
+  DEFAULT_FEDERAL_TAX,
+  MAX_TAX_RATE,
+  federalTaxTable,
+  stateTaxTable,
+  validateTaxRates,
+} from "@/utils/taxes";
 import {
   XAxis,
   YAxis,
@@ -16,10 +115,265 @@ import {
   Area,
   AreaChart,
   ReferenceLine,
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
 } from "recharts";
 import * as XLSX from "xlsx";
 import UserGuide from "./UserGuide";
 
+const assetClassLabels: Record<AssetClass, string> = {
+  stocks: "Stocks",
+  bonds: "Bonds",
+  cash: "Cash",
+};
+
+const accountLabels: Array<{
+  account: AccountBucket;
+  label: string;
+  color: string;
+}> = [
+  {
+    account: "taxDeferred",
+    label: "Tax-Deferred",
+    color: "hsl(var(--primary))",
+  },
+  { account: "taxFree", label: "Tax-Free", color: "hsl(var(--secondary))" },
+  { account: "taxable", label: "Taxable", color: "hsl(var(--accent))" },
+];
+
+const withdrawalSequenceLabel = (sequence: AccountBucket[]): string =>
+  sequence
+    .map(
+      (bucket) => accountLabels.find(({ account }) => account === bucket)?.label
+    )
+    .join(" → ");
+
+const correlationPairs: Array<{
+  pair: keyof CapitalMarketAssumptions["correlations"];
+  label: string;
+}> = [
+  { pair: "stocksBonds", label: "Stocks / Bonds" },
+  { pair: "stocksCash", label: "Stocks / Cash" },
+  { pair: "bondsCash", label: "Bonds / Cash" },
+];
+
+const filingStatusLabels: Record<FilingStatus, string> = {
+  single: "Single",
+  "married-joint": "Married filing jointly",
+  "married-separate": "Married filing separately",
+  "head-of-household": "Head of household",
+};
+
+const cashFlowEventFields: Array<{
+  field: "amount" | "year" | "month" | "recurringInterval";
+  label: string;
+  min?: number;
+}> = [
+  { field: "amount", label: "Amount ($)" },
+  { field: "year", label: "Year", min: 0 },
+  { field: "month", label: "Month (1-12)", min: 1 },
+  { field: "recurringInterval", label: "Repeat every (years)", min: 0 },
+];
+
+const employerMatchFields: Array<{
+  field: "salary" | "salaryGrowth" | "annualCap" | "yearsOfService";
+  label: string;
+  placeholder?: string;
+}> = [
+  { field: "salary", label: "Annual salary ($)" },
+  { field: "salaryGrowth", label: "Salary growth (%)" },
+  { field: "annualCap", label: "Annual match cap ($)", placeholder: "None" },
+  { field: "yearsOfService", label: "Years of service" },
+];
+
+const vestingLabels: Record<VestingType, string> = {
+  immediate: "Immediate",
+  cliff: "Cliff",
+  graded: "Graded",
+};
+
+const incomeStreamLabels: Record<IncomeStreamType, string> = {
+  "social-security": "Social Security",
+  pension: "Pension",
+  annuity: "Annuity",
+  rental: "Rental",
+};
+
+// Colors for the income streams in the retirement income chart
+const incomeStreamColors = ["#0ea5e9", "#f59e0b", "#8b5cf6", "#ec4899"];
+
+// Line colors for compared scenarios, repeating after the last
+const scenarioColors = [
+  "hsl(var(--primary))",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ec4899",
+  "#0ea5e9",
+  "#10b981",
+];
+
+const scenarioMetricFields: Array<{
+  field: keyof ScenarioMetrics;
+  label: string;
+}> = [
+  { field: "finalBalance", label: "Final balance" },
+  { field: "inflationAdjustedValue", label: "Inflation-adjusted" },
+  { field: "accumulationSuccessRate", label: "Saving success" },
+  { field: "retirementSuccessRate", label: "Retirement success" },
+  { field: "totalTaxes", label: "Total taxes" },
+  { field: "totalFees", label: "Total fees" },
+];
+
+// A scenario metric, and its change from the baseline with a sign; a dash
+// for a retirement success rate without a retirement phase
+const formatScenarioMetric = (
+  field: keyof ScenarioMetrics,
+  value: number | undefined,
+  delta = false
+): string => {
+  if (value === undefined) {
+    return "—";
+  }
+  const sign = delta && value > 0 ? "+" : "";
+  if (
+    field === "accumulationSuccessRate" ||
+    field === "retirementSuccessRate"
+  ) {
+    return `${sign}${(value * 100).toFixed(1)}${delta ? " pts" : "%"}`;
+  }
+  return `${sign}${formatCurrency(value)}`;
+};
+
+const socialSecurityRecordFields: Array<{
+  field: keyof SocialSecurityRecord;
+  label: string;
+}> = [
+  { field: "primaryInsuranceAmount", label: "PIA ($/month)" },
+  { field: "birthYear", label: "Birth year" },
+];
+
+const withdrawalStrategyLabels: Record<WithdrawalStrategyType, string> = {
+  fixed: "Fixed amount",
+  "constant-percentage": "Constant percentage of balance",
+  "guyton-klinger": "Guyton-Klinger guardrails",
+  "vanguard-dynamic": "Vanguard dynamic spending",
+  vpw: "Variable percentage (VPW)",
+  rmd: "RMD table",
+};
+
+const withdrawalStrategyDescriptions: Record<WithdrawalStrategyType, string> = {
+  fixed:
+    "Withdraw the annual amount every year, raised with inflation if selected.",
+  "constant-percentage":
+    "Withdraw a fixed share of the balance at the start of each year. Spending rises and falls with the market, but the money never runs out.",
+  "guyton-klinger":
+    "Start at the annual amount and raise it with inflation, skipping the raise after a losing year. Cut spending when the withdrawal rate rises past the upper guardrail (except in the last 15 years) and raise it when the rate falls below the lower one.",
+  "vanguard-dynamic":
+    "Withdraw a share of the balance, but limit how far spending can rise (ceiling) or fall (floor) each year after inflation.",
+  vpw: "Spread the balance over the years left in retirement like a loan payment at the assumed real return, so spending rises with age.",
+  rmd: "Divide the balance by the IRS life expectancy for your age each year. Uses your current age; without it, divides by the years left in retirement.",
+};
+
+// Parameters each withdrawal strategy exposes, all entered as percentages
+const withdrawalStrategyFields: Record<
+  WithdrawalStrategyType,
+  Array<{
+    field: Exclude<keyof WithdrawalStrategySettings, "type">;
+    label: string;
+  }>
+> = {
+  fixed: [],
+  "constant-percentage": [
+    { field: "withdrawalRate", label: "Withdrawal rate" },
+  ],
+  "guyton-klinger": [
+    { field: "upperGuardrail", label: "Upper guardrail" },
+    { field: "lowerGuardrail", label: "Lower guardrail" },
+    { field: "guardrailAdjustment", label: "Adjustment" },
+  ],
+  "vanguard-dynamic": [
+    { field: "withdrawalRate", label: "Withdrawal rate" },
+    { field: "ceiling", label: "Ceiling" },
+    { field: "floor", label: "Floor" },
+  ],
+  vpw: [{ field: "realReturn", label: "Real return" }],
+  rmd: [],
+};
+
+const withdrawalOrderDescription = (order: WithdrawalOrder): string => {
+  if (order.type === "proportional") {
+    return "proportional";
+  }
+  const sequence = withdrawalSequenceLabel(order.sequence);
+  return order.type === "bracket-fill"
+    ? `tax-deferred to the ${order.targetBracketRate}% bracket, then ${sequence}`
+    : sequence;
+};
+
+const goalTargetLabels: Record<GoalTarget, string> = {
+  "final-balance": "Median final balance",
+  "real-balance": "Median final balance in today's dollars",
+  "success-rate": "Retirement success rate",
+};
+
+const goalVariableLabels: Record<GoalVariable, string> = {
+  monthlyContribution: "Monthly contribution",
+  initialInvestment: "Initial investment",
+  expectedAnnualReturn: "Expected annual return",
+  investmentHorizon: "Investment horizon",
+  annualWithdrawal: "Annual withdrawal",
+};
+
+// A goal variable's value in its own units
+const formatGoalValue = (variable: GoalVariable, value: number): string => {
+  if (variable === "expectedAnnualReturn") {
+    return `${value.toFixed(2)}%`;
+  }
+  if (variable === "investmentHorizon") {
+    return `${value} years`;
+  }
+  return formatCurrency(value);
+};
+
+// A goal outcome in the target's units
+const formatGoalOutcome = (target: GoalTarget, outcome: number): string =>
+  target === "success-rate"
+    ? `${outcome.toFixed(1)}%`
+    : formatCurrency(outcome);
+
+// Marks each chart year with a cash-flow event and its net amount
+const cashFlowMarkers = (
+  rows: Array<{ year: number; cashFlows: number }> = []
+) =>
+  rows
+    .filter((row) => row.cashFlows !== 0)
+    .map((row) => (
+      <ReferenceLine
+        key={`cash-flow-${row.year}`}
+        x={row.year}
+        stroke="hsl(var(--accent))"
+        strokeDasharray="2 2"
+        label={{
+          position: "insideTop",
+          value: `${row.cashFlows > 0 ? "+" : ""}${formatCurrency(
+            row.cashFlows
+          )}`,
+          fill: "hsl(var(--accent))",
+          fontSize: 12,
+        }}
+      />
+    ));
+
+const stateTaxDescription = (table: StateTaxTable): string => {
+  if (table.kind === "bracketed") {
+    return "brackets";
+  }
+  return table.rate > 0 ? `${table.rate}% flat` : "no income tax";
+};
+
 // Financial concept tooltips for educational purposes
 const tooltips = {
   initialInvestment:
@@ -28,6 +382,8 @@ const tooltips = {
     "The amount you plan to add to your investment each month.",
   annualContributionIncrease:
     "The percentage by which your monthly contribution will increase each year. This models salary growth.",
+  currentAge:
+    "Your age today. Your age at retirement is this plus the investment horizon, which sets when required minimum distributions (RMDs) from tax-deferred accounts begin. Leave blank to ignore RMDs.",
   investmentHorizon:
     "The number of years you plan to keep your money invested.",
   expectedAnnualReturn:
@@ -36,14 +392,56 @@ const tooltips = {
     "The degree of variation or fluctuation in the annual returns. Higher volatility means more uncertainty.",
   inflationRate:
     "The rate at which the general price level of goods and services rises, eroding purchasing power. The Fed targets approximately 2%.",
+  taxSettings:
+    "Flat tax rates applied to your investments. Working-year rates apply while you save; retirement rates apply once withdrawals begin in the retirement phase, when many people fall into a lower bracket.",
+  incomeTaxRate:
+    "Your marginal income tax rate, applied to withdrawals from tax-deferred accounts like a traditional 401k or IRA.",
+  dividendTaxRate:
+    "The tax rate on dividends paid in taxable accounts. Qualified dividends are taxed at 0%, 15% or 20% depending on income.",
+  capitalGainsTaxRate:
+    "The tax rate on gains realized when selling from taxable accounts. Long-term gains are taxed at 0%, 15% or 20% depending on income.",
+  federalTax:
+    "Taxes each retirement year's withdrawals the way the IRS does: the standard deduction comes off first, tax-deferred withdrawals fill the ordinary brackets (10% to 37%), and capital gains and qualified dividends stack on top at 0%, 15% or 20%. Bracket thresholds rise with inflation. Replaces the flat retirement income, capital gains and dividend rates.",
+  stateTax:
+    "State income tax on top of the federal tax, in both phases. States tax tax-deferred withdrawals, dividends and realized gains as ordinary income, either at one flat rate or through their own brackets. A few states don't tax retirement plan withdrawals.",
+  rothConversion:
+    "Moves money from tax-deferred to tax-free accounts during the years you choose, paying income tax on it now so later withdrawals and RMDs are smaller. Convert a fixed amount each year, or just enough to fill a federal bracket. The results compare lifetime taxes and after-tax wealth with and without the conversions on the same market path.",
+  grossUpWithdrawals:
+    "Without this, taxes on withdrawals come out of the amount you withdraw, so you spend less than you entered. With it, the amount you enter (or the strategy sets) is what you spend after tax, and each year's withdrawal is raised until it also covers the federal and state tax it triggers. Taxes on RMDs and Roth conversions aren't included.",
+  incomeStreams:
+    "Income you receive in retirement outside your portfolio. Enter Social Security as your benefit at full retirement age in today's dollars; the claiming age reduces it (as early as 62) or raises it (up to 70). Other streams start at the amount you enter in the retirement year they begin. With a fixed or guardrail strategy the streams cover part of your spending, so you withdraw less; any excess is saved to the taxable account. Pensions and annuities are taxed as ordinary income, up to 85% of Social Security is taxable depending on your other income, and rental income is taxed as ordinary income.",
+  contributionSchedule:
+    "Shape your contributions beyond a steady yearly increase: set a different monthly amount for particular years, take career breaks with no contributions, stop contributing at an age, and add a yearly bonus each December. With IRS limits on, tax-deferred and tax-free contributions together are capped at the annual 401(k) limit, with the Roth IRA limit as extra room for tax-free savings (both higher from age 50), and anything over goes to your taxable account.",
+  employerMatch:
+    "Money your employer adds to your 401(k) when you contribute. Each tier matches a share of what you contribute from a slice of your salary, so 100% of the first 3% plus 50% of the next 2% adds 4% of salary when you contribute 5% or more. Your 401(k) contributions, tax-deferred and Roth, count toward the match, which goes to your tax-deferred account. With IRS limits on, tax-free savings fill a Roth IRA first, and those aren't matched. With vesting, the part of the match you haven't earned yet is forfeited when you stop working, once withdrawals start or at the end of your horizon: a cliff vests all of it after a number of years of service, graded vesting a little each year.",
+  cashFlowEvents:
+    "One-off or recurring money going in or out of your portfolio, like a house down payment, an inheritance or a new car every 8 years. Deposits are added to your accounts as new savings; withdrawals are taken from your accounts and taxed like any other withdrawal. Set Repeat every to 0 for a one-off event. Events after your investment horizon happen during retirement, if enabled.",
+  socialSecurityClaiming:
+    "Runs the retirement projection once for each age you could claim Social Security, from 62 to 70, and shows which age gives the highest success rate and which leaves the most money at the end. Enter your primary insurance amount (PIA), the monthly benefit at full retirement age shown on your Social Security statement. A spouse can claim their own benefit or, if larger, a spousal benefit of up to half your PIA once you've both claimed.",
+  goalSolver:
+    "Finds the value of one input that reaches your goal, such as the monthly contribution that grows to $1.5 million or the largest withdrawal with a 90% success rate. Every other input stays as you entered it. The solver narrows the range by halves, testing each candidate on the same simulated markets so only your chosen input changes the result. Balance goals use the median of the Monte Carlo outcomes, and success rate goals the share of scenarios that last. The search uses a smaller Monte Carlo run, then checks and narrows its answer with the full run, so the result shown is what you get when you use the value and calculate.",
+  safeWithdrawal:
+    "Finds the largest first-year withdrawal that lasts through your retirement period in at least the share of market scenarios you choose, such as 90%. Later withdrawals follow your inflation setting. The chart shows the success rate for withdrawal rates from 2% to 8% of your starting balance, so you can see how quickly the odds fall as you spend more. Income streams, taxes and fees are included.",
+  scenarioComparison:
+    "Save your current inputs as a named scenario, change them, and save again to build alternatives like retiring three years later or cutting fees. Running the scenarios projects each one with the same random market moves, overlays their balances on one chart and lists their results with the change from the baseline you pick. Every run uses the comparison seed, picked at random the first time and then kept until you change it. Load copies a scenario back into the inputs, with that seed once you've run a comparison, so calculating gives the same figures.",
+  withdrawalOrder:
+    "Which accounts each withdrawal comes from. Drawing taxable savings first lets tax-advantaged accounts keep growing; drawing tax-deferred savings earlier shrinks future RMDs. Proportional draws from every account by its share of the balance. Bracket fill takes tax-deferred money until your income reaches the top of a federal bracket, then follows the order you pick.",
+  withdrawalStrategy:
+    "How each retirement year's withdrawal is set. A fixed amount ignores the market; the other strategies adjust spending to the portfolio, which lowers the chance of running out at the cost of less predictable income. Every Monte Carlo trial and historical cohort applies the strategy to its own returns.",
   accountType:
     "Tax treatment affects your real returns. Tax-deferred delays taxes until withdrawal, tax-free means no taxes on gains, taxable means you pay taxes on gains annually.",
   accountAllocation:
-    "Specify what percentage of your investment should go into tax-deferred accounts (like traditional 401k/IRA) vs tax-free accounts (like Roth 401k/IRA).",
+    "Specify what percentage of your investment should go into tax-deferred accounts (like traditional 401k/IRA), tax-free accounts (like Roth 401k/IRA) and taxable brokerage accounts. Your initial investment and every contribution are split this way.",
+  assetAllocation:
+    "How your portfolio is split between stocks, bonds and cash. When enabled, your expected return and volatility are calculated from these weights and the assumptions for each asset class, including how their returns move together.",
+  capitalMarketAssumptions:
+    "Expected annual return and volatility for each asset class, plus the correlation between each pair (-1 to 1). Lower correlations mean more diversification, so the portfolio is less volatile than its parts.",
+  glidePath:
+    "Like a target-date fund, gradually shifts your allocation from the mix above toward a more conservative one by the end of your investment horizon, and optionally further through retirement. Each year's mix sets that year's expected return and volatility.",
   finalBalance:
     "The total value of your investment at the end of your investment horizon.",
   totalContributions:
-    "The sum of your initial investment and all contributions made over time.",
+    "The sum of your initial investment and all contributions made over time. Employer match isn't included; it's shown separately.",
   totalGrowth:
     "The difference between your final balance and total contributions, representing investment earnings.",
   inflationAdjustedValue:
@@ -56,9 +454,33 @@ const tooltips = {
     "The annual fee charged by funds to cover operating expenses, expressed as a percentage of assets. Index funds typically range from 0.03% to 0.25%, while actively managed funds average 0.5% to 1.0%.",
   advisoryFee:
     "The fee paid to a financial advisor for portfolio management, typically ranging from 0% (self-directed) to 1% of assets under management annually.",
+  returnModel:
+    "The shape of simulated returns. Normal is the classic bell curve, lognormal prevents losses beyond -100% and skews gains upward, and Student-t adds fatter tails so market crashes and rallies happen more often. All three use your Return Volatility as the standard deviation.",
+  degreesOfFreedom:
+    "Controls how fat the Student-t tails are. Lower values (3-5) produce more frequent extreme months; higher values (30+) behave almost like a normal distribution.",
+  dividendYield:
+    "The share of your taxable balance paid out as dividends each year. Dividends are taxed every year and the rest is reinvested, raising your cost basis. The S&P 500 currently yields around 1.5%.",
+  historicalBacktest:
+    "Replays your plan through every rolling period of actual US market history since 1928, using your stock/bond/cash allocation and the inflation of each year. Shows how the plan would have fared starting in years like 1929, 1966 or 2000.",
+  seed: "A number that fixes the random market scenarios. Calculating again with the same inputs and seed reproduces exactly the same results; Use last seed also keeps the year the run started in, since birth years and claiming ages are dated from it. Leave blank for a new random seed on every calculation.",
 };
 
+const taxRateLabels: Array<{
+  field: keyof TaxRates;
+  label: string;
+  tooltip: string;
+}> = [
+  { field: "income", label: "Income", tooltip: tooltips.incomeTaxRate },
+  { field: "dividends", label: "Dividends", tooltip: tooltips.dividendTaxRate },
+  {
+    field: "capitalGains",
+    label: "Capital Gains",
+    tooltip: tooltips.capitalGainsTaxRate,
+  },
+];
+
 const defaultInputs: CalculatorInputs = {
+  currentAge: 35,
   initialInvestment: 10000,
   monthlyContribution: 500,
   annualContributionIncrease: 2,
@@ -71,6 +493,13 @@ const defaultInputs: CalculatorInputs = {
     dividends: 15,
     capitalGains: 15,
   },
+  retirementTaxRate: {
+    income: 25,
+    dividends: 15,
+    capitalGains: 15,
+  },
+  federalTax: DEFAULT_FEDERAL_TAX,
+  rothConversion: DEFAULT_ROTH_CONVERSION,
   fees: {
     expenseRatio: 0.1,
     advisoryFee: 0,
@@ -79,12 +508,15 @@ const defaultInputs: CalculatorInputs = {
   accountAllocation: {
     taxDeferred: 70,
     taxFree: 30,
+    taxable: 0,
   },
   assetAllocation: {
     stocks: 80,
     bonds: 20,
     cash: 0,
   },
+  capitalMarketAssumptions: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  glidePath: DEFAULT_GLIDE_PATH,
   retirementPhase: {
     enabled: false,
     annualWithdrawal: 40000,
@@ -92,6 +524,283 @@ const defaultInputs: CalculatorInputs = {
     retirementYears: 30,
     retirementReturn: 5,
   },
+  returnModel: {
+    distribution: "normal",
+    degreesOfFreedom: 5,
+  },
+  dividendYield: DEFAULT_DIVIDEND_YIELD,
+};
+
+/**
+ * Converts the raw strings the form edits into the numbers the calculation
+ * expects
+ */
+const toCalculationInputs = (inputs: CalculatorInputs): CalculatorInputs => {
+  const calculationInputs = {
+    ...inputs,
+    retirementPhase: { ...inputs.retirementPhase },
+  } as CalculatorInputs;
+
+  // Convert the specific fields you know should be numbers
+  const numericFields: Array<
+    keyof Pick<
+      CalculatorInputs,
+      | "initialInvestment"
+      | "monthlyContribution"
+      | "annualContributionIncrease"
+      | "investmentHorizon"
+      | "expectedAnnualReturn"
+      | "returnVolatility"
+      | "inflationRate"
+    >
+  > = [
+    "initialInvestment",
+    "monthlyContribution",
+    "annualContributionIncrease",
+    "investmentHorizon",
+    "expectedAnnualReturn",
+    "returnVolatility",
+    "inflationRate",
+  ];
+
+  numericFields.forEach((field) => {
+    const value = calculationInputs[field];
+    if (typeof value === "string") {
+      calculationInputs[field] = value === "" ? 0 : Number(value);
+    }
+  });
+
+  if (calculationInputs.rothConversion) {
+    calculationInputs.rothConversion = {
+      ...calculationInputs.rothConversion,
+      annualAmount: Number(calculationInputs.rothConversion.annualAmount),
+      startYear: Number(calculationInputs.rothConversion.startYear),
+      endYear: Number(calculationInputs.rothConversion.endYear),
+    };
+  }
+
+  // Schedule entries are edited as raw strings
+  const schedule = calculationInputs.contributionSchedule;
+  if (schedule) {
+    calculationInputs.contributionSchedule = {
+      ...schedule,
+      overrides: schedule.overrides.map((override) => ({
+        year: Number(override.year),
+        monthlyContribution: Number(override.monthlyContribution),
+      })),
+      breaks: schedule.breaks.map((careerBreak) => ({
+        startYear: Number(careerBreak.startYear),
+        years: Number(careerBreak.years),
+      })),
+      annualBonus: Number(schedule.annualBonus),
+    };
+  }
+
+  // Match settings are edited as raw strings; a blank cap means no cap
+  const match = calculationInputs.employerMatch;
+  if (match) {
+    const annualCap = match.annualCap as number | string | undefined;
+    calculationInputs.employerMatch = {
+      ...match,
+      salary: Number(match.salary),
+      salaryGrowth: Number(match.salaryGrowth),
+      tiers: match.tiers.map((tier) => ({
+        matchRate: Number(tier.matchRate),
+        salaryPercent: Number(tier.salaryPercent),
+      })),
+      annualCap:
+        annualCap === undefined || annualCap === ""
+          ? undefined
+          : Number(annualCap),
+      vestingYears: Number(match.vestingYears),
+      yearsOfService: Number(match.yearsOfService),
+    };
+  }
+
+  // Cash-flow event amounts and dates are edited as raw strings
+  if (calculationInputs.cashFlowEvents) {
+    calculationInputs.cashFlowEvents = calculationInputs.cashFlowEvents.map(
+      (event) => ({
+        ...event,
+        amount: Number(event.amount),
+        year: Number(event.year),
+        month: Number(event.month),
+        recurringInterval: Number(event.recurringInterval),
+      })
+    );
+  }
+
+  // Income stream amounts are edited as raw strings; a blank end year
+  // means the stream pays for life
+  if (calculationInputs.incomeStreams) {
+    calculationInputs.incomeStreams = calculationInputs.incomeStreams.map(
+      (stream) => {
+        const endYear = stream.endYear as number | string | undefined;
+        return {
+          ...stream,
+          annualAmount: Number(stream.annualAmount),
+          cola: Number(stream.cola),
+          startYear: Number(stream.startYear),
+          endYear:
+            endYear === undefined || endYear === ""
+              ? undefined
+              : Number(endYear),
+          claimingAge:
+            stream.claimingAge === undefined
+              ? undefined
+              : Number(stream.claimingAge),
+        };
+      }
+    );
+  }
+
+  if (calculationInputs.safeWithdrawal) {
+    calculationInputs.safeWithdrawal = {
+      ...calculationInputs.safeWithdrawal,
+      confidenceLevel: Number(calculationInputs.safeWithdrawal.confidenceLevel),
+    };
+  }
+
+  const claiming = calculationInputs.socialSecurityClaiming;
+  if (claiming) {
+    calculationInputs.socialSecurityClaiming = {
+      ...claiming,
+      worker: {
+        primaryInsuranceAmount: Number(claiming.worker.primaryInsuranceAmount),
+        birthYear: Number(claiming.worker.birthYear),
+      },
+      cola: Number(claiming.cola),
+      spouse: {
+        primaryInsuranceAmount: Number(claiming.spouse.primaryInsuranceAmount),
+        birthYear: Number(claiming.spouse.birthYear),
+        claimingAge: Number(claiming.spouse.claimingAge),
+      },
+    };
+  }
+
+  // Strategy parameters are edited as raw strings
+  const withdrawalStrategy =
+    calculationInputs.retirementPhase.withdrawalStrategy;
+  if (withdrawalStrategy) {
+    calculationInputs.retirementPhase = {
+      ...calculationInputs.retirementPhase,
+      withdrawalStrategy: {
+        type: withdrawalStrategy.type,
+        withdrawalRate: Number(withdrawalStrategy.withdrawalRate),
+        upperGuardrail: Number(withdrawalStrategy.upperGuardrail),
+        lowerGuardrail: Number(withdrawalStrategy.lowerGuardrail),
+        guardrailAdjustment: Number(withdrawalStrategy.guardrailAdjustment),
+        ceiling: Number(withdrawalStrategy.ceiling),
+        floor: Number(withdrawalStrategy.floor),
+        realReturn: Number(withdrawalStrategy.realReturn),
+      },
+    };
+  }
+
+  if (
+    calculationInputs.returnModel &&
+    typeof calculationInputs.returnModel.degreesOfFreedom === "string"
+  ) {
+    calculationInputs.returnModel = {
+      ...calculationInputs.returnModel,
+      degreesOfFreedom: Number(calculationInputs.returnModel.degreesOfFreedom),
+    };
+  }
+
+  // Capital market assumptions are edited as raw strings
+  if (calculationInputs.capitalMarketAssumptions) {
+    const { assetClasses, correlations } =
+      calculationInputs.capitalMarketAssumptions;
+    calculationInputs.capitalMarketAssumptions = {
+      ...calculationInputs.capitalMarketAssumptions,
+      assetClasses: {
+        stocks: {
+          expectedReturn: Number(assetClasses.stocks.expectedReturn),
+          volatility: Number(assetClasses.stocks.volatility),
+        },
+        bonds: {
+          expectedReturn: Number(assetClasses.bonds.expectedReturn),
+          volatility: Number(assetClasses.bonds.volatility),
+        },
+        cash: {
+          expectedReturn: Number(assetClasses.cash.expectedReturn),
+          volatility: Number(assetClasses.cash.volatility),
+        },
+      },
+      correlations: {
+        stocksBonds: Number(correlations.stocksBonds),
+        stocksCash: Number(correlations.stocksCash),
+        bondsCash: Number(correlations.bondsCash),
+      },
+    };
+  }
+
+  if (
+    calculationInputs.glidePath &&
+    typeof calculationInputs.glidePath.stepYears === "string"
+  ) {
+    calculationInputs.glidePath = {
+      ...calculationInputs.glidePath,
+      stepYears: Number(calculationInputs.glidePath.stepYears),
+    };
+  }
+
+  // Tax rates are edited as raw strings
+  calculationInputs.taxRate = {
+    income: Number(calculationInputs.taxRate.income),
+    dividends: Number(calculationInputs.taxRate.dividends),
+    capitalGains: Number(calculationInputs.taxRate.capitalGains),
+  };
+  if (calculationInputs.retirementTaxRate) {
+    calculationInputs.retirementTaxRate = {
+      income: Number(calculationInputs.retirementTaxRate.income),
+      dividends: Number(calculationInputs.retirementTaxRate.dividends),
+      capitalGains: Number(calculationInputs.retirementTaxRate.capitalGains),
+    };
+  }
+
+  if (typeof calculationInputs.dividendYield === "string") {
+    calculationInputs.dividendYield =
+      calculationInputs.dividendYield === ""
+        ? 0
+        : Number(calculationInputs.dividendYield);
+  }
+
+  // A blank seed means "pick a new random seed", and a fresh run starts in
+  // the current year rather than the one kept with an earlier seed
+  if (typeof calculationInputs.seed === "string") {
+    calculationInputs.seed =
+      calculationInputs.seed === ""
+        ? undefined
+        : Number(calculationInputs.seed);
+  }
+  if (calculationInputs.seed === undefined) {
+    calculationInputs.currentYear = undefined;
+  }
+
+  // Also handle retirement phase numeric fields
+  if (typeof calculationInputs.retirementPhase.annualWithdrawal === "string") {
+    calculationInputs.retirementPhase.annualWithdrawal =
+      calculationInputs.retirementPhase.annualWithdrawal === ""
+        ? 0
+        : Number(calculationInputs.retirementPhase.annualWithdrawal);
+  }
+
+  if (typeof calculationInputs.retirementPhase.retirementYears === "string") {
+    calculationInputs.retirementPhase.retirementYears =
+      calculationInputs.retirementPhase.retirementYears === ""
+        ? 1
+        : Number(calculationInputs.retirementPhase.retirementYears);
+  }
+
+  if (typeof calculationInputs.retirementPhase.retirementReturn === "string") {
+    calculationInputs.retirementPhase.retirementReturn =
+      calculationInputs.retirementPhase.retirementReturn === ""
+        ? 0
+        : Number(calculationInputs.retirementPhase.retirementReturn);
+  }
+
+  return calculationInputs;
 };
 
 export default function Calculator() {
@@ -99,6 +808,11 @@ export default function Calculator() {
   const [results, setResults] = useState<CalculatorResults | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [calculationComplete, setCalculationComplete] = useState(false);
+  const [calculating, setCalculating] = useState(false);
+  // Why the last calculation failed, shown under the button
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+  // Runs the Monte Carlo work off the page; created on mount
+  const calculationRunner = useRef<CalculationRunner | null>(null);
   const [chartFullscreen, setChartFullscreen] = useState(false);
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -107,10 +821,34 @@ export default function Calculator() {
   const activeTooltipRef = useRef<HTMLDivElement | null>(null);
 
   const [showUserGuide, setShowUserGuide] = useState(false);
+  // Raw text of the custom glide path table, parsed on every change
+  const [glidePathTable, setGlidePathTable] = useState("");
+  // Raw text of the current age and the stop age, parsed on every change; a
+  // blank age is undefined, which turns off RMDs and the stop age
+  const [currentAgeText, setCurrentAgeText] = useState(
+    String(defaultInputs.currentAge ?? "")
+  );
+  const [stopAgeText, setStopAgeText] = useState("");
+  const [goalSettings, setGoalSettings] =
+    useState<GoalSolverSettings>(DEFAULT_GOAL_SOLVER);
+  const [goalSolution, setGoalSolution] = useState<GoalSolution | null>(null);
+  const [solvingGoal, setSolvingGoal] = useState(false);
+  const [goalError, setGoalError] = useState<string | null>(null);
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [scenarioName, setScenarioName] = useState("");
+  const [scenarioComparison, setScenarioComparison] =
+    useState<ScenarioComparison | null>(null);
+  const [baselineScenario, setBaselineScenario] = useState(0);
+  const nextScenarioId = useRef(1);
+  const [comparingScenarios, setComparingScenarios] = useState(false);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  // Seed every scenario runs with; filled in with a random one on the first
+  // comparison, then kept so every comparison runs the same markets
+  const [scenarioSeed, setScenarioSeed] = useState("");
 
   const handleInputChange = (
     field: keyof CalculatorInputs,
-    value: number | string | object
+    value: number | string | boolean | object
   ) => {
     // Store the raw value in state
     setInputs((prev) => ({
@@ -133,6 +871,218 @@ export default function Calculator() {
     }));
   };
 
+  // Helper function to handle tax rate inputs for either phase
+  const handleTaxRateChange = (
+    phase: "taxRate" | "retirementTaxRate",
+    field: keyof TaxRates,
+    value: string | number
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      [phase]: {
+        ...(prev[phase] ?? prev.taxRate),
+        [field]: value,
+      },
+    }));
+  };
+
+  const handleFederalTaxChange = (
+    subfield: keyof FederalTaxSettings,
+    value: string | number | boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      federalTax: {
+        ...(prev.federalTax ?? DEFAULT_FEDERAL_TAX),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleRothConversionChange = (
+    subfield: keyof RothConversionPlan,
+    value: string | number | boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      rothConversion: {
+        ...(prev.rothConversion ?? DEFAULT_ROTH_CONVERSION),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleSocialSecurityClaimingChange = (
+    subfield: keyof SocialSecurityClaiming,
+    value: string | number | boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      socialSecurityClaiming: {
+        ...(prev.socialSecurityClaiming ?? DEFAULT_SOCIAL_SECURITY_CLAIMING),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleSafeWithdrawalChange = (
+    subfield: keyof SafeWithdrawalSettings,
+    value: string | number | boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      safeWithdrawal: {
+        ...(prev.safeWithdrawal ?? DEFAULT_SAFE_WITHDRAWAL),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleSocialSecurityRecordChange = (
+    person: "worker" | "spouse",
+    field: keyof SocialSecurityClaiming["spouse"],
+    value: string | number
+  ) => {
+    setInputs((prev) => {
+      const claiming =
+        prev.socialSecurityClaiming ?? DEFAULT_SOCIAL_SECURITY_CLAIMING;
+      return {
+        ...prev,
+        socialSecurityClaiming: {
+          ...claiming,
+          [person]: { ...claiming[person], [field]: value },
+        },
+      };
+    });
+  };
+
+  const handleWithdrawalStrategyChange = (
+    subfield: keyof WithdrawalStrategySettings,
+    value: string | number
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      retirementPhase: {
+        ...prev.retirementPhase,
+        withdrawalStrategy: {
+          ...(prev.retirementPhase.withdrawalStrategy ??
+            DEFAULT_WITHDRAWAL_STRATEGY),
+          [subfield]: value,
+        },
+      },
+    }));
+  };
+
+  const handleWithdrawalOrderChange = (
+    subfield: keyof WithdrawalOrder,
+    value: string | number | AccountBucket[]
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      withdrawalOrder: {
+        ...(prev.withdrawalOrder ?? DEFAULT_WITHDRAWAL_ORDER),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleContributionScheduleChange = (
+    subfield: keyof ContributionSchedule,
+    value: string | number | boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      contributionSchedule: {
+        ...(prev.contributionSchedule ?? DEFAULT_CONTRIBUTION_SCHEDULE),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const updateScheduleList = <K extends "overrides" | "breaks">(
+    list: K,
+    update: (entries: ContributionSchedule[K]) => ContributionSchedule[K]
+  ) => {
+    setInputs((prev) => {
+      const schedule =
+        prev.contributionSchedule ?? DEFAULT_CONTRIBUTION_SCHEDULE;
+      return {
+        ...prev,
+        contributionSchedule: { ...schedule, [list]: update(schedule[list]) },
+      };
+    });
+  };
+
+  const handleEmployerMatchChange = (
+    subfield: keyof EmployerMatch,
+    value: string | number | boolean | EmployerMatch["tiers"]
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      employerMatch: {
+        ...(prev.employerMatch ?? DEFAULT_EMPLOYER_MATCH),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleCashFlowEventChange = (
+    index: number,
+    field: keyof CashFlowEvent,
+    value: string | number | boolean | undefined
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      cashFlowEvents: (prev.cashFlowEvents ?? []).map((event, i) =>
+        i === index ? { ...event, [field]: value } : event
+      ),
+    }));
+  };
+
+  const addCashFlowEvent = () => {
+    setInputs((prev) => ({
+      ...prev,
+      cashFlowEvents: [...(prev.cashFlowEvents ?? []), DEFAULT_CASH_FLOW_EVENT],
+    }));
+  };
+
+  const removeCashFlowEvent = (index: number) => {
+    setInputs((prev) => ({
+      ...prev,
+      cashFlowEvents: (prev.cashFlowEvents ?? []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleIncomeStreamChange = (
+    index: number,
+    field: keyof IncomeStream,
+    value: string | number
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      incomeStreams: (prev.incomeStreams ?? []).map((stream, i) =>
+        i === index ? { ...stream, [field]: value } : stream
+      ),
+    }));
+  };
+
+  const addIncomeStream = (type: IncomeStreamType) => {
+    setInputs((prev) => ({
+      ...prev,
+      incomeStreams: [
+        ...(prev.incomeStreams ?? []),
+        DEFAULT_INCOME_STREAMS[type],
+      ],
+    }));
+  };
+
+  const removeIncomeStream = (index: number) => {
+    setInputs((prev) => ({
+      ...prev,
+      incomeStreams: (prev.incomeStreams ?? []).filter((_, i) => i !== index),
+    }));
+  };
+
   const handleAccountTypeChange = (
     type: "mixed" | "taxable" | "tax-deferred" | "tax-free"
   ) => {
@@ -142,7 +1092,8 @@ export default function Calculator() {
         accountType: type,
         accountAllocation: {
           taxDeferred: 50,
-          taxFree: 50,
+          taxFree: 30,
+          taxable: 20,
         },
       }));
     } else {
@@ -152,101 +1103,306 @@ export default function Calculator() {
         accountAllocation: {
           taxDeferred: type === "tax-deferred" ? 100 : 0,
           taxFree: type === "tax-free" ? 100 : 0,
+          taxable: type === "taxable" ? 100 : 0,
         },
       }));
     }
   };
 
   const handleAccountAllocationChange = (
-    type: "taxDeferred" | "taxFree",
+    type: keyof CalculatorInputs["accountAllocation"],
     value: number
   ) => {
-    const otherValue = 100 - value;
-
+    // Keep the three accounts summing to 100
     setInputs((prev) => ({
       ...prev,
-      accountAllocation: {
-        taxDeferred: type === "taxDeferred" ? value : otherValue,
-        taxFree: type === "taxFree" ? value : otherValue,
-      },
+      accountAllocation: rebalanceAllocation(
+        prev.accountAllocation,
+        type,
+        value
+      ),
     }));
   };
 
-  const handleCalculate = useCallback(() => {
-    setCalculationComplete(false);
-    // Add a small delay to allow for animation effect on recalculation
-    setTimeout(() => {
-      // Convert any string values to numbers for calculation
-      const calculationInputs = { ...inputs } as CalculatorInputs;
-
-      // Convert the specific fields you know should be numbers
-      const numericFields: Array<
-        keyof Pick<
-          CalculatorInputs,
-          | "initialInvestment"
-          | "monthlyContribution"
-          | "annualContributionIncrease"
-          | "investmentHorizon"
-          | "expectedAnnualReturn"
-          | "returnVolatility"
-          | "inflationRate"
-        >
-      > = [
-        "initialInvestment",
-        "monthlyContribution",
-        "annualContributionIncrease",
-        "investmentHorizon",
-        "expectedAnnualReturn",
-        "returnVolatility",
-        "inflationRate",
-      ];
-
-      numericFields.forEach((field) => {
-        const value = calculationInputs[field];
-        if (typeof value === "string") {
-          calculationInputs[field] = value === "" ? 0 : Number(value);
-        }
-      });
-
-      // Also handle retirement phase numeric fields
-      if (
-        typeof calculationInputs.retirementPhase.annualWithdrawal === "string"
-      ) {
-        calculationInputs.retirementPhase.annualWithdrawal =
-          calculationInputs.retirementPhase.annualWithdrawal === ""
-            ? 0
-            : Number(calculationInputs.retirementPhase.annualWithdrawal);
-      }
-
-      if (
-        typeof calculationInputs.retirementPhase.retirementYears === "string"
-      ) {
-        calculationInputs.retirementPhase.retirementYears =
-          calculationInputs.retirementPhase.retirementYears === ""
-            ? 1
-            : Number(calculationInputs.retirementPhase.retirementYears);
-      }
-
-      if (
-        typeof calculationInputs.retirementPhase.retirementReturn === "string"
-      ) {
-        calculationInputs.retirementPhase.retirementReturn =
-          calculationInputs.retirementPhase.retirementReturn === ""
-            ? 0
-            : Number(calculationInputs.retirementPhase.retirementReturn);
-      }
+  const handleAssetAllocationChange = (
+    assetClass: AssetClass,
+    value: number
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      assetAllocation: rebalanceAllocation(
+        prev.assetAllocation,
+        assetClass,
+        value
+      ),
+    }));
+  };
 
-      const calculatedResults =
-        calculateMonthlyCompoundInterest(calculationInputs);
-      setResults(calculatedResults);
-      setCalculationComplete(true);
-    }, 300);
-  }, [inputs]);
+  // Helper functions to handle capital market assumption inputs
+  const handleCapitalMarketAssumptionsChange = (
+    subfield: "enabled",
+    value: boolean
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      capitalMarketAssumptions: {
+        ...(prev.capitalMarketAssumptions ??
+          DEFAULT_CAPITAL_MARKET_ASSUMPTIONS),
+        [subfield]: value,
+      },
+    }));
+  };
 
-  const handleExportToExcel = (
-    dataType: "investment" | "retirement" = "investment"
+  const handleAssetClassAssumptionChange = (
+    assetClass: AssetClass,
+    subfield: keyof AssetClassAssumptions,
+    value: string | number
   ) => {
-    if (!results) return;
+    setInputs((prev) => {
+      const assumptions =
+        prev.capitalMarketAssumptions ?? DEFAULT_CAPITAL_MARKET_ASSUMPTIONS;
+      return {
+        ...prev,
+        capitalMarketAssumptions: {
+          ...assumptions,
+          assetClasses: {
+            ...assumptions.assetClasses,
+            [assetClass]: {
+              ...assumptions.assetClasses[assetClass],
+              [subfield]: value,
+            },
+          },
+        },
+      };
+    });
+  };
+
+  const handleCorrelationChange = (
+    pair: keyof CapitalMarketAssumptions["correlations"],
+    value: string | number
+  ) => {
+    setInputs((prev) => {
+      const assumptions =
+        prev.capitalMarketAssumptions ?? DEFAULT_CAPITAL_MARKET_ASSUMPTIONS;
+      return {
+        ...prev,
+        capitalMarketAssumptions: {
+          ...assumptions,
+          correlations: {
+            ...assumptions.correlations,
+            [pair]: value,
+          },
+        },
+      };
+    });
+  };
+
+  // Helper functions to handle glide path inputs
+  const handleGlidePathChange = (
+    subfield: keyof GlidePath,
+    value: string | number | boolean | object
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      glidePath: {
+        ...(prev.glidePath ?? DEFAULT_GLIDE_PATH),
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const handleGlidePathAllocationChange = (
+    field: "endAllocation" | "retirementEndAllocation",
+    assetClass: AssetClass,
+    value: number
+  ) => {
+    setInputs((prev) => {
+      const glidePath = prev.glidePath ?? DEFAULT_GLIDE_PATH;
+      return {
+        ...prev,
+        glidePath: {
+          ...glidePath,
+          [field]: rebalanceAllocation(
+            glidePath[field] ?? glidePath.endAllocation,
+            assetClass,
+            value
+          ),
+        },
+      };
+    });
+  };
+
+  const parseAge = (text: string) => (text === "" ? undefined : Number(text));
+
+  const handleCurrentAgeChange = (text: string) => {
+    setCurrentAgeText(text);
+    setInputs((prev) => ({ ...prev, currentAge: parseAge(text) }));
+  };
+
+  const handleStopAgeChange = (text: string) => {
+    setStopAgeText(text);
+    setInputs((prev) => ({
+      ...prev,
+      contributionSchedule: {
+        ...(prev.contributionSchedule ?? DEFAULT_CONTRIBUTION_SCHEDULE),
+        stopAge: parseAge(text),
+      },
+    }));
+  };
+
+  const handleGlidePathTableChange = (text: string) => {
+    setGlidePathTable(text);
+    handleGlidePathChange("customAllocations", parseGlidePathTable(text));
+  };
+
+  const handleCalculate = useCallback(() => {
+    // Don't calculate with invalid tax rates; the panel shows what to fix
+    if (
+      Object.keys(validateTaxRates(inputs.taxRate)).length > 0 ||
+      (inputs.retirementPhase.enabled &&
+        Object.keys(
+          validateTaxRates(inputs.retirementTaxRate ?? inputs.taxRate)
+        ).length > 0)
+    ) {
+      return;
+    }
+
+    const runner = calculationRunner.current;
+    if (!runner) return;
+
+    setCalculationComplete(false);
+    setCalculating(true);
+    setCalculationError(null);
+    // Add a small delay to allow for animation effect on recalculation
+    setTimeout(() => {
+      runner
+        .calculate(toCalculationInputs(inputs))
+        .then((calculatedResults) => {
+          setResults(calculatedResults);
+          setCalculationComplete(true);
+        })
+        .catch((error: Error) =>
+          setCalculationError(`The calculation failed: ${error.message}`)
+        )
+        .finally(() => setCalculating(false));
+    }, 300);
+  }, [inputs]);
+
+  const handleGoalSettingChange = (
+    field: keyof GoalSolverSettings,
+    value: string
+  ) => {
+    setGoalSettings((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSolveGoal = useCallback(() => {
+    const runner = calculationRunner.current;
+    if (!runner) return;
+
+    setSolvingGoal(true);
+    setGoalError(null);
+    runner
+      .solveGoal(toCalculationInputs(inputs), {
+        ...goalSettings,
+        targetValue: Number(goalSettings.targetValue),
+      })
+      .then(setGoalSolution)
+      .catch((error: Error) =>
+        setGoalError(`The goal solver failed: ${error.message}`)
+      )
+      .finally(() => setSolvingGoal(false));
+  }, [inputs, goalSettings]);
+
+  // Copies the solved value into the inputs, with the solver's seed and start
+  // year when no seed is set so the next calculation runs the same markets
+  // the solver tested
+  const applyGoalSolution = () => {
+    const value = goalSolution?.value;
+    if (!goalSolution || value === undefined) return;
+    const { variable } = goalSolution.settings;
+    setInputs((prev) => {
+      const solved = withGoalVariable(
+        prev,
+        variable,
+        roundGoalValue(variable, value)
+      );
+      return prev.seed === undefined || (prev.seed as number | string) === ""
+        ? {
+            ...solved,
+            seed: goalSolution.seed,
+            currentYear: goalSolution.currentYear,
+          }
+        : solved;
+    });
+  };
+
+  // Saves the current inputs, converted to numbers, as a named scenario, with
+  // the year its plan starts in pinned so later comparisons keep it
+  const saveScenario = () => {
+    const id = nextScenarioId.current++;
+    const scenarioInputs = toCalculationInputs(inputs);
+    setScenarios((prev) => [
+      ...prev,
+      {
+        id,
+        name: scenarioName.trim() || `Scenario ${id}`,
+        inputs: {
+          ...scenarioInputs,
+          currentYear: planStartYear(scenarioInputs),
+        },
+      },
+    ]);
+    setScenarioName("");
+  };
+
+  // Loads a scenario's inputs, with the comparison's seed once one has run so
+  // calculating reproduces the scenario's figures
+  const loadScenario = (scenario: SavedScenario) => {
+    setCurrentAgeText(String(scenario.inputs.currentAge ?? ""));
+    setStopAgeText(String(scenario.inputs.contributionSchedule?.stopAge ?? ""));
+    setInputs(
+      scenarioComparison
+        ? { ...scenario.inputs, seed: scenarioComparison.seed }
+        : scenario.inputs
+    );
+  };
+
+  const renameScenario = (id: number, name: string) => {
+    setScenarios((prev) =>
+      prev.map((scenario) =>
+        scenario.id === id ? { ...scenario, name } : scenario
+      )
+    );
+  };
+
+  const removeScenario = (id: number) => {
+    setScenarios((prev) => prev.filter((scenario) => scenario.id !== id));
+  };
+
+  const handleCompareScenarios = useCallback(() => {
+    const runner = calculationRunner.current;
+    if (!runner) return;
+
+    const seed = scenarioSeed === "" ? generateSeed() : Number(scenarioSeed);
+    setScenarioSeed(String(seed));
+    setComparingScenarios(true);
+    setScenarioError(null);
+    runner
+      .compareScenarios(scenarios, seed)
+      .then((comparison) => {
+        setScenarioComparison(comparison);
+        setBaselineScenario(0);
+      })
+      .catch((error: Error) =>
+        setScenarioError(`The scenario comparison failed: ${error.message}`)
+      )
+      .finally(() => setComparingScenarios(false));
+  }, [scenarios, scenarioSeed]);
+
+  const handleExportToExcel = (
+    dataType: "investment" | "retirement" = "investment"
+  ) => {
+    if (!results) return;
 
     // Determine which data to export
     const data =
@@ -254,8 +1410,37 @@ export default function Calculator() {
         ? results.yearByYearDetails
         : results.retirementPhaseResults?.yearByYearDetails || [];
 
+    // Flatten each year's allocation, account withdrawals and income streams
+    // into their own columns
+    const rows = data.map(({ allocation, ...row }) => {
+      const flattened = {
+        ...row,
+        stocksAllocation: allocation.stocks,
+        bondsAllocation: allocation.bonds,
+        cashAllocation: allocation.cash,
+      };
+      if (!("withdrawalsByAccount" in flattened)) {
+        return flattened;
+      }
+
+      const { withdrawalsByAccount, incomeStreams, ...rest } = flattened;
+      const streamColumns: Record<string, number> = {};
+      incomeStreams.forEach((payment, index) => {
+        const name =
+          inputs.incomeStreams?.[index]?.name || `Income stream ${index + 1}`;
+        streamColumns[name] = payment;
+      });
+      return {
+        ...rest,
+        taxDeferredWithdrawals: withdrawalsByAccount.taxDeferred,
+        taxFreeWithdrawals: withdrawalsByAccount.taxFree,
+        taxableWithdrawals: withdrawalsByAccount.taxable,
+        ...streamColumns,
+      };
+    });
+
     // Create worksheet with data
-    const worksheet = XLSX.utils.json_to_sheet(data);
+    const worksheet = XLSX.utils.json_to_sheet(rows);
 
     // Create workbook and add the worksheet
     const workbook = XLSX.utils.book_new();
@@ -327,6 +1512,16 @@ export default function Calculator() {
     }
   };
 
+  // Start the calculation worker, and stop it when the component unmounts
+  useEffect(() => {
+    const runner = createCalculationRunner();
+    calculationRunner.current = runner;
+    return () => {
+      runner.terminate();
+      calculationRunner.current = null;
+    };
+  }, []);
+
   // Clean up any tooltips when component unmounts
   useEffect(() => {
     return () => {
@@ -355,6 +1550,129 @@ export default function Calculator() {
     }));
   };
 
+  // Helper function to handle return distribution inputs
+  const handleReturnModelChange = (
+    subfield: keyof NonNullable<typeof inputs.returnModel>,
+    value: string | number
+  ) => {
+    setInputs((prev) => ({
+      ...prev,
+      returnModel: {
+        distribution: "normal",
+        ...prev.returnModel,
+        [subfield]: value,
+      },
+    }));
+  };
+
+  const capitalMarketAssumptions =
+    inputs.capitalMarketAssumptions ?? DEFAULT_CAPITAL_MARKET_ASSUMPTIONS;
+  const portfolio = calculatePortfolioAssumptions(
+    inputs.assetAllocation,
+    capitalMarketAssumptions
+  );
+  const glidePath = inputs.glidePath ?? DEFAULT_GLIDE_PATH;
+  const federalTax = inputs.federalTax ?? DEFAULT_FEDERAL_TAX;
+  const rothConversion = inputs.rothConversion ?? DEFAULT_ROTH_CONVERSION;
+  const withdrawalStrategy =
+    inputs.retirementPhase.withdrawalStrategy ?? DEFAULT_WITHDRAWAL_STRATEGY;
+  const withdrawalOrder = inputs.withdrawalOrder ?? DEFAULT_WITHDRAWAL_ORDER;
+  // Only the fixed and guardrail strategies start from the annual amount
+  const usesAnnualWithdrawal = strategySetsSpending(inputs);
+  const incomeStreams = inputs.incomeStreams ?? [];
+  const contributionSchedule =
+    inputs.contributionSchedule ?? DEFAULT_CONTRIBUTION_SCHEDULE;
+  // The stop age is ignored until the current age is known
+  const stopAgeNeedsCurrentAge =
+    contributionSchedule.stopAge !== undefined &&
+    inputs.currentAge === undefined;
+  const employerMatch = inputs.employerMatch ?? DEFAULT_EMPLOYER_MATCH;
+  const socialSecurityClaiming =
+    inputs.socialSecurityClaiming ?? DEFAULT_SOCIAL_SECURITY_CLAIMING;
+  const safeWithdrawal = inputs.safeWithdrawal ?? DEFAULT_SAFE_WITHDRAWAL;
+  // Every bracket but the top one can be filled
+  const fillableBracketRates = federalTaxTable(federalTax.taxYear)
+    .ordinaryBrackets[federalTax.filingStatus].slice(0, -1)
+    .map((bracket) => bracket.rate);
+  const stateTable = stateTaxTable(inputs.state);
+  // Brackets replace the flat retirement rates for withdrawals
+  const bracketedTaxFields: Array<keyof TaxRates> =
+    inputs.retirementPhase.enabled && federalTax.enabled
+      ? ["income", "capitalGains"]
+      : [];
+  const taxRateErrors = {
+    taxRate: validateTaxRates(inputs.taxRate),
+    retirementTaxRate: validateTaxRates(
+      inputs.retirementTaxRate ?? inputs.taxRate
+    ),
+  };
+  const hasTaxRateErrors =
+    Object.keys(taxRateErrors.taxRate).length > 0 ||
+    (inputs.retirementPhase.enabled &&
+      Object.keys(taxRateErrors.retirementTaxRate).length > 0);
+  // The success rate needs a retirement phase and is the only outcome the
+  // withdrawal moves; a glide path or capital market assumptions derive the
+  // return from the allocation
+  const goalTargetAvailable = (target: GoalTarget) =>
+    target !== "success-rate" || inputs.retirementPhase.enabled;
+  const goalVariableAvailable = (variable: GoalVariable) => {
+    if (variable === "annualWithdrawal") {
+      return (
+        inputs.retirementPhase.enabled &&
+        usesAnnualWithdrawal &&
+        goalSettings.target === "success-rate"
+      );
+    }
+    if (variable === "expectedAnnualReturn") {
+      return (
+        !inputs.glidePath?.enabled && !inputs.capitalMarketAssumptions?.enabled
+      );
+    }
+    return true;
+  };
+  const canSolveGoal =
+    !hasTaxRateErrors &&
+    goalTargetAvailable(goalSettings.target) &&
+    goalVariableAvailable(goalSettings.variable);
+  // Retirement years shaped by required minimum distributions
+  const retirementRows = results?.retirementPhaseResults?.yearByYearDetails;
+  const contributionOverflow = (results?.yearByYearDetails ?? []).reduce(
+    (sum, row) => sum + row.contributionOverflow,
+    0
+  );
+  const claimingAnalysis = results?.retirementPhaseResults?.claimingAnalysis;
+  const safeWithdrawalAnalysis =
+    results?.retirementPhaseResults?.safeWithdrawalAnalysis;
+  // One row per plan year with each compared scenario's ending balance;
+  // a scenario's line ends with its plan
+  const scenarioOutcomes = scenarioComparison?.outcomes ?? [];
+  const scenarioChartData = Array.from(
+    {
+      length: Math.max(
+        0,
+        ...scenarioOutcomes.map((outcome) => outcome.balances.length)
+      ),
+    },
+    (_, year) => {
+      const row: Record<string, number> = { year: year + 1 };
+      scenarioOutcomes.forEach((outcome, index) => {
+        if (year < outcome.balances.length) {
+          row[`scenario${index}`] = outcome.balances[year];
+        }
+      });
+      return row;
+    }
+  );
+  const baselineMetrics = scenarioOutcomes[baselineScenario]?.metrics;
+  const firstRmdYear = retirementRows?.find(
+    (row) => row.requiredMinimumDistribution > 0
+  )?.year;
+  const rmdDrivenYears =
+    retirementRows?.filter((row) => row.rmdDriven).length ?? 0;
+  // A glide path always derives returns from the asset class assumptions
+  const allocationDrivesReturns =
+    capitalMarketAssumptions.enabled || glidePath.enabled;
+
   return (
     <div
       className="space-y-12 py-6 md:py-8 animate-[slideUpFade_0.6s_ease-in-out]"
@@ -564,16 +1882,33 @@ export default function Calculator() {
                 </div>
               </div>
 
-              {/* Investment Horizon */}
+              {/* Contribution Schedule */}
               <div className="group">
-                <div className="flex justify-between">
-                  <label className="block text-sm font-medium mb-2 transition-colors">
-                    Investment Horizon
-                  </label>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="contribution-schedule"
+                      checked={contributionSchedule.enabled}
+                      onChange={(e) =>
+                        handleContributionScheduleChange(
+                          "enabled",
+                          e.target.checked
+                        )
+                      }
+                      className="w-4 h-4 mr-2 accent-primary"
+                    />
+                    <label
+                      htmlFor="contribution-schedule"
+                      className="text-sm font-medium"
+                    >
+                      Customize contribution schedule
+                    </label>
+                  </div>
                   <div
                     className="tooltip"
                     onMouseEnter={(e) =>
-                      handleTooltipMouseEnter(e, tooltips.investmentHorizon)
+                      handleTooltipMouseEnter(e, tooltips.contributionSchedule)
                     }
                     onMouseLeave={handleTooltipMouseLeave}
                   >
@@ -592,37 +1927,386 @@ export default function Calculator() {
                     </svg>
                   </div>
                 </div>
-                <div className="relative">
-                  <input
-                    type="number"
-                    value={inputs.investmentHorizon}
-                    onChange={(e) =>
-                      handleInputChange("investmentHorizon", e.target.value)
-                    }
-                    onBlur={(e) => {
-                      if (e.target.value === "") {
-                        handleInputChange("investmentHorizon", 0);
+
+                {contributionSchedule.enabled && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">
+                          Stop at age
+                        </label>
+                        <input
+                          type="number"
+                          value={stopAgeText}
+                          onChange={(e) => handleStopAgeChange(e.target.value)}
+                          placeholder="Never"
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          min="0"
+                        />
+                        {stopAgeNeedsCurrentAge && (
+                          <p className="text-xs text-destructive mt-1">
+                            Enter your current age for the stop age to apply
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">
+                          Annual bonus ($)
+                        </label>
+                        <input
+                          type="number"
+                          value={contributionSchedule.annualBonus}
+                          onChange={(e) =>
+                            handleContributionScheduleChange(
+                              "annualBonus",
+                              e.target.value
+                            )
+                          }
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          min="0"
+                          step="500"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="contribution-limits"
+                        checked={contributionSchedule.applyContributionLimits}
+                        onChange={(e) =>
+                          handleContributionScheduleChange(
+                            "applyContributionLimits",
+                            e.target.checked
+                          )
+                        }
+                        className="w-4 h-4 mr-2 accent-primary"
+                      />
+                      <label htmlFor="contribution-limits" className="text-xs">
+                        Apply IRS limits (overflow goes to taxable)
+                      </label>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="block text-xs font-medium">
+                        Career breaks
+                      </label>
+                      {contributionSchedule.breaks.map((careerBreak, index) => (
+                        <div key={index} className="flex items-end gap-2">
+                          {(
+                            [
+                              { field: "startYear", label: "From year" },
+                              { field: "years", label: "Years off" },
+                            ] as const
+                          ).map(({ field, label }) => (
+                            <div key={field} className="flex-1">
+                              <label className="block text-xs text-muted-foreground mb-1">
+                                {label}
+                              </label>
+                              <input
+                                type="number"
+                                value={careerBreak[field]}
+                                onChange={(e) =>
+                                  updateScheduleList("breaks", (entries) =>
+                                    entries.map((entry, i) =>
+                                      i === index
+                                        ? { ...entry, [field]: e.target.value }
+                                        : entry
+                                    )
+                                  )
+                                }
+                                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                min="0"
+                              />
+                            </div>
+                          ))}
+                          <button
+                            onClick={() =>
+                              updateScheduleList("breaks", (entries) =>
+                                entries.filter((_, i) => i !== index)
+                              )
+                            }
+                            className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() =>
+                          updateScheduleList("breaks", (entries) => [
+                            ...entries,
+                            { startYear: 0, years: 1 },
+                          ])
+                        }
+                        className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                      >
+                        + Add career break
+                      </button>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="block text-xs font-medium">
+                        Yearly overrides
+                      </label>
+                      {contributionSchedule.overrides.map((override, index) => (
+                        <div key={index} className="flex items-end gap-2">
+                          {(
+                            [
+                              { field: "year", label: "Year" },
+                              {
+                                field: "monthlyContribution",
+                                label: "Monthly ($)",
+                              },
+                            ] as const
+                          ).map(({ field, label }) => (
+                            <div key={field} className="flex-1">
+                              <label className="block text-xs text-muted-foreground mb-1">
+                                {label}
+                              </label>
+                              <input
+                                type="number"
+                                value={override[field]}
+                                onChange={(e) =>
+                                  updateScheduleList("overrides", (entries) =>
+                                    entries.map((entry, i) =>
+                                      i === index
+                                        ? { ...entry, [field]: e.target.value }
+                                        : entry
+                                    )
+                                  )
+                                }
+                                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                min="0"
+                              />
+                            </div>
+                          ))}
+                          <button
+                            onClick={() =>
+                              updateScheduleList("overrides", (entries) =>
+                                entries.filter((_, i) => i !== index)
+                              )
+                            }
+                            className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() =>
+                          updateScheduleList("overrides", (entries) => [
+                            ...entries,
+                            { year: 0, monthlyContribution: 0 },
+                          ])
+                        }
+                        className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                      >
+                        + Add override
+                      </button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Years count from today (year 0). An override sets that
+                      year&apos;s monthly contribution; breaks and the stop age
+                      pause contributions and bonuses.
+                      {contributionSchedule.applyContributionLimits &&
+                        ` IRS limits in ${CONTRIBUTION_LIMITS_YEAR} are $${CONTRIBUTION_LIMITS.electiveDeferral.limit.toLocaleString()} a year in 401(k) deferrals, shared by tax-deferred and tax-free savings, plus $${CONTRIBUTION_LIMITS.rothIra.limit.toLocaleString()} in a Roth IRA for tax-free savings, with catch-up contributions from age ${CATCH_UP_AGE}, rising with inflation.`}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Employer Match */}
+              <div className="group">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="employer-match"
+                      checked={employerMatch.enabled}
+                      onChange={(e) =>
+                        handleEmployerMatchChange("enabled", e.target.checked)
                       }
-                    }}
-                    className="w-full pl-3 pr-14 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
-                    min="1"
-                  />
-                  <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    Years
-                  </span>
+                      className="w-4 h-4 mr-2 accent-primary"
+                    />
+                    <label
+                      htmlFor="employer-match"
+                      className="text-sm font-medium"
+                    >
+                      Employer 401(k) match
+                    </label>
+                  </div>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.employerMatch)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
                 </div>
+
+                {employerMatch.enabled && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      {employerMatchFields.map(
+                        ({ field, label, placeholder }) => (
+                          <div key={field}>
+                            <label className="block text-xs text-muted-foreground mb-1">
+                              {label}
+                            </label>
+                            <input
+                              type="number"
+                              value={employerMatch[field] ?? ""}
+                              onChange={(e) =>
+                                handleEmployerMatchChange(field, e.target.value)
+                              }
+                              placeholder={placeholder}
+                              className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                              min="0"
+                            />
+                          </div>
+                        )
+                      )}
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">
+                          Vesting
+                        </label>
+                        <select
+                          value={employerMatch.vesting}
+                          onChange={(e) =>
+                            handleEmployerMatchChange("vesting", e.target.value)
+                          }
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                        >
+                          {(Object.keys(vestingLabels) as VestingType[]).map(
+                            (vesting) => (
+                              <option key={vesting} value={vesting}>
+                                {vestingLabels[vesting]}
+                              </option>
+                            )
+                          )}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">
+                          Years to vest
+                        </label>
+                        <input
+                          type="number"
+                          value={employerMatch.vestingYears}
+                          onChange={(e) =>
+                            handleEmployerMatchChange(
+                              "vestingYears",
+                              e.target.value
+                            )
+                          }
+                          disabled={employerMatch.vesting === "immediate"}
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm disabled:opacity-50"
+                          min="0"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="block text-xs font-medium">
+                        Match tiers
+                      </label>
+                      {employerMatch.tiers.map((tier, index) => (
+                        <div key={index} className="flex items-end gap-2">
+                          {(
+                            [
+                              { field: "matchRate", label: "Match (%)" },
+                              {
+                                field: "salaryPercent",
+                                label:
+                                  index === 0
+                                    ? "Of the first (% of salary)"
+                                    : "Of the next (% of salary)",
+                              },
+                            ] as const
+                          ).map(({ field, label }) => (
+                            <div key={field} className="flex-1">
+                              <label className="block text-xs text-muted-foreground mb-1">
+                                {label}
+                              </label>
+                              <input
+                                type="number"
+                                value={tier[field]}
+                                onChange={(e) =>
+                                  handleEmployerMatchChange(
+                                    "tiers",
+                                    employerMatch.tiers.map((entry, i) =>
+                                      i === index
+                                        ? { ...entry, [field]: e.target.value }
+                                        : entry
+                                    )
+                                  )
+                                }
+                                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                min="0"
+                              />
+                            </div>
+                          ))}
+                          <button
+                            onClick={() =>
+                              handleEmployerMatchChange(
+                                "tiers",
+                                employerMatch.tiers.filter(
+                                  (_, i) => i !== index
+                                )
+                              )
+                            }
+                            className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() =>
+                          handleEmployerMatchChange("tiers", [
+                            ...employerMatch.tiers,
+                            { matchRate: 50, salaryPercent: 2 },
+                          ])
+                        }
+                        className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                      >
+                        + Add tier
+                      </button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Salary grows from today and stops during career breaks,
+                      after the stop age and once withdrawals start. Only your
+                      tax-deferred and tax-free contributions are matched.
+                    </p>
+                  </div>
+                )}
               </div>
 
-              {/* Expected Annual Return */}
+              {/* Current Age */}
               <div className="group">
                 <div className="flex justify-between">
                   <label className="block text-sm font-medium mb-2 transition-colors">
-                    Expected Annual Return
+                    Current Age
                   </label>
                   <div
                     className="tooltip"
                     onMouseEnter={(e) =>
-                      handleTooltipMouseEnter(e, tooltips.expectedAnnualReturn)
+                      handleTooltipMouseEnter(e, tooltips.currentAge)
                     }
                     onMouseLeave={handleTooltipMouseLeave}
                   >
@@ -644,62 +2328,366 @@ export default function Calculator() {
                 <div className="relative">
                   <input
                     type="number"
-                    value={inputs.expectedAnnualReturn}
-                    onChange={(e) =>
-                      handleInputChange("expectedAnnualReturn", e.target.value)
-                    }
-                    onBlur={(e) => {
-                      if (e.target.value === "") {
-                        handleInputChange("expectedAnnualReturn", 0);
-                      }
-                    }}
-                    className="w-full pl-3 pr-9 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                    value={currentAgeText}
+                    onChange={(e) => handleCurrentAgeChange(e.target.value)}
+                    className="w-full pl-3 pr-14 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
                     min="0"
-                    step="0.1"
+                    max="120"
                   />
                   <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    %
+                    Years
                   </span>
                 </div>
               </div>
 
-              {/* Show/Hide Advanced Parameters */}
-              <div className="pt-2">
-                <button
-                  onClick={() => setShowAdvanced(!showAdvanced)}
-                  className="text-sm text-accent-foreground flex items-center hover:underline transition-colors"
-                >
-                  {showAdvanced ? "Hide" : "Show"} Advanced Parameters
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className={`ml-1 w-4 h-4 transition-transform duration-200 ${
-                      showAdvanced ? "transform rotate-180" : ""
-                    }`}
+              {/* Investment Horizon */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Investment Horizon
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.investmentHorizon)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
                   >
-                    <path d="m6 9 6 6 6-6" />
-                  </svg>
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={inputs.investmentHorizon}
+                    onChange={(e) =>
+                      handleInputChange("investmentHorizon", e.target.value)
+                    }
+                    onBlur={(e) => {
+                      if (e.target.value === "") {
+                        handleInputChange("investmentHorizon", 0);
+                      }
+                    }}
+                    className="w-full pl-3 pr-14 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                    min="1"
+                  />
+                  <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                    Years
+                  </span>
+                </div>
               </div>
 
-              {/* Advanced Parameters */}
-              {showAdvanced && (
-                <div className="space-y-6 animate-[slideUpFade_0.3s_ease-in-out]">
-                  {/* Return Volatility */}
-                  <div className="group">
-                    <div className="flex justify-between">
-                      <label className="block text-sm font-medium mb-2 transition-colors">
-                        Return Volatility
-                      </label>
+              {/* Expected Annual Return */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Expected Annual Return
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.expectedAnnualReturn)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={inputs.expectedAnnualReturn}
+                    onChange={(e) =>
+                      handleInputChange("expectedAnnualReturn", e.target.value)
+                    }
+                    onBlur={(e) => {
+                      if (e.target.value === "") {
+                        handleInputChange("expectedAnnualReturn", 0);
+                      }
+                    }}
+                    disabled={allocationDrivesReturns}
+                    className="w-full pl-3 pr-9 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200 disabled:opacity-50"
+                    min="0"
+                    step="0.1"
+                  />
+                  <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                    %
+                  </span>
+                </div>
+                {allocationDrivesReturns && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Derived from your asset allocation
+                  </p>
+                )}
+              </div>
+
+              {/* Asset Allocation */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Asset Allocation
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.assetAllocation)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+                <div className="flex items-center mb-3">
+                  <input
+                    type="checkbox"
+                    id="use-asset-allocation"
+                    checked={capitalMarketAssumptions.enabled}
+                    onChange={(e) =>
+                      handleCapitalMarketAssumptionsChange(
+                        "enabled",
+                        e.target.checked
+                      )
+                    }
+                    className="w-4 h-4 mr-2 accent-primary"
+                  />
+                  <label htmlFor="use-asset-allocation" className="text-sm">
+                    Derive return and volatility from allocation
+                  </label>
+                </div>
+                <div className="space-y-3">
+                  {ASSET_CLASSES.map((assetClass) => (
+                    <div key={assetClass}>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span>{assetClassLabels[assetClass]}</span>
+                        <span>{inputs.assetAllocation[assetClass]}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={inputs.assetAllocation[assetClass]}
+                        onChange={(e) =>
+                          handleAssetAllocationChange(
+                            assetClass,
+                            Number(e.target.value)
+                          )
+                        }
+                        className="w-full h-2 bg-background rounded-lg appearance-none cursor-pointer accent-primary"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {/* Glide Path */}
+                <div className="flex items-center justify-between mt-4">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="glide-path"
+                      checked={glidePath.enabled}
+                      onChange={(e) =>
+                        handleGlidePathChange("enabled", e.target.checked)
+                      }
+                      className="w-4 h-4 mr-2 accent-primary"
+                    />
+                    <label htmlFor="glide-path" className="text-sm">
+                      Glide path toward a more conservative mix
+                    </label>
+                  </div>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.glidePath)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+
+                {glidePath.enabled && (
+                  <div className="space-y-3 mt-3">
+                    <select
+                      value={glidePath.curve}
+                      onChange={(e) =>
+                        handleGlidePathChange(
+                          "curve",
+                          e.target.value as GlidePathCurve
+                        )
+                      }
+                      className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                    >
+                      <option value="linear">
+                        Linear (a little every year)
+                      </option>
+                      <option value="step">Step (every few years)</option>
+                      <option value="custom">Custom per-year table</option>
+                    </select>
+
+                    {glidePath.curve === "step" && (
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={glidePath.stepYears}
+                          onChange={(e) =>
+                            handleGlidePathChange("stepYears", e.target.value)
+                          }
+                          onBlur={(e) => {
+                            if (e.target.value === "") {
+                              handleGlidePathChange(
+                                "stepYears",
+                                DEFAULT_STEP_YEARS
+                              );
+                            }
+                          }}
+                          className="w-full pl-3 pr-32 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                          min="1"
+                        />
+                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                          Years per step
+                        </span>
+                      </div>
+                    )}
+
+                    {glidePath.curve === "custom" ? (
+                      <div>
+                        <textarea
+                          value={glidePathTable}
+                          onChange={(e) =>
+                            handleGlidePathTableChange(e.target.value)
+                          }
+                          rows={5}
+                          placeholder={"90/10/0\n85/15/0\n80/15/5"}
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          One stocks/bonds/cash row per year, starting with year
+                          0. {glidePath.customAllocations?.length ?? 0} years
+                          entered; the last row is held after that.
+                        </p>
+                      </div>
+                    ) : (
+                      [
+                        {
+                          field: "endAllocation" as const,
+                          title: "Mix at end of investment horizon",
+                        },
+                        ...(inputs.retirementPhase.enabled
+                          ? [
+                              {
+                                field: "retirementEndAllocation" as const,
+                                title: "Mix at end of retirement",
+                              },
+                            ]
+                          : []),
+                      ].map(({ field, title }) => (
+                        <div key={field} className="space-y-2">
+                          <p className="text-xs font-medium">{title}</p>
+                          {ASSET_CLASSES.map((assetClass) => (
+                            <div key={assetClass}>
+                              <div className="flex justify-between text-xs mb-1">
+                                <span>{assetClassLabels[assetClass]}</span>
+                                <span>
+                                  {
+                                    (glidePath[field] ??
+                                      glidePath.endAllocation)[assetClass]
+                                  }
+                                  %
+                                </span>
+                              </div>
+                              <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={
+                                  (glidePath[field] ?? glidePath.endAllocation)[
+                                    assetClass
+                                  ]
+                                }
+                                onChange={(e) =>
+                                  handleGlidePathAllocationChange(
+                                    field,
+                                    assetClass,
+                                    Number(e.target.value)
+                                  )
+                                }
+                                className="w-full h-2 bg-background rounded-lg appearance-none cursor-pointer accent-primary"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+
+                {allocationDrivesReturns && (
+                  <>
+                    <p className="text-xs text-muted-foreground mt-3">
+                      {glidePath.enabled ? "Starting portfolio" : "Portfolio"}:{" "}
+                      {portfolio.expectedReturn.toFixed(1)}% expected return,{" "}
+                      {portfolio.volatility.toFixed(1)}% volatility
+                    </p>
+
+                    <div className="flex justify-between mt-4">
+                      <span className="text-sm font-medium">
+                        Asset Class Assumptions
+                      </span>
                       <div
                         className="tooltip"
                         onMouseEnter={(e) =>
-                          handleTooltipMouseEnter(e, tooltips.returnVolatility)
+                          handleTooltipMouseEnter(
+                            e,
+                            tooltips.capitalMarketAssumptions
+                          )
                         }
                         onMouseLeave={handleTooltipMouseLeave}
                       >
@@ -718,27 +2706,396 @@ export default function Calculator() {
                         </svg>
                       </div>
                     </div>
-                    <div className="relative">
-                      <input
-                        type="number"
-                        value={inputs.returnVolatility}
-                        onChange={(e) =>
-                          handleInputChange("returnVolatility", e.target.value)
-                        }
-                        onBlur={(e) => {
-                          if (e.target.value === "") {
-                            handleInputChange("returnVolatility", 0);
-                          }
-                        }}
-                        className="w-full pl-3 pr-9 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
-                        min="0"
-                        step="0.1"
-                      />
-                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        %
+                    <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+                      <span></span>
+                      <span className="text-muted-foreground">Return %</span>
+                      <span className="text-muted-foreground">
+                        Volatility %
                       </span>
-                    </div>
-                  </div>
+                      {ASSET_CLASSES.map((assetClass) => (
+                        <Fragment key={assetClass}>
+                          <span className="self-center">
+                            {assetClassLabels[assetClass]}
+                          </span>
+                          {(["expectedReturn", "volatility"] as const).map(
+                            (subfield) => (
+                              <input
+                                key={subfield}
+                                type="number"
+                                value={
+                                  capitalMarketAssumptions.assetClasses[
+                                    assetClass
+                                  ][subfield]
+                                }
+                                onChange={(e) =>
+                                  handleAssetClassAssumptionChange(
+                                    assetClass,
+                                    subfield,
+                                    e.target.value
+                                  )
+                                }
+                                onBlur={(e) => {
+                                  if (e.target.value === "") {
+                                    handleAssetClassAssumptionChange(
+                                      assetClass,
+                                      subfield,
+                                      0
+                                    );
+                                  }
+                                }}
+                                className="w-full px-2 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                                min="0"
+                                step="0.1"
+                              />
+                            )
+                          )}
+                        </Fragment>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+                      {correlationPairs.map(({ pair, label }) => (
+                        <div key={pair}>
+                          <span className="text-muted-foreground">{label}</span>
+                          <input
+                            type="number"
+                            value={capitalMarketAssumptions.correlations[pair]}
+                            onChange={(e) =>
+                              handleCorrelationChange(pair, e.target.value)
+                            }
+                            onBlur={(e) => {
+                              if (e.target.value === "") {
+                                handleCorrelationChange(pair, 0);
+                              }
+                            }}
+                            className="w-full mt-1 px-2 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                            min="-1"
+                            max="1"
+                            step="0.05"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Cash-Flow Events */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Cash-Flow Events
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.cashFlowEvents)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {(inputs.cashFlowEvents ?? []).map((event, index) => (
+                    <div
+                      key={index}
+                      className="p-2 border border-border rounded-md space-y-2"
+                    >
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={event.name}
+                          onChange={(e) =>
+                            handleCashFlowEventChange(
+                              index,
+                              "name",
+                              e.target.value
+                            )
+                          }
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                        />
+                        <button
+                          onClick={() => removeCashFlowEvent(index)}
+                          className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {cashFlowEventFields.map(({ field, label, min }) => (
+                          <div key={field}>
+                            <label className="block text-xs text-muted-foreground mb-1">
+                              {label}
+                            </label>
+                            <input
+                              type="number"
+                              value={event[field]}
+                              onChange={(e) =>
+                                handleCashFlowEventChange(
+                                  index,
+                                  field,
+                                  e.target.value
+                                )
+                              }
+                              className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                              min={min}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <select
+                        value={event.account ?? ""}
+                        onChange={(e) =>
+                          handleCashFlowEventChange(
+                            index,
+                            "account",
+                            e.target.value === "" ? undefined : e.target.value
+                          )
+                        }
+                        className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                      >
+                        <option value="">
+                          Split by allocation / follow withdrawal order
+                        </option>
+                        {accountLabels.map(({ account, label }) => (
+                          <option key={account} value={account}>
+                            {label} account
+                          </option>
+                        ))}
+                      </select>
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id={`cash-flow-indexed-${index}`}
+                          checked={event.inflationIndexed}
+                          onChange={(e) =>
+                            handleCashFlowEventChange(
+                              index,
+                              "inflationIndexed",
+                              e.target.checked
+                            )
+                          }
+                          className="w-4 h-4 mr-2 accent-primary"
+                        />
+                        <label
+                          htmlFor={`cash-flow-indexed-${index}`}
+                          className="text-xs"
+                        >
+                          Amount in today&apos;s dollars (grows with inflation)
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    onClick={addCashFlowEvent}
+                    className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                  >
+                    + Add event
+                  </button>
+                </div>
+                {(inputs.cashFlowEvents ?? []).length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Years count from today (year 0) through retirement. Use a
+                    negative amount for money you take out.
+                  </p>
+                )}
+              </div>
+
+              {/* Show/Hide Advanced Parameters */}
+              <div className="pt-2">
+                <button
+                  onClick={() => setShowAdvanced(!showAdvanced)}
+                  className="text-sm text-accent-foreground flex items-center hover:underline transition-colors"
+                >
+                  {showAdvanced ? "Hide" : "Show"} Advanced Parameters
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className={`ml-1 w-4 h-4 transition-transform duration-200 ${
+                      showAdvanced ? "transform rotate-180" : ""
+                    }`}
+                  >
+                    <path d="m6 9 6 6 6-6" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Advanced Parameters */}
+              {showAdvanced && (
+                <div className="space-y-6 animate-[slideUpFade_0.3s_ease-in-out]">
+                  {/* Return Volatility */}
+                  <div className="group">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium mb-2 transition-colors">
+                        Return Volatility
+                      </label>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.returnVolatility)
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        value={inputs.returnVolatility}
+                        onChange={(e) =>
+                          handleInputChange("returnVolatility", e.target.value)
+                        }
+                        onBlur={(e) => {
+                          if (e.target.value === "") {
+                            handleInputChange("returnVolatility", 0);
+                          }
+                        }}
+                        disabled={allocationDrivesReturns}
+                        className="w-full pl-3 pr-9 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200 disabled:opacity-50"
+                        min="0"
+                        step="0.1"
+                      />
+                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                        %
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Return Distribution */}
+                  <div className="group">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium mb-2 transition-colors">
+                        Return Distribution
+                      </label>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.returnModel)
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+                    <select
+                      value={inputs.returnModel?.distribution ?? "normal"}
+                      onChange={(e) =>
+                        handleReturnModelChange(
+                          "distribution",
+                          e.target.value as ReturnDistribution
+                        )
+                      }
+                      className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                    >
+                      <option value="normal">Normal</option>
+                      <option value="lognormal">Lognormal</option>
+                      <option value="student-t">Student-t (fat tails)</option>
+                    </select>
+                    {inputs.returnModel?.distribution === "student-t" && (
+                      <div className="mt-3">
+                        <div className="flex justify-between">
+                          <label className="block text-xs font-medium mb-1">
+                            Degrees of Freedom
+                          </label>
+                          <div
+                            className="tooltip"
+                            onMouseEnter={(e) =>
+                              handleTooltipMouseEnter(
+                                e,
+                                tooltips.degreesOfFreedom
+                              )
+                            }
+                            onMouseLeave={handleTooltipMouseLeave}
+                          >
+                            <svg
+                              xmlns="http://www.w3.org/2000/svg"
+                              viewBox="0 0 24 24"
+                              fill="none"
+                              stroke="currentColor"
+                              strokeWidth="2"
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              className="w-3 h-3 text-muted-foreground"
+                            >
+                              <circle cx="12" cy="12" r="10"></circle>
+                              <path d="M12 16v-4M12 8h.01"></path>
+                            </svg>
+                          </div>
+                        </div>
+                        <input
+                          type="number"
+                          value={inputs.returnModel.degreesOfFreedom ?? 5}
+                          onChange={(e) =>
+                            handleReturnModelChange(
+                              "degreesOfFreedom",
+                              e.target.value
+                            )
+                          }
+                          onBlur={(e) => {
+                            if (
+                              e.target.value === "" ||
+                              Number(e.target.value) <= 2
+                            ) {
+                              handleReturnModelChange("degreesOfFreedom", 3);
+                            } else {
+                              handleReturnModelChange(
+                                "degreesOfFreedom",
+                                Number(e.target.value)
+                              );
+                            }
+                          }}
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          min="3"
+                          step="1"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Must be above 2; lower values mean fatter tails
+                        </p>
+                      </div>
+                    )}
+                  </div>
 
                   {/* Inflation Rate */}
                   <div className="group">
@@ -924,41 +3281,212 @@ export default function Calculator() {
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
 
-              {/* Account Type */}
-              <div className="group">
-                <div className="flex justify-between">
-                  <label className="block text-sm font-medium mb-2 transition-colors">
-                    Account Type
-                  </label>
-                  <div
-                    className="tooltip"
-                    onMouseEnter={(e) =>
-                      handleTooltipMouseEnter(e, tooltips.accountType)
-                    }
-                    onMouseLeave={handleTooltipMouseLeave}
-                  >
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="w-4 h-4 text-muted-foreground"
-                    >
-                      <circle cx="12" cy="12" r="10"></circle>
-                      <path d="M12 16v-4M12 8h.01"></path>
-                    </svg>
-                  </div>
-                </div>
-                <select
-                  value={inputs.accountType}
-                  onChange={(e) =>
-                    handleAccountTypeChange(
+                  {/* Dividend Yield (only for taxable accounts) */}
+                  {(inputs.accountType === "taxable" ||
+                    (inputs.accountType === "mixed" &&
+                      inputs.accountAllocation.taxable > 0)) && (
+                    <div className="group">
+                      <div className="flex justify-between">
+                        <label className="block text-sm font-medium mb-2 transition-colors">
+                          Dividend Yield
+                        </label>
+                        <div
+                          className="tooltip"
+                          onMouseEnter={(e) =>
+                            handleTooltipMouseEnter(e, tooltips.dividendYield)
+                          }
+                          onMouseLeave={handleTooltipMouseLeave}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="w-4 h-4 text-muted-foreground"
+                          >
+                            <circle cx="12" cy="12" r="10"></circle>
+                            <path d="M12 16v-4M12 8h.01"></path>
+                          </svg>
+                        </div>
+                      </div>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={inputs.dividendYield ?? DEFAULT_DIVIDEND_YIELD}
+                          onChange={(e) =>
+                            handleInputChange("dividendYield", e.target.value)
+                          }
+                          onBlur={(e) => {
+                            if (e.target.value === "") {
+                              handleInputChange("dividendYield", 0);
+                            }
+                          }}
+                          className="w-full pl-3 pr-9 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                          min="0"
+                          step="0.1"
+                        />
+                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                          %
+                        </span>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Historical Backtest */}
+                  <div className="group">
+                    <div className="flex justify-between">
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="historical-backtest"
+                          checked={inputs.historicalBacktest ?? false}
+                          onChange={(e) =>
+                            handleInputChange(
+                              "historicalBacktest",
+                              e.target.checked
+                            )
+                          }
+                          className="w-4 h-4 mr-2 accent-primary"
+                        />
+                        <label
+                          htmlFor="historical-backtest"
+                          className="text-sm font-medium"
+                        >
+                          Historical Backtest
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(
+                            e,
+                            tooltips.historicalBacktest
+                          )
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Test the plan against actual market returns since 1928
+                    </p>
+                  </div>
+
+                  {/* Random Seed */}
+                  <div className="group">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium mb-2 transition-colors">
+                        Random Seed
+                      </label>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.seed)
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        value={inputs.seed ?? ""}
+                        onChange={(e) =>
+                          handleInputChange("seed", e.target.value)
+                        }
+                        placeholder="Random"
+                        className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                        min="0"
+                        step="1"
+                      />
+                      {results && (
+                        <button
+                          onClick={() =>
+                            setInputs((prev) => ({
+                              ...prev,
+                              seed: results.seed,
+                              currentYear: results.currentYear,
+                            }))
+                          }
+                          className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                        >
+                          Use last seed
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Leave blank for a new random scenario on each calculation
+                      {inputs.currentYear !== undefined &&
+                        (inputs.seed as number | string | undefined) !== "" &&
+                        inputs.seed !== undefined &&
+                        `; the plan starts in ${inputs.currentYear}, the year of the run the seed came from`}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Account Type */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Account Type
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.accountType)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+                <select
+                  value={inputs.accountType}
+                  onChange={(e) =>
+                    handleAccountTypeChange(
                       e.target.value as
                         | "mixed"
                         | "taxable"
@@ -975,7 +3503,9 @@ export default function Calculator() {
                     Tax-Free (Roth 401k, Roth IRA)
                   </option>
                   <option value="taxable">Taxable Account</option>
-                  <option value="mixed">Mixed (Tax-Deferred & Tax-Free)</option>
+                  <option value="mixed">
+                    Mixed (Tax-Deferred, Tax-Free & Taxable)
+                  </option>
                 </select>
               </div>
 
@@ -1009,30 +3539,28 @@ export default function Calculator() {
                     </div>
                   </div>
                   <div className="space-y-3">
-                    <div>
-                      <div className="flex justify-between text-xs mb-1">
-                        <span>
-                          Tax-Deferred: {inputs.accountAllocation.taxDeferred}%
-                        </span>
-                        <span>
-                          Tax-Free: {inputs.accountAllocation.taxFree}%
-                        </span>
+                    {accountLabels.map(({ account, label }) => (
+                      <div key={account}>
+                        <div className="flex justify-between text-xs mb-1">
+                          <span>{label}</span>
+                          <span>{inputs.accountAllocation[account]}%</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={inputs.accountAllocation[account]}
+                          onChange={(e) =>
+                            handleAccountAllocationChange(
+                              account,
+                              Number(e.target.value)
+                            )
+                          }
+                          className="w-full h-2 bg-background rounded-lg appearance-none cursor-pointer accent-primary"
+                        />
                       </div>
-                      <input
-                        type="range"
-                        min="0"
-                        max="100"
-                        value={inputs.accountAllocation.taxDeferred}
-                        onChange={(e) =>
-                          handleAccountAllocationChange(
-                            "taxDeferred",
-                            Number(e.target.value)
-                          )
-                        }
-                        className="w-full h-2 bg-background rounded-lg appearance-none cursor-pointer accent-primary"
-                      />
-                    </div>
-                    <div className="grid grid-cols-2 gap-4 text-xs">
+                    ))}
+                    <div className="grid grid-cols-3 gap-4 text-xs">
                       <div className="glass-card p-2 rounded">
                         <p className="text-center font-medium">Tax-Deferred</p>
                         <p className="text-center text-muted-foreground mt-1">
@@ -1045,21 +3573,27 @@ export default function Calculator() {
                           No taxes on growth
                         </p>
                       </div>
+                      <div className="glass-card p-2 rounded">
+                        <p className="text-center font-medium">Taxable</p>
+                        <p className="text-center text-muted-foreground mt-1">
+                          Taxes on dividends and gains
+                        </p>
+                      </div>
                     </div>
                   </div>
                 </div>
               )}
 
-              {/* Retirement Phase Planning */}
+              {/* Tax Settings */}
               <div className="group">
                 <div className="flex justify-between">
                   <label className="block text-sm font-medium mb-2 transition-colors">
-                    Retirement Planning
+                    Tax Settings
                   </label>
                   <div
                     className="tooltip"
                     onMouseEnter={(e) =>
-                      handleTooltipMouseEnter(e, tooltips.retirementPlanning)
+                      handleTooltipMouseEnter(e, tooltips.taxSettings)
                     }
                     onMouseLeave={handleTooltipMouseLeave}
                   >
@@ -1078,196 +3612,1437 @@ export default function Calculator() {
                     </svg>
                   </div>
                 </div>
+                <div
+                  className={`grid gap-2 text-xs ${
+                    inputs.retirementPhase.enabled
+                      ? "grid-cols-3"
+                      : "grid-cols-2"
+                  }`}
+                >
+                  <span></span>
+                  <span className="text-muted-foreground">Working Years</span>
+                  {inputs.retirementPhase.enabled && (
+                    <span className="text-muted-foreground">Retirement</span>
+                  )}
+                  {taxRateLabels.map(({ field, label, tooltip }) => (
+                    <Fragment key={field}>
+                      <div className="flex items-center justify-between pr-2">
+                        <span>{label}</span>
+                        <div
+                          className="tooltip"
+                          onMouseEnter={(e) =>
+                            handleTooltipMouseEnter(e, tooltip)
+                          }
+                          onMouseLeave={handleTooltipMouseLeave}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="w-4 h-4 text-muted-foreground"
+                          >
+                            <circle cx="12" cy="12" r="10"></circle>
+                            <path d="M12 16v-4M12 8h.01"></path>
+                          </svg>
+                        </div>
+                      </div>
+                      {(inputs.retirementPhase.enabled
+                        ? (["taxRate", "retirementTaxRate"] as const)
+                        : (["taxRate"] as const)
+                      ).map((phase) => (
+                        <div key={phase}>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              value={(inputs[phase] ?? inputs.taxRate)[field]}
+                              onChange={(e) =>
+                                handleTaxRateChange(
+                                  phase,
+                                  field,
+                                  e.target.value
+                                )
+                              }
+                              className={`w-full pl-2 pr-7 py-2 bg-background/50 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200 disabled:opacity-50 ${
+                                taxRateErrors[phase][field]
+                                  ? "border-destructive"
+                                  : "border-border"
+                              }`}
+                              min="0"
+                              max={MAX_TAX_RATE}
+                              step="0.5"
+                              disabled={
+                                phase === "retirementTaxRate" &&
+                                bracketedTaxFields.includes(field)
+                              }
+                            />
+                            <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                              %
+                            </span>
+                          </div>
+                          {taxRateErrors[phase][field] && (
+                            <p className="text-destructive mt-1">
+                              {taxRateErrors[phase][field]}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </Fragment>
+                  ))}
+                </div>
 
-                <div className="flex items-center mb-4">
-                  <input
-                    type="checkbox"
-                    id="enable-retirement"
-                    checked={inputs.retirementPhase.enabled}
-                    onChange={(e) =>
-                      setInputs((prev) => ({
-                        ...prev,
-                        retirementPhase: {
-                          ...prev.retirementPhase,
-                          enabled: e.target.checked,
-                        },
-                      }))
+                <div className="flex justify-between mt-4">
+                  <span className="text-sm font-medium">State Income Tax</span>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.stateTax)
                     }
-                    className="w-4 h-4 mr-2 accent-primary"
-                  />
-                  <label htmlFor="enable-retirement" className="text-sm">
-                    Enable retirement withdrawal phase
-                  </label>
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
                 </div>
+                <select
+                  value={inputs.state ?? ""}
+                  onChange={(e) => handleInputChange("state", e.target.value)}
+                  className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200 mt-2"
+                >
+                  <option value="">None</option>
+                  {STATE_TAX_TABLES.map((table) => (
+                    <option key={table.code} value={table.code}>
+                      {table.name} ({stateTaxDescription(table)})
+                    </option>
+                  ))}
+                </select>
+                {stateTable?.exemptsRetirementIncome && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {stateTable.name} doesn&apos;t tax 401(k) and IRA
+                    withdrawals; dividends and gains are still taxed.
+                  </p>
+                )}
 
                 {inputs.retirementPhase.enabled && (
-                  <div className="space-y-4 pl-4 border-l-2 border-primary/20 animate-[slideUpFade_0.3s_ease-in-out]">
-                    {/* Annual Withdrawal Amount */}
-                    <div>
-                      <label className="block text-xs font-medium mb-1">
-                        Annual Withdrawal
-                      </label>
-                      <div className="relative">
-                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                          $
-                        </span>
+                  <>
+                    <div className="flex items-center justify-between mt-4">
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="federal-tax-brackets"
+                          checked={federalTax.enabled}
+                          onChange={(e) =>
+                            handleFederalTaxChange("enabled", e.target.checked)
+                          }
+                          className="w-4 h-4 mr-2 accent-primary"
+                        />
+                        <label
+                          htmlFor="federal-tax-brackets"
+                          className="text-sm"
+                        >
+                          Use federal tax brackets for retirement withdrawals
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.federalTax)
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+
+                    {federalTax.enabled && (
+                      <div className="mt-3">
+                        <select
+                          value={federalTaxTable(federalTax.taxYear).taxYear}
+                          onChange={(e) =>
+                            handleFederalTaxChange(
+                              "taxYear",
+                              Number(e.target.value)
+                            )
+                          }
+                          className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                        >
+                          {FEDERAL_TAX_TABLES.map((table) => (
+                            <option key={table.taxYear} value={table.taxYear}>
+                              {table.taxYear} brackets
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Qualified dividends are taxed at the capital gains
+                          rates on top of other income. Bracket thresholds and
+                          the standard deduction grow with inflation.
+                        </p>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {/* Filing status sets the federal and state brackets */}
+                {(stateTable?.kind === "bracketed" ||
+                  (inputs.retirementPhase.enabled &&
+                    (federalTax.enabled ||
+                      withdrawalOrder.type === "bracket-fill" ||
+                      (rothConversion.enabled &&
+                        rothConversion.strategy === "fill-bracket")))) && (
+                  <select
+                    value={federalTax.filingStatus}
+                    onChange={(e) =>
+                      handleFederalTaxChange(
+                        "filingStatus",
+                        e.target.value as FilingStatus
+                      )
+                    }
+                    className="w-full px-3 py-3 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200 mt-3"
+                  >
+                    {(Object.keys(filingStatusLabels) as FilingStatus[]).map(
+                      (status) => (
+                        <option key={status} value={status}>
+                          {filingStatusLabels[status]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                )}
+              </div>
+
+              {/* Retirement Phase Planning */}
+              <div className="group">
+                <div className="flex justify-between">
+                  <label className="block text-sm font-medium mb-2 transition-colors">
+                    Retirement Planning
+                  </label>
+                  <div
+                    className="tooltip"
+                    onMouseEnter={(e) =>
+                      handleTooltipMouseEnter(e, tooltips.retirementPlanning)
+                    }
+                    onMouseLeave={handleTooltipMouseLeave}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="w-4 h-4 text-muted-foreground"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <path d="M12 16v-4M12 8h.01"></path>
+                    </svg>
+                  </div>
+                </div>
+
+                <div className="flex items-center mb-4">
+                  <input
+                    type="checkbox"
+                    id="enable-retirement"
+                    checked={inputs.retirementPhase.enabled}
+                    onChange={(e) =>
+                      setInputs((prev) => ({
+                        ...prev,
+                        retirementPhase: {
+                          ...prev.retirementPhase,
+                          enabled: e.target.checked,
+                        },
+                      }))
+                    }
+                    className="w-4 h-4 mr-2 accent-primary"
+                  />
+                  <label htmlFor="enable-retirement" className="text-sm">
+                    Enable retirement withdrawal phase
+                  </label>
+                </div>
+
+                {inputs.retirementPhase.enabled && (
+                  <div className="space-y-4 pl-4 border-l-2 border-primary/20 animate-[slideUpFade_0.3s_ease-in-out]">
+                    {/* Annual Withdrawal Amount */}
+                    <div>
+                      <label className="block text-xs font-medium mb-1">
+                        {inputs.retirementPhase.grossUpWithdrawals
+                          ? "Annual Spending (after tax)"
+                          : "Annual Withdrawal"}
+                      </label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                          $
+                        </span>
+                        <input
+                          type="number"
+                          value={
+                            typeof inputs.retirementPhase.annualWithdrawal ===
+                              "string" &&
+                            inputs.retirementPhase.annualWithdrawal === ""
+                              ? ""
+                              : inputs.retirementPhase.annualWithdrawal
+                          }
+                          onChange={(e) =>
+                            handleRetirementInputChange(
+                              "annualWithdrawal",
+                              e.target.value
+                            )
+                          }
+                          onBlur={(e) => {
+                            if (e.target.value === "") {
+                              handleRetirementInputChange(
+                                "annualWithdrawal",
+                                0
+                              );
+                            } else {
+                              handleRetirementInputChange(
+                                "annualWithdrawal",
+                                Number(e.target.value)
+                              );
+                            }
+                          }}
+                          className="w-full pl-7 pr-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm disabled:opacity-50"
+                          min="0"
+                          disabled={!usesAnnualWithdrawal}
+                        />
+                      </div>
+                      {!usesAnnualWithdrawal && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Set by the withdrawal strategy below
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Retirement Years */}
+                    <div>
+                      <label className="block text-xs font-medium mb-1">
+                        Retirement Years
+                      </label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={
+                            typeof inputs.retirementPhase.retirementYears ===
+                              "string" &&
+                            inputs.retirementPhase.retirementYears === ""
+                              ? ""
+                              : inputs.retirementPhase.retirementYears
+                          }
+                          onChange={(e) =>
+                            handleRetirementInputChange(
+                              "retirementYears",
+                              e.target.value
+                            )
+                          }
+                          onBlur={(e) => {
+                            if (e.target.value === "") {
+                              handleRetirementInputChange("retirementYears", 1);
+                            } else {
+                              handleRetirementInputChange(
+                                "retirementYears",
+                                Number(e.target.value)
+                              );
+                            }
+                          }}
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          min="1"
+                          max="50"
+                        />
+                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-xs">
+                          years
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Return in Retirement */}
+                    <div>
+                      <label className="block text-xs font-medium mb-1">
+                        Expected Return in Retirement
+                      </label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={
+                            typeof inputs.retirementPhase.retirementReturn ===
+                              "string" &&
+                            inputs.retirementPhase.retirementReturn === ""
+                              ? ""
+                              : inputs.retirementPhase.retirementReturn
+                          }
+                          onChange={(e) =>
+                            handleRetirementInputChange(
+                              "retirementReturn",
+                              e.target.value
+                            )
+                          }
+                          onBlur={(e) => {
+                            if (e.target.value === "") {
+                              handleRetirementInputChange(
+                                "retirementReturn",
+                                0
+                              );
+                            } else {
+                              handleRetirementInputChange(
+                                "retirementReturn",
+                                Number(e.target.value)
+                              );
+                            }
+                          }}
+                          className="w-full pl-3 pr-9 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          min="0"
+                          step="0.1"
+                        />
+                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-xs">
+                          %
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Typically lower than accumulation phase (more
+                        conservative)
+                      </p>
+                    </div>
+
+                    {/* Withdrawal Strategy */}
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <label className="block text-xs font-medium">
+                          Withdrawal Strategy
+                        </label>
+                        <div
+                          className="tooltip"
+                          onMouseEnter={(e) =>
+                            handleTooltipMouseEnter(
+                              e,
+                              tooltips.withdrawalStrategy
+                            )
+                          }
+                          onMouseLeave={handleTooltipMouseLeave}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="w-4 h-4 text-muted-foreground"
+                          >
+                            <circle cx="12" cy="12" r="10"></circle>
+                            <path d="M12 16v-4M12 8h.01"></path>
+                          </svg>
+                        </div>
+                      </div>
+                      <select
+                        value={withdrawalStrategy.type}
+                        onChange={(e) =>
+                          handleWithdrawalStrategyChange("type", e.target.value)
+                        }
+                        className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                      >
+                        {WITHDRAWAL_STRATEGY_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {withdrawalStrategyLabels[type]}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {
+                          withdrawalStrategyDescriptions[
+                            withdrawalStrategy.type
+                          ]
+                        }
+                      </p>
+
+                      {withdrawalStrategyFields[withdrawalStrategy.type]
+                        .length > 0 && (
+                        <div className="grid grid-cols-3 gap-2 mt-2">
+                          {withdrawalStrategyFields[
+                            withdrawalStrategy.type
+                          ].map(({ field, label }) => (
+                            <div key={field}>
+                              <label className="block text-xs text-muted-foreground mb-1">
+                                {label}
+                              </label>
+                              <div className="relative">
+                                <input
+                                  type="number"
+                                  value={withdrawalStrategy[field]}
+                                  onChange={(e) =>
+                                    handleWithdrawalStrategyChange(
+                                      field,
+                                      e.target.value
+                                    )
+                                  }
+                                  className="w-full pl-3 pr-7 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                  step="0.1"
+                                />
+                                <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-xs">
+                                  %
+                                </span>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Adjust for Inflation */}
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="inflation-adjust"
+                        checked={
+                          inputs.retirementPhase.withdrawalAdjustForInflation
+                        }
+                        onChange={(e) =>
+                          setInputs((prev) => ({
+                            ...prev,
+                            retirementPhase: {
+                              ...prev.retirementPhase,
+                              withdrawalAdjustForInflation: e.target.checked,
+                            },
+                          }))
+                        }
+                        className="w-4 h-4 mr-2 accent-primary disabled:opacity-50"
+                        disabled={withdrawalStrategy.type !== "fixed"}
+                      />
+                      <label htmlFor="inflation-adjust" className="text-xs">
+                        Adjust withdrawals for inflation
+                      </label>
+                    </div>
+
+                    {/* Gross Up for Taxes */}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="gross-up"
+                          checked={!!inputs.retirementPhase.grossUpWithdrawals}
+                          onChange={(e) =>
+                            setInputs((prev) => ({
+                              ...prev,
+                              retirementPhase: {
+                                ...prev.retirementPhase,
+                                grossUpWithdrawals: e.target.checked,
+                              },
+                            }))
+                          }
+                          className="w-4 h-4 mr-2 accent-primary"
+                        />
+                        <label htmlFor="gross-up" className="text-xs">
+                          Withdraw extra to cover taxes (spend the full amount
+                          after tax)
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(
+                            e,
+                            tooltips.grossUpWithdrawals
+                          )
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
+                    </div>
+
+                    {/* Withdrawal Order */}
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <label className="block text-xs font-medium">
+                          Withdrawal Order
+                        </label>
+                        <div
+                          className="tooltip"
+                          onMouseEnter={(e) =>
+                            handleTooltipMouseEnter(e, tooltips.withdrawalOrder)
+                          }
+                          onMouseLeave={handleTooltipMouseLeave}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="w-4 h-4 text-muted-foreground"
+                          >
+                            <circle cx="12" cy="12" r="10"></circle>
+                            <path d="M12 16v-4M12 8h.01"></path>
+                          </svg>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <select
+                          value={withdrawalOrder.type}
+                          onChange={(e) =>
+                            handleWithdrawalOrderChange("type", e.target.value)
+                          }
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                        >
+                          <option value="sequence">
+                            One account at a time
+                          </option>
+                          <option value="proportional">
+                            Proportional to balances
+                          </option>
+                          <option value="bracket-fill">
+                            Fill a bracket from tax-deferred first
+                          </option>
+                        </select>
+
+                        {withdrawalOrder.type === "bracket-fill" && (
+                          <select
+                            value={withdrawalOrder.targetBracketRate}
+                            onChange={(e) =>
+                              handleWithdrawalOrderChange(
+                                "targetBracketRate",
+                                Number(e.target.value)
+                              )
+                            }
+                            className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          >
+                            {fillableBracketRates.map((rate) => (
+                              <option key={rate} value={rate}>
+                                Tax-deferred up to the {rate}% bracket
+                              </option>
+                            ))}
+                          </select>
+                        )}
+
+                        {withdrawalOrder.type !== "proportional" && (
+                          <select
+                            value={withdrawalOrder.sequence.join(",")}
+                            onChange={(e) =>
+                              handleWithdrawalOrderChange(
+                                "sequence",
+                                e.target.value.split(",") as AccountBucket[]
+                              )
+                            }
+                            className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          >
+                            {WITHDRAWAL_SEQUENCES.map((sequence) => (
+                              <option
+                                key={sequence.join(",")}
+                                value={sequence.join(",")}
+                              >
+                                {withdrawalSequenceLabel(sequence)}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      {withdrawalOrder.type === "bracket-fill" && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          The rest of each withdrawal follows the order above.
+                          Uses the federal bracket table and filing status from
+                          Tax Settings, indexed to inflation.
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Income Streams */}
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <label className="block text-xs font-medium">
+                          Income Streams
+                        </label>
+                        <div
+                          className="tooltip"
+                          onMouseEnter={(e) =>
+                            handleTooltipMouseEnter(e, tooltips.incomeStreams)
+                          }
+                          onMouseLeave={handleTooltipMouseLeave}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="w-4 h-4 text-muted-foreground"
+                          >
+                            <circle cx="12" cy="12" r="10"></circle>
+                            <path d="M12 16v-4M12 8h.01"></path>
+                          </svg>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        {incomeStreams.map((stream, index) => (
+                          <div
+                            key={index}
+                            className="p-2 border border-border rounded-md space-y-2"
+                          >
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="text"
+                                value={stream.name}
+                                onChange={(e) =>
+                                  handleIncomeStreamChange(
+                                    index,
+                                    "name",
+                                    e.target.value
+                                  )
+                                }
+                                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                              />
+                              <button
+                                onClick={() => removeIncomeStream(index)}
+                                className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              <div>
+                                <label className="block text-xs text-muted-foreground mb-1">
+                                  {stream.type === "social-security"
+                                    ? "Benefit at full age ($/yr)"
+                                    : "Annual amount ($)"}
+                                </label>
+                                <input
+                                  type="number"
+                                  value={stream.annualAmount}
+                                  onChange={(e) =>
+                                    handleIncomeStreamChange(
+                                      index,
+                                      "annualAmount",
+                                      e.target.value
+                                    )
+                                  }
+                                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                  step="1000"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-xs text-muted-foreground mb-1">
+                                  Annual increase (%)
+                                </label>
+                                <input
+                                  type="number"
+                                  value={stream.cola}
+                                  onChange={(e) =>
+                                    handleIncomeStreamChange(
+                                      index,
+                                      "cola",
+                                      e.target.value
+                                    )
+                                  }
+                                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                  step="0.1"
+                                />
+                              </div>
+                              {stream.type === "social-security" &&
+                              inputs.currentAge !== undefined ? (
+                                <div>
+                                  <label className="block text-xs text-muted-foreground mb-1">
+                                    Claiming age
+                                  </label>
+                                  <input
+                                    type="number"
+                                    value={stream.claimingAge ?? ""}
+                                    onChange={(e) =>
+                                      handleIncomeStreamChange(
+                                        index,
+                                        "claimingAge",
+                                        e.target.value
+                                      )
+                                    }
+                                    className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                    min={MIN_CLAIMING_AGE}
+                                    max={MAX_CLAIMING_AGE}
+                                  />
+                                </div>
+                              ) : (
+                                <div>
+                                  <label className="block text-xs text-muted-foreground mb-1">
+                                    From year
+                                  </label>
+                                  <input
+                                    type="number"
+                                    value={stream.startYear}
+                                    onChange={(e) =>
+                                      handleIncomeStreamChange(
+                                        index,
+                                        "startYear",
+                                        e.target.value
+                                      )
+                                    }
+                                    className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                    min="0"
+                                  />
+                                </div>
+                              )}
+                              <div>
+                                <label className="block text-xs text-muted-foreground mb-1">
+                                  Through year
+                                </label>
+                                <input
+                                  type="number"
+                                  value={stream.endYear ?? ""}
+                                  onChange={(e) =>
+                                    handleIncomeStreamChange(
+                                      index,
+                                      "endYear",
+                                      e.target.value
+                                    )
+                                  }
+                                  placeholder="For life"
+                                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                />
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                        <div className="flex flex-wrap gap-2">
+                          {INCOME_STREAM_TYPES.map((type) => (
+                            <button
+                              key={type}
+                              onClick={() => addIncomeStream(type)}
+                              className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                            >
+                              + {incomeStreamLabels[type]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {incomeStreams.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Years count from the start of retirement (year 0).
+                          {usesAnnualWithdrawal
+                            ? " Streams cover part of the annual withdrawal."
+                            : " This strategy's withdrawals are added on top of the streams."}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Roth Conversions */}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
                         <input
-                          type="number"
-                          value={
-                            typeof inputs.retirementPhase.annualWithdrawal ===
-                              "string" &&
-                            inputs.retirementPhase.annualWithdrawal === ""
-                              ? ""
-                              : inputs.retirementPhase.annualWithdrawal
-                          }
+                          type="checkbox"
+                          id="roth-conversion"
+                          checked={rothConversion.enabled}
                           onChange={(e) =>
-                            handleRetirementInputChange(
-                              "annualWithdrawal",
-                              e.target.value
+                            handleRothConversionChange(
+                              "enabled",
+                              e.target.checked
                             )
                           }
-                          onBlur={(e) => {
-                            if (e.target.value === "") {
-                              handleRetirementInputChange(
-                                "annualWithdrawal",
-                                0
-                              );
-                            } else {
-                              handleRetirementInputChange(
-                                "annualWithdrawal",
-                                Number(e.target.value)
-                              );
-                            }
-                          }}
-                          className="w-full pl-7 pr-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
-                          min="0"
+                          className="w-4 h-4 mr-2 accent-primary"
                         />
+                        <label htmlFor="roth-conversion" className="text-xs">
+                          Plan Roth conversions
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.rothConversion)
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
                       </div>
                     </div>
 
-                    {/* Retirement Years */}
-                    <div>
-                      <label className="block text-xs font-medium mb-1">
-                        Retirement Years
-                      </label>
-                      <div className="relative">
-                        <input
-                          type="number"
-                          value={
-                            typeof inputs.retirementPhase.retirementYears ===
-                              "string" &&
-                            inputs.retirementPhase.retirementYears === ""
-                              ? ""
-                              : inputs.retirementPhase.retirementYears
-                          }
+                    {rothConversion.enabled && (
+                      <div className="space-y-3">
+                        <select
+                          value={rothConversion.strategy}
                           onChange={(e) =>
-                            handleRetirementInputChange(
-                              "retirementYears",
+                            handleRothConversionChange(
+                              "strategy",
                               e.target.value
                             )
                           }
-                          onBlur={(e) => {
-                            if (e.target.value === "") {
-                              handleRetirementInputChange("retirementYears", 1);
-                            } else {
-                              handleRetirementInputChange(
-                                "retirementYears",
+                          className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                        >
+                          <option value="fill-bracket">
+                            Fill up to a federal bracket
+                          </option>
+                          <option value="fixed">Fixed amount per year</option>
+                        </select>
+
+                        {rothConversion.strategy === "fixed" ? (
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                              $
+                            </span>
+                            <input
+                              type="number"
+                              value={rothConversion.annualAmount}
+                              onChange={(e) =>
+                                handleRothConversionChange(
+                                  "annualAmount",
+                                  e.target.value
+                                )
+                              }
+                              className="w-full pl-7 pr-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                              min="0"
+                            />
+                          </div>
+                        ) : (
+                          <select
+                            value={rothConversion.targetBracketRate}
+                            onChange={(e) =>
+                              handleRothConversionChange(
+                                "targetBracketRate",
                                 Number(e.target.value)
-                              );
+                              )
                             }
-                          }}
+                            className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                          >
+                            {fillableBracketRates.map((rate) => (
+                              <option key={rate} value={rate}>
+                                Top of the {rate}% bracket
+                              </option>
+                            ))}
+                          </select>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2">
+                          {(
+                            [
+                              { field: "startYear", label: "From year" },
+                              { field: "endYear", label: "Through year" },
+                            ] as const
+                          ).map(({ field, label }) => (
+                            <div key={field}>
+                              <label className="block text-xs text-muted-foreground mb-1">
+                                {label}
+                              </label>
+                              <input
+                                type="number"
+                                value={rothConversion[field]}
+                                onChange={(e) =>
+                                  handleRothConversionChange(
+                                    field,
+                                    e.target.value
+                                  )
+                                }
+                                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                min="0"
+                              />
+                            </div>
+                          ))}
+                        </div>
+
+                        <select
+                          value={rothConversion.taxSource}
+                          onChange={(e) =>
+                            handleRothConversionChange(
+                              "taxSource",
+                              e.target.value
+                            )
+                          }
                           className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
-                          min="1"
-                          max="50"
-                        />
-                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-xs">
-                          years
-                        </span>
+                        >
+                          <option value="taxable">
+                            Pay the tax from the taxable account
+                          </option>
+                          <option value="converted">
+                            Withhold the tax from the conversion
+                          </option>
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                          Years count from the start of retirement (year 0).
+                          Bracket fills use the federal bracket table and filing
+                          status from Tax Settings, indexed to inflation.
+                        </p>
                       </div>
-                    </div>
+                    )}
 
-                    {/* Return in Retirement */}
-                    <div>
-                      <label className="block text-xs font-medium mb-1">
-                        Expected Return in Retirement
-                      </label>
-                      <div className="relative">
+                    {/* Social Security Claiming */}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
                         <input
-                          type="number"
-                          value={
-                            typeof inputs.retirementPhase.retirementReturn ===
-                              "string" &&
-                            inputs.retirementPhase.retirementReturn === ""
-                              ? ""
-                              : inputs.retirementPhase.retirementReturn
-                          }
+                          type="checkbox"
+                          id="social-security-claiming"
+                          checked={socialSecurityClaiming.enabled}
                           onChange={(e) =>
-                            handleRetirementInputChange(
-                              "retirementReturn",
-                              e.target.value
+                            handleSocialSecurityClaimingChange(
+                              "enabled",
+                              e.target.checked
                             )
                           }
-                          onBlur={(e) => {
-                            if (e.target.value === "") {
-                              handleRetirementInputChange(
-                                "retirementReturn",
-                                0
-                              );
-                            } else {
-                              handleRetirementInputChange(
-                                "retirementReturn",
-                                Number(e.target.value)
-                              );
-                            }
-                          }}
-                          className="w-full pl-3 pr-9 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
-                          min="0"
-                          step="0.1"
+                          className="w-4 h-4 mr-2 accent-primary"
                         />
-                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-xs">
-                          %
-                        </span>
+                        <label
+                          htmlFor="social-security-claiming"
+                          className="text-xs"
+                        >
+                          Compare Social Security claiming ages
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(
+                            e,
+                            tooltips.socialSecurityClaiming
+                          )
+                        }
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
                       </div>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Typically lower than accumulation phase (more
-                        conservative)
-                      </p>
                     </div>
 
-                    {/* Adjust for Inflation */}
-                    <div className="flex items-center">
-                      <input
-                        type="checkbox"
-                        id="inflation-adjust"
-                        checked={
-                          inputs.retirementPhase.withdrawalAdjustForInflation
-                        }
-                        onChange={(e) =>
-                          setInputs((prev) => ({
-                            ...prev,
-                            retirementPhase: {
-                              ...prev.retirementPhase,
-                              withdrawalAdjustForInflation: e.target.checked,
-                            },
-                          }))
+                    {socialSecurityClaiming.enabled && (
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-3 gap-2">
+                          {socialSecurityRecordFields.map(
+                            ({ field, label }) => (
+                              <div key={field}>
+                                <label className="block text-xs text-muted-foreground mb-1">
+                                  {label}
+                                </label>
+                                <input
+                                  type="number"
+                                  value={socialSecurityClaiming.worker[field]}
+                                  onChange={(e) =>
+                                    handleSocialSecurityRecordChange(
+                                      "worker",
+                                      field,
+                                      e.target.value
+                                    )
+                                  }
+                                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                />
+                              </div>
+                            )
+                          )}
+                          <div>
+                            <label className="block text-xs text-muted-foreground mb-1">
+                              COLA (%)
+                            </label>
+                            <input
+                              type="number"
+                              value={socialSecurityClaiming.cola}
+                              onChange={(e) =>
+                                handleSocialSecurityClaimingChange(
+                                  "cola",
+                                  e.target.value
+                                )
+                              }
+                              className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                              min="0"
+                              step="0.1"
+                            />
+                          </div>
+                        </div>
+
+                        <div className="flex items-center">
+                          <input
+                            type="checkbox"
+                            id="social-security-spouse"
+                            checked={socialSecurityClaiming.includeSpouse}
+                            onChange={(e) =>
+                              handleSocialSecurityClaimingChange(
+                                "includeSpouse",
+                                e.target.checked
+                              )
+                            }
+                            className="w-4 h-4 mr-2 accent-primary"
+                          />
+                          <label
+                            htmlFor="social-security-spouse"
+                            className="text-xs"
+                          >
+                            Include a spouse
+                          </label>
+                        </div>
+
+                        {socialSecurityClaiming.includeSpouse && (
+                          <div className="grid grid-cols-3 gap-2">
+                            {(
+                              [
+                                ...socialSecurityRecordFields,
+                                {
+                                  field: "claimingAge",
+                                  label: "Claiming age",
+                                },
+                              ] as const
+                            ).map(({ field, label }) => (
+                              <div key={field}>
+                                <label className="block text-xs text-muted-foreground mb-1">
+                                  {label}
+                                </label>
+                                <input
+                                  type="number"
+                                  value={socialSecurityClaiming.spouse[field]}
+                                  onChange={(e) =>
+                                    handleSocialSecurityRecordChange(
+                                      "spouse",
+                                      field,
+                                      e.target.value
+                                    )
+                                  }
+                                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                                  min="0"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          The comparison replaces any Social Security income
+                          streams above, keeps your other streams, and runs{" "}
+                          {CLAIMING_SIMULATIONS.toLocaleString()} market
+                          scenarios per age.
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Safe Withdrawal Rate */}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="safe-withdrawal"
+                          checked={safeWithdrawal.enabled}
+                          onChange={(e) =>
+                            handleSafeWithdrawalChange(
+                              "enabled",
+                              e.target.checked
+                            )
+                          }
+                          disabled={!usesAnnualWithdrawal}
+                          className="w-4 h-4 mr-2 accent-primary disabled:opacity-50"
+                        />
+                        <label htmlFor="safe-withdrawal" className="text-xs">
+                          Find my safe withdrawal rate
+                        </label>
+                      </div>
+                      <div
+                        className="tooltip"
+                        onMouseEnter={(e) =>
+                          handleTooltipMouseEnter(e, tooltips.safeWithdrawal)
                         }
-                        className="w-4 h-4 mr-2 accent-primary"
-                      />
-                      <label htmlFor="inflation-adjust" className="text-xs">
-                        Adjust withdrawals for inflation
-                      </label>
+                        onMouseLeave={handleTooltipMouseLeave}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="w-4 h-4 text-muted-foreground"
+                        >
+                          <circle cx="12" cy="12" r="10"></circle>
+                          <path d="M12 16v-4M12 8h.01"></path>
+                        </svg>
+                      </div>
                     </div>
+
+                    {!usesAnnualWithdrawal && (
+                      <p className="text-xs text-muted-foreground">
+                        Available with the fixed and Guyton-Klinger strategies,
+                        which start from your annual withdrawal.
+                      </p>
+                    )}
+
+                    {safeWithdrawal.enabled && usesAnnualWithdrawal && (
+                      <div className="space-y-3">
+                        <div>
+                          <label className="block text-xs text-muted-foreground mb-1">
+                            Confidence level (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={safeWithdrawal.confidenceLevel}
+                            onChange={(e) =>
+                              handleSafeWithdrawalChange(
+                                "confidenceLevel",
+                                e.target.value
+                              )
+                            }
+                            className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                            min="1"
+                            max="100"
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Tests each withdrawal on{" "}
+                          {SAFE_WITHDRAWAL_SIMULATIONS.toLocaleString()} market
+                          scenarios, so the analysis adds a few seconds to each
+                          calculation.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
-
+
+              <button
+                onClick={handleCalculate}
+                disabled={hasTaxRateErrors || calculating}
+                className="w-full mt-4 bg-gradient-to-r from-primary to-accent text-white py-4 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-all duration-300 transform hover:scale-[1.02] active:scale-[0.98] font-medium text-lg shadow-lg hover:shadow-xl relative overflow-hidden group disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+              >
+                <div className="absolute inset-0 bg-gradient-to-r from-accent to-primary opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                <span className="relative z-10">
+                  {calculating ? "Calculating..." : "Calculate"}
+                </span>
+              </button>
+              {calculationError && (
+                <p className="text-sm text-destructive mt-2">
+                  {calculationError}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Goal Solver */}
+          <div className="glass-card p-6 md:p-8 mt-6 transition-all duration-300">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl md:text-2xl font-semibold gradient-text">
+                Goal Solver
+              </h2>
+              <div
+                className="tooltip"
+                onMouseEnter={(e) =>
+                  handleTooltipMouseEnter(e, tooltips.goalSolver)
+                }
+                onMouseLeave={handleTooltipMouseLeave}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="w-4 h-4 text-muted-foreground"
+                >
+                  <circle cx="12" cy="12" r="10"></circle>
+                  <path d="M12 16v-4M12 8h.01"></path>
+                </svg>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    Reach
+                  </label>
+                  <select
+                    value={goalSettings.target}
+                    onChange={(e) =>
+                      handleGoalSettingChange("target", e.target.value)
+                    }
+                    className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                  >
+                    {(Object.keys(goalTargetLabels) as GoalTarget[]).map(
+                      (target) => (
+                        <option
+                          key={target}
+                          value={target}
+                          disabled={!goalTargetAvailable(target)}
+                        >
+                          {goalTargetLabels[target]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    {goalSettings.target === "success-rate"
+                      ? "Of at least (%)"
+                      : "Of at least ($)"}
+                  </label>
+                  <input
+                    type="number"
+                    value={goalSettings.targetValue}
+                    onChange={(e) =>
+                      handleGoalSettingChange("targetValue", e.target.value)
+                    }
+                    className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                    min="0"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">
+                  By solving for
+                </label>
+                <select
+                  value={goalSettings.variable}
+                  onChange={(e) =>
+                    handleGoalSettingChange("variable", e.target.value)
+                  }
+                  className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                >
+                  {(Object.keys(goalVariableLabels) as GoalVariable[]).map(
+                    (variable) => (
+                      <option
+                        key={variable}
+                        value={variable}
+                        disabled={!goalVariableAvailable(variable)}
+                      >
+                        {goalVariableLabels[variable]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
               <button
-                onClick={handleCalculate}
-                className="w-full mt-4 bg-gradient-to-r from-primary to-accent text-white py-4 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-all duration-300 transform hover:scale-[1.02] active:scale-[0.98] font-medium text-lg shadow-lg hover:shadow-xl relative overflow-hidden group"
+                onClick={handleSolveGoal}
+                disabled={!canSolveGoal || solvingGoal}
+                className="w-full px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                <div className="absolute inset-0 bg-gradient-to-r from-accent to-primary opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                <span className="relative z-10">Calculate</span>
+                {solvingGoal ? "Solving..." : "Solve"}
               </button>
+              {goalError && (
+                <p className="text-sm text-destructive">{goalError}</p>
+              )}
+
+              {goalSolution && (
+                <div className="p-3 border border-border rounded-md space-y-2 text-sm">
+                  {goalSolution.value === undefined ? (
+                    <p>
+                      No{" "}
+                      {goalVariableLabels[
+                        goalSolution.settings.variable
+                      ].toLowerCase()}{" "}
+                      between{" "}
+                      {formatGoalValue(
+                        goalSolution.settings.variable,
+                        GOAL_VARIABLE_RANGES[goalSolution.settings.variable].min
+                      )}{" "}
+                      and{" "}
+                      {formatGoalValue(
+                        goalSolution.settings.variable,
+                        GOAL_VARIABLE_RANGES[goalSolution.settings.variable].max
+                      )}{" "}
+                      reaches the target. The closest is{" "}
+                      {formatGoalOutcome(
+                        goalSolution.settings.target,
+                        goalSolution.outcome
+                      )}
+                      .
+                    </p>
+                  ) : (
+                    <>
+                      <p>
+                        {goalVariableLabels[goalSolution.settings.variable]}:{" "}
+                        <span className="font-bold text-primary">
+                          {formatGoalValue(
+                            goalSolution.settings.variable,
+                            roundGoalValue(
+                              goalSolution.settings.variable,
+                              goalSolution.value
+                            )
+                          )}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {goalTargetLabels[goalSolution.settings.target]}:{" "}
+                        {formatGoalOutcome(
+                          goalSolution.settings.target,
+                          goalSolution.outcome
+                        )}
+                      </p>
+                      <button
+                        onClick={applyGoalSolution}
+                        className="px-3 py-1 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+                      >
+                        Use this value
+                      </button>
+                    </>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {goalSolution.evaluations} projections with{" "}
+                    {(goalSolution.settings.target === "success-rate"
+                      ? GOAL_SOLVER_SIMULATIONS
+                      : GOAL_SOLVER_BALANCE_SIMULATIONS
+                    ).toLocaleString()}{" "}
+                    market scenarios, then {goalSolution.refinements} with{" "}
+                    {MONTE_CARLO_SIMULATIONS.toLocaleString()} to check the
+                    answer, seed{" "}
+                    <span className="font-mono">{goalSolution.seed}</span>
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -1349,6 +5124,26 @@ export default function Calculator() {
                   >
                     {formatCurrency(results.summary.totalContributions)}
                   </p>
+                  {contributionOverflow > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatCurrency(contributionOverflow)} over IRS limits
+                      went to taxable
+                    </p>
+                  )}
+                  {(results.summary.totalEmployerContributions ?? 0) > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Plus{" "}
+                      {formatCurrency(
+                        results.summary.totalEmployerContributions ?? 0
+                      )}{" "}
+                      free money from your employer&apos;s match
+                      {(results.summary.forfeitedEmployerContributions ?? 0) >
+                        0 &&
+                        ` (${formatCurrency(
+                          results.summary.forfeitedEmployerContributions ?? 0
+                        )} unvested and forfeited)`}
+                    </p>
+                  )}
                 </div>
                 <div className="glass-card p-4 md:p-6 transition-all duration-300 hover:shadow-lg relative overflow-hidden group">
                   <div className="absolute inset-0 bg-gradient-to-r from-primary/5 to-primary/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
@@ -1620,6 +5415,7 @@ export default function Calculator() {
                           fill: "hsl(var(--muted-foreground))",
                         }}
                       />
+                      {cashFlowMarkers(results.yearByYearDetails)}
                       <Area
                         type="monotone"
                         dataKey="endingBalance"
@@ -1644,6 +5440,22 @@ export default function Calculator() {
                         animationDuration={2000}
                         animationEasing="ease-in-out"
                       />
+                      {/* Cost basis of the taxable account, the gap above it is unrealized gain */}
+                      {results.yearByYearDetails.some(
+                        (year) => year.taxableBasis > 0
+                      ) && (
+                        <Area
+                          type="monotone"
+                          dataKey="taxableBasis"
+                          name="Taxable Cost Basis"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeWidth={2}
+                          strokeDasharray="5 5"
+                          fill="none"
+                          animationDuration={2000}
+                          animationEasing="ease-in-out"
+                        />
+                      )}
                     </AreaChart>
                   </ResponsiveContainer>
                 </div>
@@ -1841,6 +5653,21 @@ export default function Calculator() {
                               fill: "hsl(var(--muted-foreground))",
                             }}
                           />
+                          {firstRmdYear !== undefined && (
+                            <ReferenceLine
+                              x={firstRmdYear}
+                              stroke="hsl(var(--muted-foreground))"
+                              strokeDasharray="3 3"
+                              label={{
+                                position: "top",
+                                value: "RMDs begin",
+                                fill: "hsl(var(--muted-foreground))",
+                              }}
+                            />
+                          )}
+                          {cashFlowMarkers(
+                            results.retirementPhaseResults?.yearByYearDetails
+                          )}
                           <Area
                             type="monotone"
                             dataKey="endingBalance"
@@ -1880,11 +5707,114 @@ export default function Calculator() {
                         </AreaChart>
                       </ResponsiveContainer>
                     </div>
+                    <h3 className="text-sm font-medium text-muted-foreground mt-6 mb-2">
+                      {results.retirementPhaseResults?.yearByYearDetails[0]
+                        ?.incomeStreams.length
+                        ? "Retirement Income by Source"
+                        : "Withdrawals by Account"}{" "}
+                      ({withdrawalOrderDescription(withdrawalOrder)})
+                    </h3>
+                    <div className="h-[250px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart
+                          data={(
+                            results.retirementPhaseResults?.yearByYearDetails ||
+                            []
+                          ).map((row) => {
+                            const streams: Record<string, number> = {};
+                            row.incomeStreams.forEach((payment, index) => {
+                              streams[`stream${index}`] = payment;
+                            });
+                            return {
+                              year: row.year,
+                              ...row.withdrawalsByAccount,
+                              ...streams,
+                            };
+                          })}
+                          margin={{ top: 10, right: 20, left: 60, bottom: 30 }}
+                        >
+                          <CartesianGrid
+                            strokeDasharray="3 3"
+                            stroke="hsl(var(--muted-foreground))"
+                            opacity={0.2}
+                          />
+                          <XAxis
+                            dataKey="year"
+                            tick={{ fill: "hsl(var(--foreground))" }}
+                            tickLine={{
+                              stroke: "hsl(var(--muted-foreground))",
+                            }}
+                            axisLine={{
+                              stroke: "hsl(var(--muted-foreground))",
+                            }}
+                          />
+                          <YAxis
+                            tickFormatter={(value) => formatCurrency(value)}
+                            tick={{ fill: "hsl(var(--foreground))" }}
+                            tickLine={{
+                              stroke: "hsl(var(--muted-foreground))",
+                            }}
+                            axisLine={{
+                              stroke: "hsl(var(--muted-foreground))",
+                            }}
+                            width={60}
+                          />
+                          <Tooltip
+                            formatter={(value: number) => formatCurrency(value)}
+                            labelFormatter={(year) => `Year ${year}`}
+                            contentStyle={{
+                              backgroundColor: "hsl(var(--card))",
+                              borderRadius: "var(--radius)",
+                              border: "1px solid hsl(var(--border))",
+                              boxShadow: "0 4px 12px hsl(var(--muted))",
+                              padding: "0.75rem",
+                              color: "hsl(var(--card-foreground))",
+                            }}
+                            labelStyle={{
+                              color: "hsl(var(--foreground))",
+                              fontWeight: 600,
+                            }}
+                            itemStyle={{ color: "hsl(var(--foreground))" }}
+                          />
+                          <Legend />
+                          {accountLabels.map(({ account, label, color }) => (
+                            <Bar
+                              key={account}
+                              dataKey={account}
+                              name={label}
+                              stackId="withdrawals"
+                              fill={color}
+                            />
+                          ))}
+                          {results.retirementPhaseResults?.yearByYearDetails[0]?.incomeStreams.map(
+                            (_, index) => (
+                              <Bar
+                                key={`stream${index}`}
+                                dataKey={`stream${index}`}
+                                name={
+                                  inputs.incomeStreams?.[index]?.name ||
+                                  `Income stream ${index + 1}`
+                                }
+                                stackId="withdrawals"
+                                fill={
+                                  incomeStreamColors[
+                                    index % incomeStreamColors.length
+                                  ]
+                                }
+                              />
+                            )
+                          )}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
                     <div className="mt-4 text-sm text-muted-foreground">
                       <p>
                         The retirement chart shows your portfolio balance during
                         the withdrawal phase, starting with your ending balance
-                        from the investment growth phase.
+                        from the investment growth phase. The bars below it show
+                        which accounts each year&apos;s withdrawals came from,
+                        stacked with any Social Security, pension or other
+                        income streams.
                       </p>
                       <p className="mt-1">
                         Note: Year 0 represents the start of retirement, and the
@@ -1943,9 +5873,239 @@ export default function Calculator() {
                     future scenarios based on your inputs, accounting for market
                     volatility.
                   </p>
+                  <p className="mt-1">
+                    Random seed:{" "}
+                    <span className="font-mono">{results.seed}</span>, plan
+                    starting in {results.currentYear} (Use last seed under
+                    Advanced Parameters reproduces this run)
+                  </p>
+                </div>
+              </div>
+
+              {/* Tax Rates Applied */}
+              <div className="glass-card p-4 md:p-6 transition-all duration-300 hover:shadow-lg">
+                <h2 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 gradient-text">
+                  Tax Rates Applied
+                </h2>
+                <div
+                  className={`grid gap-4 text-sm ${
+                    results.appliedTaxRates.retirement
+                      ? "grid-cols-3"
+                      : "grid-cols-2"
+                  }`}
+                >
+                  <span></span>
+                  <span className="font-medium text-muted-foreground">
+                    Working Years
+                  </span>
+                  {results.appliedTaxRates.retirement && (
+                    <span className="font-medium text-muted-foreground">
+                      Retirement
+                    </span>
+                  )}
+                  {taxRateLabels.map(({ field, label }) => (
+                    <Fragment key={field}>
+                      <span>{label}</span>
+                      <span className="font-bold">
+                        {results.appliedTaxRates.accumulation[field]}%
+                      </span>
+                      {results.appliedTaxRates.retirement && (
+                        <span className="font-bold">
+                          {results.appliedTaxRates.federalTax &&
+                          field !== "dividends"
+                            ? "Brackets"
+                            : `${results.appliedTaxRates.retirement[field]}%`}
+                        </span>
+                      )}
+                    </Fragment>
+                  ))}
                 </div>
+                {results.appliedTaxRates.state && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    {stateTaxTable(results.appliedTaxRates.state)?.name} state
+                    income tax applied on top, in both phases.
+                  </p>
+                )}
+                {results.appliedTaxRates.federalTax && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Retirement withdrawals taxed with the{" "}
+                    {results.appliedTaxRates.federalTax.taxYear} federal
+                    brackets for{" "}
+                    {filingStatusLabels[
+                      results.appliedTaxRates.federalTax.filingStatus
+                    ].toLowerCase()}
+                    , indexed to inflation.
+                  </p>
+                )}
               </div>
 
+              {/* Historical Backtest */}
+              {results.historicalAnalysis && (
+                <div className="glass-card p-4 md:p-6 transition-all duration-300 hover:shadow-lg">
+                  <h2 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 gradient-text">
+                    Historical Backtest
+                  </h2>
+                  {results.historicalAnalysis.cohorts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Your plan spans {results.historicalAnalysis.windowYears}{" "}
+                      years, which is longer than the available market history.
+                      Shorten the investment horizon or retirement period to run
+                      a backtest.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-6">
+                        <div className="bg-background/40 rounded-lg p-4 border border-border/50">
+                          <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                            Historical Success Rate
+                          </h3>
+                          <p className="text-xl font-bold">
+                            {Math.round(
+                              results.historicalAnalysis.successRate * 100
+                            )}
+                            %
+                          </p>
+                          <p className="mt-2 text-xs text-muted-foreground">
+                            Of {results.historicalAnalysis.cohorts.length}{" "}
+                            starting years, the share where the money never ran
+                            out.
+                          </p>
+                        </div>
+                        {[
+                          {
+                            title: "Worst Starting Year",
+                            cohort: results.historicalAnalysis.worstCohort,
+                          },
+                          {
+                            title: "Best Starting Year",
+                            cohort: results.historicalAnalysis.bestCohort,
+                          },
+                        ].map(
+                          ({ title, cohort }) =>
+                            cohort && (
+                              <div
+                                key={title}
+                                className="bg-background/40 rounded-lg p-4 border border-border/50"
+                              >
+                                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                                  {title}
+                                </h3>
+                                <p className="text-xl font-bold">
+                                  {cohort.startYear}
+                                </p>
+                                <p className="mt-2 text-xs text-muted-foreground">
+                                  {cohort.success
+                                    ? `Ended with ${formatCurrency(
+                                        cohort.retirementRealBalance ??
+                                          cohort.accumulationRealBalance
+                                      )} in ${cohort.startYear} dollars.`
+                                    : `Ran out of money after ${cohort.yearsOfIncome} years of retirement.`}
+                                </p>
+                              </div>
+                            )
+                        )}
+                      </div>
+                      <div className="h-[300px] mt-6">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart
+                            data={results.historicalAnalysis.cohorts.map(
+                              (cohort) => ({
+                                startYear: cohort.startYear,
+                                realBalance:
+                                  cohort.retirementRealBalance ??
+                                  cohort.accumulationRealBalance,
+                                success: cohort.success,
+                              })
+                            )}
+                            margin={{
+                              top: 20,
+                              right: 20,
+                              left: 60,
+                              bottom: 30,
+                            }}
+                          >
+                            <CartesianGrid
+                              strokeDasharray="3 3"
+                              stroke="hsl(var(--muted-foreground))"
+                              opacity={0.2}
+                            />
+                            <XAxis
+                              dataKey="startYear"
+                              tick={{ fill: "hsl(var(--foreground))" }}
+                              tickLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              axisLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              label={{
+                                value: "Starting Year",
+                                position: "insideBottomRight",
+                                offset: -10,
+                                fill: "hsl(var(--foreground))",
+                              }}
+                            />
+                            <YAxis
+                              tickFormatter={(value) => formatCurrency(value)}
+                              tick={{ fill: "hsl(var(--foreground))" }}
+                              tickLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              axisLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              width={60}
+                            />
+                            <Tooltip
+                              formatter={(value: number) => [
+                                formatCurrency(value),
+                                "Ending Balance (start-year dollars)",
+                              ]}
+                              contentStyle={{
+                                backgroundColor: "hsl(var(--card))",
+                                borderRadius: "var(--radius)",
+                                border: "1px solid hsl(var(--border))",
+                                boxShadow: "0 4px 12px hsl(var(--muted))",
+                                padding: "0.75rem",
+                                color: "hsl(var(--card-foreground))",
+                              }}
+                              labelStyle={{
+                                color: "hsl(var(--foreground))",
+                                fontWeight: 600,
+                              }}
+                              itemStyle={{ color: "hsl(var(--foreground))" }}
+                            />
+                            <Bar dataKey="realBalance" name="Ending Balance">
+                              {results.historicalAnalysis.cohorts.map(
+                                (cohort) => (
+                                  <Cell
+                                    key={cohort.startYear}
+                                    fill={
+                                      cohort.success
+                                        ? "hsl(var(--primary))"
+                                        : "#dc3545"
+                                    }
+                                  />
+                                )
+                              )}
+                            </Bar>
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <div className="mt-4 text-sm text-muted-foreground">
+                        <p>
+                          Each bar shows how your plan would have ended if you
+                          had started in that year, using actual stock, bond and
+                          cash returns for your asset allocation and actual
+                          inflation, in starting-year dollars. Red bars ran out
+                          of money.
+                        </p>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Retirement Analysis */}
               {inputs.retirementPhase.enabled && results && (
                 <div className="glass-card p-4 md:p-6 transition-all duration-300 hover:shadow-lg">
@@ -2002,13 +6162,394 @@ export default function Calculator() {
                           .startingBalance || 0
                       )}{" "}
                       and simulates {inputs.retirementPhase.retirementYears}{" "}
-                      years of retirement with annual withdrawals of{" "}
-                      {formatCurrency(inputs.retirementPhase.annualWithdrawal)}
-                      {inputs.retirementPhase.withdrawalAdjustForInflation &&
-                        " (adjusted for inflation annually)"}
+                      years of retirement{" "}
+                      {withdrawalStrategy.type === "fixed" ? (
+                        <>
+                          with annual{" "}
+                          {inputs.retirementPhase.grossUpWithdrawals
+                            ? "after-tax spending"
+                            : "withdrawals"}{" "}
+                          of{" "}
+                          {formatCurrency(
+                            inputs.retirementPhase.annualWithdrawal
+                          )}
+                          {inputs.retirementPhase
+                            .withdrawalAdjustForInflation &&
+                            " (adjusted for inflation annually)"}
+                        </>
+                      ) : (
+                        <>
+                          using the{" "}
+                          {withdrawalStrategyLabels[withdrawalStrategy.type]}{" "}
+                          withdrawal strategy, starting at{" "}
+                          {inputs.retirementPhase.grossUpWithdrawals
+                            ? `${formatCurrency(
+                                retirementRows?.[0]?.netSpending || 0
+                              )} of after-tax spending`
+                            : formatCurrency(
+                                retirementRows?.[0]?.withdrawals || 0
+                              )}{" "}
+                          in the first year
+                        </>
+                      )}
                       .
                     </p>
+                    {inputs.retirementPhase.grossUpWithdrawals &&
+                      retirementRows?.[0] && (
+                        <p className="mt-2">
+                          Withdrawals are grossed up for taxes: in the first
+                          year you withdraw{" "}
+                          {formatCurrency(retirementRows[0].withdrawals)} to
+                          spend {formatCurrency(retirementRows[0].netSpending)}{" "}
+                          after tax
+                          {retirementRows[0].streamIncome > 0 &&
+                            ", including income streams"}
+                          .
+                        </p>
+                      )}
+                    {retirementRows?.some((row) => row.streamIncome > 0) && (
+                      <p className="mt-2">
+                        Income streams pay{" "}
+                        {formatCurrency(
+                          retirementRows.reduce(
+                            (sum, row) => sum + row.streamIncome,
+                            0
+                          )
+                        )}{" "}
+                        over retirement
+                        {usesAnnualWithdrawal
+                          ? ", reducing what you withdraw from the portfolio"
+                          : ", on top of the strategy's withdrawals"}
+                        .
+                      </p>
+                    )}
+                    {results.retirementPhaseResults && (
+                      <p className="mt-2">
+                        Starting accounts:{" "}
+                        {accountLabels
+                          .map(
+                            ({ account, label }) =>
+                              `${label} ${formatCurrency(
+                                results.retirementPhaseResults?.summary
+                                  .startingBalances[account] || 0
+                              )}`
+                          )
+                          .join(", ")}
+                        {results.retirementPhaseResults.summary.startingBalances
+                          .taxable > 0 &&
+                          ` (taxable cost basis ${formatCurrency(
+                            results.retirementPhaseResults.summary
+                              .startingBalances.taxableBasis
+                          )})`}
+                        . Withdrawals draw on these actual balances.
+                      </p>
+                    )}
+                    {firstRmdYear !== undefined && (
+                      <p className="mt-2">
+                        Required minimum distributions begin at age{" "}
+                        {results.retirementPhaseResults?.summary.rmdStartAge}{" "}
+                        (retirement year {firstRmdYear}).{" "}
+                        {rmdDrivenYears > 0
+                          ? `In ${rmdDrivenYears} ${
+                              rmdDrivenYears === 1 ? "year" : "years"
+                            } the RMD is more than your withdrawals take from the tax-deferred account; the excess is reinvested in your taxable account and flagged in the exported year-by-year data.`
+                          : "Your withdrawals already cover them every year."}
+                      </p>
+                    )}
                   </div>
+
+                  {results.retirementPhaseResults?.rothConversionComparison && (
+                    <div className="mt-6">
+                      <h3 className="text-sm font-medium mb-3">
+                        Roth Conversions
+                      </h3>
+                      <div className="grid grid-cols-3 gap-4 text-sm">
+                        <span></span>
+                        <span className="font-medium text-muted-foreground">
+                          With Conversions
+                        </span>
+                        <span className="font-medium text-muted-foreground">
+                          Without
+                        </span>
+                        {(
+                          [
+                            { field: "totalConverted", label: "Converted" },
+                            {
+                              field: "lifetimeTaxes",
+                              label: "Taxes in retirement",
+                            },
+                            { field: "endingBalance", label: "Ending balance" },
+                            {
+                              field: "afterTaxEndingWealth",
+                              label: "After-tax ending wealth",
+                            },
+                          ] as const
+                        ).map(({ field, label }) => (
+                          <Fragment key={field}>
+                            <span>{label}</span>
+                            <span className="font-bold">
+                              {formatCurrency(
+                                results.retirementPhaseResults
+                                  ?.rothConversionComparison?.withConversions[
+                                  field
+                                ] || 0
+                              )}
+                            </span>
+                            <span className="font-bold">
+                              {formatCurrency(
+                                results.retirementPhaseResults
+                                  ?.rothConversionComparison
+                                  ?.withoutConversions[field] || 0
+                              )}
+                            </span>
+                          </Fragment>
+                        ))}
+                      </div>
+                      <p className="mt-3 text-xs text-muted-foreground">
+                        Both columns follow the same market path. After-tax
+                        wealth counts tax-deferred savings and unrealized
+                        taxable gains net of the federal and state tax
+                        they&apos;d owe if cashed out on top of the final
+                        year&apos;s income.
+                      </p>
+                    </div>
+                  )}
+
+                  {claimingAnalysis && (
+                    <div className="mt-6">
+                      <h3 className="text-sm font-medium mb-3">
+                        Social Security Claiming Age
+                      </h3>
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div className="bg-background/40 rounded-lg p-4 border border-border/50">
+                          <h4 className="text-xs text-muted-foreground mb-1">
+                            Best for Success Rate
+                          </h4>
+                          <p className="text-xl font-bold">
+                            Age {claimingAnalysis.bestForSuccessRate}
+                          </p>
+                        </div>
+                        <div className="bg-background/40 rounded-lg p-4 border border-border/50">
+                          <h4 className="text-xs text-muted-foreground mb-1">
+                            Best for Median Ending Wealth
+                          </h4>
+                          <p className="text-xl font-bold">
+                            Age {claimingAnalysis.bestForMedianWealth}
+                          </p>
+                        </div>
+                      </div>
+                      <div
+                        className={`grid ${
+                          socialSecurityClaiming.includeSpouse
+                            ? "grid-cols-5"
+                            : "grid-cols-4"
+                        } gap-x-4 gap-y-1 text-sm`}
+                      >
+                        <span className="font-medium text-muted-foreground">
+                          Age
+                        </span>
+                        <span className="font-medium text-muted-foreground">
+                          Benefit
+                        </span>
+                        {socialSecurityClaiming.includeSpouse && (
+                          <span className="font-medium text-muted-foreground">
+                            Spouse
+                          </span>
+                        )}
+                        <span className="font-medium text-muted-foreground">
+                          Success Rate
+                        </span>
+                        <span className="font-medium text-muted-foreground">
+                          Median Ending
+                        </span>
+                        {claimingAnalysis.options.map((option) => (
+                          <Fragment key={option.claimingAge}>
+                            <span className="font-bold">
+                              {option.claimingAge}
+                            </span>
+                            <span>{formatCurrency(option.annualBenefit)}</span>
+                            {socialSecurityClaiming.includeSpouse && (
+                              <span>
+                                {formatCurrency(option.spouseAnnualBenefit)}
+                              </span>
+                            )}
+                            <span
+                              className={
+                                option.claimingAge ===
+                                claimingAnalysis.bestForSuccessRate
+                                  ? "font-bold text-primary"
+                                  : ""
+                              }
+                            >
+                              {(option.successRate * 100).toFixed(1)}%
+                            </span>
+                            <span
+                              className={
+                                option.claimingAge ===
+                                claimingAnalysis.bestForMedianWealth
+                                  ? "font-bold text-primary"
+                                  : ""
+                              }
+                            >
+                              {formatCurrency(option.medianEndingBalance)}
+                            </span>
+                          </Fragment>
+                        ))}
+                      </div>
+                      <p className="mt-3 text-xs text-muted-foreground">
+                        Annual benefits are in today&apos;s dollars. Every age
+                        is tested on the same market scenarios, so the
+                        differences come from the claiming age alone. To use an
+                        age in the projection above, add it as a Social Security
+                        income stream.
+                      </p>
+                    </div>
+                  )}
+
+                  {safeWithdrawalAnalysis && (
+                    <div className="mt-6">
+                      <h3 className="text-sm font-medium mb-3">
+                        Safe Withdrawal Rate
+                      </h3>
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div className="bg-background/40 rounded-lg p-4 border border-border/50">
+                          <h4 className="text-xs text-muted-foreground mb-1">
+                            Safe First-Year Withdrawal
+                          </h4>
+                          <p className="text-xl font-bold">
+                            {formatCurrency(
+                              safeWithdrawalAnalysis.safeWithdrawal
+                            )}
+                          </p>
+                        </div>
+                        <div className="bg-background/40 rounded-lg p-4 border border-border/50">
+                          <h4 className="text-xs text-muted-foreground mb-1">
+                            Safe Withdrawal Rate
+                          </h4>
+                          <p className="text-xl font-bold">
+                            {safeWithdrawalAnalysis.safeWithdrawalRate.toFixed(
+                              2
+                            )}
+                            %
+                          </p>
+                        </div>
+                      </div>
+                      <div className="h-[300px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart
+                            data={safeWithdrawalAnalysis.curve.map((point) => ({
+                              withdrawalRate: point.withdrawalRate,
+                              successRate: point.successRate * 100,
+                            }))}
+                            margin={{
+                              top: 20,
+                              right: 20,
+                              left: 20,
+                              bottom: 30,
+                            }}
+                          >
+                            <CartesianGrid
+                              strokeDasharray="3 3"
+                              stroke="hsl(var(--muted-foreground))"
+                              opacity={0.2}
+                            />
+                            <XAxis
+                              dataKey="withdrawalRate"
+                              type="number"
+                              domain={["dataMin", "dataMax"]}
+                              tickFormatter={(value) => `${value}%`}
+                              tick={{ fill: "hsl(var(--foreground))" }}
+                              tickLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              axisLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              label={{
+                                value: "Withdrawal Rate",
+                                position: "insideBottomRight",
+                                offset: -10,
+                                fill: "hsl(var(--foreground))",
+                              }}
+                            />
+                            <YAxis
+                              domain={[0, 100]}
+                              tickFormatter={(value) => `${value}%`}
+                              tick={{ fill: "hsl(var(--foreground))" }}
+                              tickLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              axisLine={{
+                                stroke: "hsl(var(--muted-foreground))",
+                              }}
+                              width={50}
+                            />
+                            <Tooltip
+                              formatter={(value: number) => [
+                                `${value.toFixed(1)}%`,
+                                "Success Rate",
+                              ]}
+                              labelFormatter={(label) =>
+                                `Withdrawal rate ${label}%`
+                              }
+                              contentStyle={{
+                                backgroundColor: "hsl(var(--card))",
+                                borderRadius: "var(--radius)",
+                                border: "1px solid hsl(var(--border))",
+                                boxShadow: "0 4px 12px hsl(var(--muted))",
+                                padding: "0.75rem",
+                                color: "hsl(var(--card-foreground))",
+                              }}
+                              labelStyle={{
+                                color: "hsl(var(--foreground))",
+                                fontWeight: 600,
+                              }}
+                              itemStyle={{ color: "hsl(var(--foreground))" }}
+                            />
+                            <ReferenceLine
+                              y={safeWithdrawalAnalysis.confidenceLevel}
+                              stroke="hsl(var(--muted-foreground))"
+                              strokeDasharray="3 3"
+                              label={{
+                                position: "insideTopRight",
+                                value: `${safeWithdrawalAnalysis.confidenceLevel}% confidence`,
+                                fill: "hsl(var(--muted-foreground))",
+                              }}
+                            />
+                            <ReferenceLine
+                              x={safeWithdrawalAnalysis.safeWithdrawalRate}
+                              stroke="hsl(var(--accent))"
+                              strokeDasharray="3 3"
+                              ifOverflow="discard"
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="successRate"
+                              name="Success Rate"
+                              stroke="hsl(var(--primary))"
+                              strokeWidth={2}
+                              dot={{ r: 3 }}
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <p className="mt-3 text-xs text-muted-foreground">
+                        Withdrawal rates are first-year withdrawals as a share
+                        of your{" "}
+                        {formatCurrency(
+                          results.retirementPhaseResults?.summary
+                            .startingBalance || 0
+                        )}{" "}
+                        starting balance
+                        {inputs.retirementPhase.withdrawalAdjustForInflation &&
+                          ", raised with inflation each year"}
+                        . Every rate is tested on the same{" "}
+                        {SAFE_WITHDRAWAL_SIMULATIONS.toLocaleString()} market
+                        scenarios, so the success rate here can differ slightly
+                        from the one above.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -2016,6 +6557,246 @@ export default function Calculator() {
         </div>
       </div>
 
+      {/* Scenario Comparison */}
+      <div className="mt-12 md:mt-16 glass-card p-6 md:p-8 transition-all duration-300">
+        <div className="flex items-center justify-between mb-4 md:mb-6">
+          <h2 className="text-xl md:text-2xl font-bold gradient-text">
+            Scenario Comparison
+          </h2>
+          <div
+            className="tooltip"
+            onMouseEnter={(e) =>
+              handleTooltipMouseEnter(e, tooltips.scenarioComparison)
+            }
+            onMouseLeave={handleTooltipMouseLeave}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="w-4 h-4 text-muted-foreground"
+            >
+              <circle cx="12" cy="12" r="10"></circle>
+              <path d="M12 16v-4M12 8h.01"></path>
+            </svg>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-xs text-muted-foreground mb-1">
+                Scenario name
+              </label>
+              <input
+                type="text"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder={`Scenario ${nextScenarioId.current}`}
+                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+              />
+            </div>
+            <button
+              onClick={saveScenario}
+              disabled={hasTaxRateErrors}
+              className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save current inputs
+            </button>
+          </div>
+
+          {scenarios.map((scenario) => (
+            <div key={scenario.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={scenario.name}
+                onChange={(e) => renameScenario(scenario.id, e.target.value)}
+                className="w-full px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+              />
+              <button
+                onClick={() => loadScenario(scenario)}
+                className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+              >
+                Load
+              </button>
+              <button
+                onClick={() => removeScenario(scenario.id)}
+                className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">
+                Comparison seed
+              </label>
+              <input
+                type="number"
+                value={scenarioSeed}
+                onChange={(e) => setScenarioSeed(e.target.value)}
+                placeholder="Random"
+                className="w-40 px-3 py-2 bg-background/50 border border-border rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm"
+                min="0"
+                step="1"
+              />
+            </div>
+            <button
+              onClick={handleCompareScenarios}
+              disabled={scenarios.length === 0 || comparingScenarios}
+              className="px-3 py-2 bg-primary/10 hover:bg-primary/20 rounded-md text-sm font-medium transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {comparingScenarios
+                ? "Running..."
+                : `Run ${scenarios.length} ${
+                    scenarios.length === 1 ? "scenario" : "scenarios"
+                  }`}
+            </button>
+          </div>
+          {scenarioError && (
+            <p className="text-sm text-destructive">{scenarioError}</p>
+          )}
+        </div>
+
+        {scenarioComparison && scenarioOutcomes.length > 0 && (
+          <div className="mt-6 space-y-6">
+            <div className="h-[350px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={scenarioChartData}
+                  margin={{ top: 20, right: 20, left: 60, bottom: 30 }}
+                >
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="hsl(var(--muted-foreground))"
+                    opacity={0.2}
+                  />
+                  <XAxis
+                    dataKey="year"
+                    tick={{ fill: "hsl(var(--foreground))" }}
+                    tickLine={{ stroke: "hsl(var(--muted-foreground))" }}
+                    axisLine={{ stroke: "hsl(var(--muted-foreground))" }}
+                    label={{
+                      value: "Year",
+                      position: "insideBottomRight",
+                      offset: -10,
+                      fill: "hsl(var(--foreground))",
+                    }}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => formatCurrency(value)}
+                    tick={{ fill: "hsl(var(--foreground))" }}
+                    tickLine={{ stroke: "hsl(var(--muted-foreground))" }}
+                    axisLine={{ stroke: "hsl(var(--muted-foreground))" }}
+                    width={60}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(value)}
+                    labelFormatter={(label) => `Year ${label}`}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      borderRadius: "var(--radius)",
+                      border: "1px solid hsl(var(--border))",
+                      boxShadow: "0 4px 12px hsl(var(--muted))",
+                      padding: "0.75rem",
+                      color: "hsl(var(--card-foreground))",
+                    }}
+                    labelStyle={{
+                      color: "hsl(var(--foreground))",
+                      fontWeight: 600,
+                    }}
+                    itemStyle={{ color: "hsl(var(--foreground))" }}
+                  />
+                  <Legend />
+                  {scenarioOutcomes.map((outcome, index) => (
+                    <Line
+                      key={outcome.id}
+                      type="monotone"
+                      dataKey={`scenario${index}`}
+                      name={outcome.name}
+                      stroke={scenarioColors[index % scenarioColors.length]}
+                      strokeWidth={index === baselineScenario ? 3 : 2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <div className="grid grid-cols-7 gap-x-4 gap-y-2 text-sm min-w-[840px]">
+                <span className="font-medium text-muted-foreground">
+                  Baseline / Scenario
+                </span>
+                {scenarioMetricFields.map(({ field, label }) => (
+                  <span
+                    key={field}
+                    className="font-medium text-muted-foreground"
+                  >
+                    {label}
+                  </span>
+                ))}
+                {scenarioOutcomes.map((outcome, index) => (
+                  <Fragment key={outcome.id}>
+                    <label className="flex items-center font-bold">
+                      <input
+                        type="radio"
+                        name="baseline-scenario"
+                        checked={index === baselineScenario}
+                        onChange={() => setBaselineScenario(index)}
+                        className="w-4 h-4 mr-2 accent-primary"
+                      />
+                      {outcome.name}
+                    </label>
+                    {scenarioMetricFields.map(({ field }) => {
+                      const value = outcome.metrics[field];
+                      const baseline = baselineMetrics?.[field];
+                      return (
+                        <span key={field}>
+                          {formatScenarioMetric(field, value)}
+                          {index !== baselineScenario &&
+                            value !== undefined &&
+                            baseline !== undefined && (
+                              <span className="block text-xs text-muted-foreground">
+                                {formatScenarioMetric(
+                                  field,
+                                  value - baseline,
+                                  true
+                                )}
+                              </span>
+                            )}
+                        </span>
+                      );
+                    })}
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Every scenario runs with seed{" "}
+              <span className="font-mono">{scenarioComparison.seed}</span> and{" "}
+              {MONTE_CARLO_SIMULATIONS.toLocaleString()} Monte Carlo scenarios,
+              from the year it was saved in, so loading it and calculating gives
+              the same figures. Each simulated path draws the same random market
+              moves in the same year in every scenario, whatever its horizon or
+              spending, so the differences come from the inputs rather than
+              luck; different return assumptions scale those moves differently.
+              Changes are shown against the baseline you select. Taxes and fees
+              are totals over both phases. Saving success is the share of
+              scenarios that don't run out of money before retirement, and
+              retirement success the share that last through retirement, when
+              it&apos;s enabled.
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Educational Section */}
       <div className="mt-12 md:mt-16 glass-card p-6 md:p-8 transition-all duration-300">
         <h2 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 gradient-text">
@@ -0,0 +1,20 @@
+/**
+ * IRS annual contribution limits for 2025 (Notice 2024-80)
+ *
+ * The 401(k)/403(b) elective deferral limit is shared by traditional
+ * (tax-deferred) and Roth (tax-free) deferrals. Tax-free savings can also go
+ * to a Roth IRA, which has its own limit. Savers aged 50 or older may add the
+ * catch-up amounts. Limits are in 2025 dollars; the IRS raises them with
+ * inflation.
+ */
+export const CONTRIBUTION_LIMITS_YEAR = 2025;
+
+export const CATCH_UP_AGE = 50;
+
+export const CONTRIBUTION_LIMITS: Record<
+  "electiveDeferral" | "rothIra",
+  { limit: number; catchUp: number }
+> = {
+  electiveDeferral: { limit: 23500, catchUp: 7500 },
+  rothIra: { limit: 7000, catchUp: 1000 },
+};
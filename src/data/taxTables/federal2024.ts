@@ -0,0 +1,75 @@
+import { FederalTaxTable } from "@/data/taxTables";
+
+/**
+ * 2024 federal income tax brackets and standard deductions
+ * Source: IRS Revenue Procedure 2023-34
+ */
+export const FEDERAL_2024: FederalTaxTable = {
+  taxYear: 2024,
+  standardDeduction: {
+    single: 14600,
+    "married-joint": 29200,
+    "married-separate": 14600,
+    "head-of-household": 21900,
+  },
+  ordinaryBrackets: {
+    single: [
+      { threshold: 0, rate: 10 },
+      { threshold: 11600, rate: 12 },
+      { threshold: 47150, rate: 22 },
+      { threshold: 100525, rate: 24 },
+      { threshold: 191950, rate: 32 },
+      { threshold: 243725, rate: 35 },
+      { threshold: 609350, rate: 37 },
+    ],
+    "married-joint": [
+      { threshold: 0, rate: 10 },
+      { threshold: 23200, rate: 12 },
+      { threshold: 94300, rate: 22 },
+      { threshold: 201050, rate: 24 },
+      { threshold: 383900, rate: 32 },
+      { threshold: 487450, rate: 35 },
+      { threshold: 731200, rate: 37 },
+    ],
+    "married-separate": [
+      { threshold: 0, rate: 10 },
+      { threshold: 11600, rate: 12 },
+      { threshold: 47150, rate: 22 },
+      { threshold: 100525, rate: 24 },
+      { threshold: 191950, rate: 32 },
+      { threshold: 243725, rate: 35 },
+      { threshold: 365600, rate: 37 },
+    ],
+    "head-of-household": [
+      { threshold: 0, rate: 10 },
+      { threshold: 16550, rate: 12 },
+      { threshold: 63100, rate: 22 },
+      { threshold: 100500, rate: 24 },
+      { threshold: 191950, rate: 32 },
+      { threshold: 243700, rate: 35 },
+      { threshold: 609350, rate: 37 },
+    ],
+  },
+  capitalGainsBrackets: {
+    single: [
+      { threshold: 0, rate: 0 },
+      { threshold: 47025, rate: 15 },
+      { threshold: 518900, rate: 20 },
+    ],
+    "married-joint": [
+      { threshold: 0, rate: 0 },
+      { threshold: 94050, rate: 15 },
+      { threshold: 583750, rate: 20 },
+    ],
+    "married-separate": [
+      { threshold: 0, rate: 0 },
+      { threshold: 47025, rate: 15 },
+      { threshold: 291850, rate: 20 },
+    ],
+    "head-of-household": [
+      { threshold: 0, rate: 0 },
+      { threshold: 63000, rate: 15 },
+      { threshold: 551350, rate: 20 },
+    ],
+  },
+};
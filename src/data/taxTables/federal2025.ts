@@ -0,0 +1,76 @@
+import { FederalTaxTable } from "@/data/taxTables";
+
+/**
+ * 2025 federal income tax brackets and standard deductions
+ * Source: IRS Revenue Procedure 2024-40, with the standard deductions raised
+ * by the One Big Beautiful Bill Act
+ */
+export const FEDERAL_2025: FederalTaxTable = {
+  taxYear: 2025,
+  standardDeduction: {
+    single: 15750,
+    "married-joint": 31500,
+    "married-separate": 15750,
+    "head-of-household": 23625,
+  },
+  ordinaryBrackets: {
+    single: [
+      { threshold: 0, rate: 10 },
+      { threshold: 11925, rate: 12 },
+      { threshold: 48475, rate: 22 },
+      { threshold: 103350, rate: 24 },
+      { threshold: 197300, rate: 32 },
+      { threshold: 250525, rate: 35 },
+      { threshold: 626350, rate: 37 },
+    ],
+    "married-joint": [
+      { threshold: 0, rate: 10 },
+      { threshold: 23850, rate: 12 },
+      { threshold: 96950, rate: 22 },
+      { threshold: 206700, rate: 24 },
+      { threshold: 394600, rate: 32 },
+      { threshold: 501050, rate: 35 },
+      { threshold: 751600, rate: 37 },
+    ],
+    "married-separate": [
+      { threshold: 0, rate: 10 },
+      { threshold: 11925, rate: 12 },
+      { threshold: 48475, rate: 22 },
+      { threshold: 103350, rate: 24 },
+      { threshold: 197300, rate: 32 },
+      { threshold: 250525, rate: 35 },
+      { threshold: 375800, rate: 37 },
+    ],
+    "head-of-household": [
+      { threshold: 0, rate: 10 },
+      { threshold: 17000, rate: 12 },
+      { threshold: 64850, rate: 22 },
+      { threshold: 103350, rate: 24 },
+      { threshold: 197300, rate: 32 },
+      { threshold: 250500, rate: 35 },
+      { threshold: 626350, rate: 37 },
+    ],
+  },
+  capitalGainsBrackets: {
+    single: [
+      { threshold: 0, rate: 0 },
+      { threshold: 48350, rate: 15 },
+      { threshold: 533400, rate: 20 },
+    ],
+    "married-joint": [
+      { threshold: 0, rate: 0 },
+      { threshold: 96700, rate: 15 },
+      { threshold: 600050, rate: 20 },
+    ],
+    "married-separate": [
+      { threshold: 0, rate: 0 },
+      { threshold: 48350, rate: 15 },
+      { threshold: 300000, rate: 20 },
+    ],
+    "head-of-household": [
+      { threshold: 0, rate: 0 },
+      { threshold: 64750, rate: 15 },
+      { threshold: 566700, rate: 20 },
+    ],
+  },
+};
@@ -0,0 +1,58 @@
+import { FilingStatus } from "@/types/calculator";
+import { FEDERAL_2024 } from "@/data/taxTables/federal2024";
+import { FEDERAL_2025 } from "@/data/taxTables/federal2025";
+import { STATE_2024 } from "@/data/taxTables/state2024";
+
+// Taxable income above the threshold (up to the next bracket's) is taxed at the rate
+export interface TaxBracket {
+  threshold: number;
+  rate: number; // Percent
+}
+
+/**
+ * Federal income tax parameters for one tax year, in that year's dollars
+ * Each year ships as its own file so tables can be added without touching
+ * the tax engine
+ */
+export interface FederalTaxTable {
+  taxYear: number;
+  standardDeduction: Record<FilingStatus, number>;
+  // Brackets for wages, pensions and tax-deferred withdrawals
+  ordinaryBrackets: Record<FilingStatus, TaxBracket[]>;
+  // Long-term capital gains and qualified dividend brackets, stacked on
+  // top of ordinary taxable income
+  capitalGainsBrackets: Record<FilingStatus, TaxBracket[]>;
+}
+
+// Oldest first; the last table is the default
+export const FEDERAL_TAX_TABLES: FederalTaxTable[] = [
+  FEDERAL_2024,
+  FEDERAL_2025,
+];
+
+interface StateTaxBase {
+  code: string;
+  name: string;
+  // Withdrawals from 401(k)s and IRAs, pensions and annuities aren't taxed
+  // by the state
+  exemptsRetirementIncome?: boolean;
+}
+
+export interface FlatStateTax extends StateTaxBase {
+  kind: "flat";
+  rate: number; // Percent
+}
+
+export interface BracketedStateTax extends StateTaxBase {
+  kind: "bracketed";
+  brackets: {
+    single: TaxBracket[];
+    "married-joint": TaxBracket[];
+  };
+}
+
+// A state's income tax: one rate on all income, or progressive brackets
+export type StateTaxTable = FlatStateTax | BracketedStateTax;
+
+// Sorted by state code
+export const STATE_TAX_TABLES: StateTaxTable[] = STATE_2024;
@@ -0,0 +1,174 @@
+import { StateTaxTable } from "@/data/taxTables";
+
+const noIncomeTax = (code: string, name: string): StateTaxTable => ({
+  code,
+  name,
+  kind: "flat",
+  rate: 0,
+});
+
+/**
+ * 2024 state income tax rates, in 2024 dollars
+ * States tax capital gains and dividends as ordinary income. Married couples
+ * filing jointly use the joint brackets; every other status uses the single
+ * brackets. State deductions and credits aren't modeled.
+ * Sources: each state's 2024 tax rate schedules
+ */
+export const STATE_2024: StateTaxTable[] = [
+  noIncomeTax("AK", "Alaska"),
+  { code: "AZ", name: "Arizona", kind: "flat", rate: 2.5 },
+  {
+    code: "CA",
+    name: "California",
+    kind: "bracketed",
+    // Includes the 1% mental health services tax above $1 million
+    brackets: {
+      single: [
+        { threshold: 0, rate: 1 },
+        { threshold: 10756, rate: 2 },
+        { threshold: 25499, rate: 4 },
+        { threshold: 40245, rate: 6 },
+        { threshold: 55866, rate: 8 },
+        { threshold: 70606, rate: 9.3 },
+        { threshold: 360659, rate: 10.3 },
+        { threshold: 432787, rate: 11.3 },
+        { threshold: 721314, rate: 12.3 },
+        { threshold: 1000000, rate: 13.3 },
+      ],
+      "married-joint": [
+        { threshold: 0, rate: 1 },
+        { threshold: 21512, rate: 2 },
+        { threshold: 50998, rate: 4 },
+        { threshold: 80490, rate: 6 },
+        { threshold: 111732, rate: 8 },
+        { threshold: 141212, rate: 9.3 },
+        { threshold: 721318, rate: 10.3 },
+        { threshold: 865574, rate: 11.3 },
+        { threshold: 1000000, rate: 12.3 },
+        { threshold: 1442628, rate: 13.3 },
+      ],
+    },
+  },
+  { code: "CO", name: "Colorado", kind: "flat", rate: 4.25 },
+  noIncomeTax("FL", "Florida"),
+  {
+    code: "IL",
+    name: "Illinois",
+    kind: "flat",
+    rate: 4.95,
+    exemptsRetirementIncome: true,
+  },
+  { code: "IN", name: "Indiana", kind: "flat", rate: 3.05 },
+  { code: "KY", name: "Kentucky", kind: "flat", rate: 4 },
+  { code: "MA", name: "Massachusetts", kind: "flat", rate: 5 },
+  { code: "MI", name: "Michigan", kind: "flat", rate: 4.25 },
+  {
+    code: "MN",
+    name: "Minnesota",
+    kind: "bracketed",
+    brackets: {
+      single: [
+        { threshold: 0, rate: 5.35 },
+        { threshold: 31690, rate: 6.8 },
+        { threshold: 104090, rate: 7.85 },
+        { threshold: 193240, rate: 9.85 },
+      ],
+      "married-joint": [
+        { threshold: 0, rate: 5.35 },
+        { threshold: 46330, rate: 6.8 },
+        { threshold: 184040, rate: 7.85 },
+        { threshold: 321450, rate: 9.85 },
+      ],
+    },
+  },
+  { code: "NC", name: "North Carolina", kind: "flat", rate: 4.5 },
+  noIncomeTax("NH", "New Hampshire"),
+  {
+    code: "NJ",
+    name: "New Jersey",
+    kind: "bracketed",
+    brackets: {
+      single: [
+        { threshold: 0, rate: 1.4 },
+        { threshold: 20000, rate: 1.75 },
+        { threshold: 35000, rate: 3.5 },
+        { threshold: 40000, rate: 5.525 },
+        { threshold: 75000, rate: 6.37 },
+        { threshold: 500000, rate: 8.97 },
+        { threshold: 1000000, rate: 10.75 },
+      ],
+      "married-joint": [
+        { threshold: 0, rate: 1.4 },
+        { threshold: 20000, rate: 1.75 },
+        { threshold: 50000, rate: 2.45 },
+        { threshold: 70000, rate: 3.5 },
+        { threshold: 80000, rate: 5.525 },
+        { threshold: 150000, rate: 6.37 },
+        { threshold: 500000, rate: 8.97 },
+        { threshold: 1000000, rate: 10.75 },
+      ],
+    },
+  },
+  noIncomeTax("NV", "Nevada"),
+  {
+    code: "NY",
+    name: "New York",
+    kind: "bracketed",
+    brackets: {
+      single: [
+        { threshold: 0, rate: 4 },
+        { threshold: 8500, rate: 4.5 },
+        { threshold: 11700, rate: 5.25 },
+        { threshold: 13900, rate: 5.5 },
+        { threshold: 80650, rate: 6 },
+        { threshold: 215400, rate: 6.85 },
+        { threshold: 1077550, rate: 9.65 },
+        { threshold: 5000000, rate: 10.3 },
+        { threshold: 25000000, rate: 10.9 },
+      ],
+      "married-joint": [
+        { threshold: 0, rate: 4 },
+        { threshold: 17150, rate: 4.5 },
+        { threshold: 23600, rate: 5.25 },
+        { threshold: 27900, rate: 5.5 },
+        { threshold: 161550, rate: 6 },
+        { threshold: 323200, rate: 6.85 },
+        { threshold: 2155350, rate: 9.65 },
+        { threshold: 5000000, rate: 10.3 },
+        { threshold: 25000000, rate: 10.9 },
+      ],
+    },
+  },
+  {
+    code: "OR",
+    name: "Oregon",
+    kind: "bracketed",
+    brackets: {
+      single: [
+        { threshold: 0, rate: 4.75 },
+        { threshold: 4300, rate: 6.75 },
+        { threshold: 10750, rate: 8.75 },
+        { threshold: 125000, rate: 9.9 },
+      ],
+      "married-joint": [
+        { threshold: 0, rate: 4.75 },
+        { threshold: 8600, rate: 6.75 },
+        { threshold: 21500, rate: 8.75 },
+        { threshold: 250000, rate: 9.9 },
+      ],
+    },
+  },
+  {
+    code: "PA",
+    name: "Pennsylvania",
+    kind: "flat",
+    rate: 3.07,
+    exemptsRetirementIncome: true,
+  },
+  noIncomeTax("SD", "South Dakota"),
+  noIncomeTax("TN", "Tennessee"),
+  noIncomeTax("TX", "Texas"),
+  { code: "UT", name: "Utah", kind: "flat", rate: 4.55 },
+  noIncomeTax("WA", "Washington"),
+  noIncomeTax("WY", "Wyoming"),
+];
@@ -1,4 +1,6 @@
 export interface CalculatorInputs {
+  // The user's age today; required minimum distributions need it
+  currentAge?: number;
   initialInvestment: number;
   monthlyContribution: number;
   annualContributionIncrease: number;
@@ -6,25 +8,35 @@ export interface CalculatorInputs {
   expectedAnnualReturn: number;
   returnVolatility: number;
   inflationRate: number;
-  taxRate: {
-    income: number;
-    dividends: number;
-    capitalGains: number;
-  };
+  // Rates applied while working and saving
+  taxRate: TaxRates;
+  // Rates applied during the retirement phase; defaults to taxRate
+  retirementTaxRate?: TaxRates;
+  // Progressive federal brackets for retirement withdrawals; when enabled they
+  // replace the flat retirement income and capital gains rates
+  federalTax?: FederalTaxSettings;
+  // Code of the bundled state tax table to apply in both phases; no state
+  // income tax when omitted
+  state?: string;
   fees: {
     expenseRatio: number;
     advisoryFee: number;
   };
+  // Annual dividends as a percent of the taxable balance; defaults to 2%
+  dividendYield?: number;
   accountType: "taxable" | "tax-deferred" | "tax-free" | "mixed";
+  // Percent of new money going to each account in mixed mode, summing to 100
   accountAllocation: {
     taxDeferred: number;
     taxFree: number;
+    taxable: number;
   };
-  assetAllocation: {
-    stocks: number;
-    bonds: number;
-    cash: number;
-  };
+  assetAllocation: AssetAllocation;
+  // Per-asset-class assumptions; when enabled, the allocation drives the
+  // expected return and volatility instead of the values above
+  capitalMarketAssumptions?: CapitalMarketAssumptions;
+  // Shifts the asset allocation over time, starting from assetAllocation
+  glidePath?: GlidePath;
   // Retirement planning properties
   retirementPhase: {
     enabled: boolean;
@@ -34,9 +46,267 @@ export interface CalculatorInputs {
     retirementYears: number;
     retirementReturn: number;
     withdrawalStartYear?: number; // Optional property that defaults to investmentHorizon
+    // How each retirement year's withdrawal is set; defaults to the fixed
+    // annualWithdrawal
+    withdrawalStrategy?: WithdrawalStrategySettings;
+    // Treat the strategy's withdrawal as after-tax spending and withdraw
+    // enough more to cover the tax on it
+    grossUpWithdrawals?: boolean;
+  };
+  // Converts tax-deferred savings to tax-free during retirement
+  rothConversion?: RothConversionPlan;
+  // Social Security, pensions and other income received in retirement
+  incomeStreams?: IncomeStream[];
+  // Overrides, breaks, a stop age, bonuses and IRS limits for contributions
+  contributionSchedule?: ContributionSchedule;
+  // Employer 401(k) match on the employee's tax-advantaged contributions
+  employerMatch?: EmployerMatch;
+  // One-off and recurring deposits and withdrawals, in both phases
+  cashFlowEvents?: CashFlowEvent[];
+  // Compares Social Security claiming ages 62-70 for the retirement phase
+  socialSecurityClaiming?: SocialSecurityClaiming;
+  // Finds the largest withdrawal that lasts at a confidence level
+  safeWithdrawal?: SafeWithdrawalSettings;
+  // Which accounts withdrawals are drawn from, in both phases; defaults to
+  // Taxable -> Tax-Free -> Tax-Deferred
+  withdrawalOrder?: WithdrawalOrder;
+  // Seed for the pseudo-random number generator; a random seed is used when omitted
+  seed?: number;
+  // Calendar year the plan starts in, which dates birth years and claiming
+  // ages; the year of the run is used when omitted
+  currentYear?: number;
+  // Distribution used for simulated returns; defaults to normal
+  returnModel?: ReturnModel;
+  // Also replay the plan over every rolling window of historical market data
+  historicalBacktest?: boolean;
+}
+
+// Flat tax rates in percent
+export interface TaxRates {
+  income: number;
+  dividends: number;
+  capitalGains: number;
+}
+
+export type FilingStatus =
+  "single" | "married-joint" | "married-separate" | "head-of-household";
+
+export type WithdrawalStrategyType =
+  | "fixed"
+  | "constant-percentage"
+  | "guyton-klinger"
+  | "vanguard-dynamic"
+  | "vpw"
+  | "rmd";
+
+export interface WithdrawalStrategySettings {
+  type: WithdrawalStrategyType;
+  // Constant percentage and Vanguard dynamic: percent of the balance to spend
+  withdrawalRate?: number;
+  // Guyton-Klinger: percent the withdrawal rate may drift above or below the
+  // initial rate before spending is cut or raised
+  upperGuardrail?: number;
+  lowerGuardrail?: number;
+  // Guyton-Klinger: percent spending is cut or raised when a guardrail is hit
+  guardrailAdjustment?: number;
+  // Vanguard dynamic: most the withdrawal may rise or fall in a year (real, percent)
+  ceiling?: number;
+  floor?: number;
+  // VPW: real annual return (percent) the remaining balance is amortized at
+  realReturn?: number;
+}
+
+export type AccountBucket = "taxDeferred" | "taxFree" | "taxable";
+
+export type WithdrawalOrderType = "sequence" | "proportional" | "bracket-fill";
+
+export interface WithdrawalOrder {
+  type: WithdrawalOrderType;
+  // Accounts drawn in turn, each until it's empty; bracket fill uses it for
+  // whatever the tax-deferred draw doesn't cover
+  sequence: AccountBucket[];
+  // Bracket fill: draw from tax-deferred first until the year's ordinary
+  // income reaches the top of the federal bracket with this rate (percent)
+  targetBracketRate: number;
+}
+
+export type IncomeStreamType =
+  "social-security" | "pension" | "annuity" | "rental";
+
+export interface IncomeStream {
+  type: IncomeStreamType;
+  name: string;
+  // Annual payment. Social Security: the benefit at full retirement age in
+  // today's dollars; other streams: the payment in their first year
+  annualAmount: number;
+  // Annual increase in percent. Social Security's COLA applies from today,
+  // other streams' from their first payment
+  cola: number;
+  // Retirement years (0 = first year) the stream pays in, inclusive; without
+  // an end year it pays for life
+  startYear: number;
+  endYear?: number;
+  // Social Security: age benefits are claimed at (62-70), which sets the
+  // benefit and, when the current age is known, the start year
+  claimingAge?: number;
+}
+
+export interface ContributionSchedule {
+  enabled: boolean;
+  // Monthly contribution for a plan year, replacing the grown amount
+  overrides: Array<{ year: number; monthlyContribution: number }>;
+  // Career breaks: no contributions for `years` years from startYear
+  breaks: Array<{ startYear: number; years: number }>;
+  // Contributions stop in the year this age is reached (needs currentAge)
+  stopAge?: number;
+  // Lump sum added each December, such as a bonus; grows with the annual
+  // contribution increase
+  annualBonus: number;
+  // Cap tax-deferred and tax-free contributions at the IRS limits and send
+  // the overflow to the taxable account
+  applyContributionLimits: boolean;
+}
+
+export interface MatchTier {
+  // Percent of the employee's contribution the employer adds
+  matchRate: number;
+  // Slice of salary the tier covers, in percent
+  salaryPercent: number;
+}
+
+export type VestingType = "immediate" | "cliff" | "graded";
+
+export interface EmployerMatch {
+  enabled: boolean;
+  // Annual salary today and its yearly growth in percent
+  salary: number;
+  salaryGrowth: number;
+  // Tiers match successive slices of salary contributed, in order
+  tiers: MatchTier[];
+  // Most the employer adds in a year; no cap when omitted
+  annualCap?: number;
+  vesting: VestingType;
+  // Cliff: years of service until fully vested; graded: years to vest
+  // evenly over
+  vestingYears: number;
+  // Years already worked for the employer
+  yearsOfService: number;
+}
+
+export interface CashFlowEvent {
+  name: string;
+  // Positive amounts are deposited (an inheritance), negative amounts are
+  // withdrawn (a house down payment)
+  amount: number;
+  // Plan year counted from today across both phases (0 = first year), and
+  // month of that year (1-12)
+  year: number;
+  month: number;
+  // Repeats every this many years; 0 for a one-off event
+  recurringInterval: number;
+  // Amount is in today's dollars and grows with inflation
+  inflationIndexed: boolean;
+  // Account deposited to or withdrawn from first; without one, deposits are
+  // split by the account allocation and withdrawals follow the withdrawal
+  // order
+  account?: AccountBucket;
+}
+
+// One person's Social Security record; amounts in today's dollars
+export interface SocialSecurityRecord {
+  // Monthly benefit at full retirement age
+  primaryInsuranceAmount: number;
+  birthYear: number;
+}
+
+export interface SocialSecurityClaiming {
+  enabled: boolean;
+  worker: SocialSecurityRecord;
+  // Annual COLA in percent, applied from today
+  cola: number;
+  // A spouse claims at a fixed age while the worker's age is varied
+  includeSpouse: boolean;
+  spouse: SocialSecurityRecord & { claimingAge: number };
+}
+
+export type RothConversionStrategy = "fixed" | "fill-bracket";
+
+export interface RothConversionPlan {
+  enabled: boolean;
+  strategy: RothConversionStrategy;
+  // Fixed strategy: amount converted each year
+  annualAmount: number;
+  // Fill strategy: convert until ordinary income reaches the top of the
+  // federal bracket with this rate (percent)
+  targetBracketRate: number;
+  // Retirement years (0 = first year) conversions happen in, inclusive
+  startYear: number;
+  endYear: number;
+  // Pay the conversion tax from the taxable account, or withhold it from
+  // the converted amount
+  taxSource: "taxable" | "converted";
+}
+
+export interface FederalTaxSettings {
+  enabled: boolean;
+  filingStatus: FilingStatus;
+  // Year of the bundled bracket table; defaults to the latest
+  taxYear?: number;
+}
+
+// Per-account state: balances plus the taxable account's cost basis
+export interface AccountBalances {
+  taxDeferred: number;
+  taxFree: number;
+  taxable: number;
+  // Cost basis of the taxable account: contributions plus reinvested dividends
+  taxableBasis: number;
+}
+
+export type AssetClass = "stocks" | "bonds" | "cash";
+
+// Portfolio weights in percent, summing to 100
+export type AssetAllocation = Record<AssetClass, number>;
+
+export interface AssetClassAssumptions {
+  expectedReturn: number; // Annual, percent
+  volatility: number; // Annual standard deviation, percent
+}
+
+export interface CapitalMarketAssumptions {
+  enabled: boolean;
+  assetClasses: Record<AssetClass, AssetClassAssumptions>;
+  // Pairwise correlations between asset class returns (-1 to 1)
+  correlations: {
+    stocksBonds: number;
+    stocksCash: number;
+    bondsCash: number;
   };
 }
 
+export type GlidePathCurve = "linear" | "step" | "custom";
+
+export interface GlidePath {
+  enabled: boolean;
+  curve: GlidePathCurve;
+  // Mix reached at the end of the investment horizon
+  endAllocation: AssetAllocation;
+  // Mix reached at the end of retirement; the end allocation is held if omitted
+  retirementEndAllocation?: AssetAllocation;
+  // Step curve only: years between allocation changes
+  stepYears?: number;
+  // Custom curve only: allocation for each plan year, the last row is held
+  customAllocations?: AssetAllocation[];
+}
+
+export type ReturnDistribution = "normal" | "lognormal" | "student-t";
+
+// Shape of simulated returns; volatility always sets the standard deviation
+export interface ReturnModel {
+  distribution: ReturnDistribution;
+  degreesOfFreedom?: number; // Student-t only, must be above 2
+}
+
 export interface CalculatorResults {
   summary: {
     finalBalance: number;
@@ -44,6 +314,12 @@ export interface CalculatorResults {
     totalGrowth: number;
     inflationAdjustedValue: number;
     totalWithdrawals?: number;
+    // Net cash-flow events: deposits less withdrawals
+    totalCashFlows?: number;
+    // Vested employer match ("free money") and the unvested match forfeited
+    // when employment ends
+    totalEmployerContributions?: number;
+    forfeitedEmployerContributions?: number;
     totalTaxesPaid?: number;
   };
   probabilityMetrics: {
@@ -68,15 +344,54 @@ export interface CalculatorResults {
     // Added for withdrawal phase
     withdrawalTaxes?: number;
     remainingYears?: number;
+    // Net cash-flow events: deposits less withdrawals
+    cashFlows: number;
+    // Contributions redirected to the taxable account by the IRS limits
+    contributionOverflow: number;
+    // Employer match added to the tax-deferred account; contributions are
+    // the employee's own
+    employerContributions: number;
+    // The year's taxes split by government; they sum to taxes
+    federalTaxes: number;
+    stateTaxes: number;
+    // Asset allocation used for the year's returns
+    allocation: AssetAllocation;
+    // Taxable account cost basis and unrealized gain at year end
+    taxableBasis: number;
+    unrealizedGain: number;
   }>;
   // New field for separate retirement phase results
   retirementPhaseResults?: RetirementPhaseResults;
+  // Per-account state at the end of the investment horizon
+  accountBalances: AccountBalances;
+  // Tax rates the projection was calculated with
+  appliedTaxRates: {
+    accumulation: TaxRates;
+    retirement?: TaxRates;
+    // Code of the state whose income tax was applied
+    state?: string;
+    // Bracket table used for retirement withdrawals, when enabled
+    federalTax?: {
+      filingStatus: FilingStatus;
+      taxYear: number;
+    };
+  };
+  // Seed and start year that produced these results, so the run can be
+  // replayed exactly
+  seed: number;
+  currentYear: number;
+  // Per-start-year outcomes when historical backtesting is enabled
+  historicalAnalysis?: HistoricalAnalysis;
 }
 
 // New interface for retirement phase calculations
 export interface RetirementPhaseResults {
   summary: {
     startingBalance: number;
+    startingBalances: AccountBalances;
+    // Age required minimum distributions begin, when the current age is known
+    rmdStartAge?: number;
+    totalConverted: number;
     totalWithdrawals: number;
     totalGrowth: number;
     finalBalance: number;
@@ -91,19 +406,128 @@ export interface RetirementPhaseResults {
     worstCaseBalance: number;
     bestCaseBalance: number;
   };
+  // Retirement outcomes for each age the worker could claim Social Security
+  claimingAnalysis?: ClaimingAnalysis;
+  // Largest withdrawal meeting the confidence level, with the success rate
+  // curve it was found on
+  safeWithdrawalAnalysis?: SafeWithdrawalAnalysis;
+  // The same market path with and without the Roth conversion plan
+  rothConversionComparison?: {
+    withConversions: RothConversionOutcome;
+    withoutConversions: RothConversionOutcome;
+  };
   yearByYearDetails: Array<{
     year: number;
     startingBalance: number;
     withdrawals: number;
+    cumulativeWithdrawals: number;
     earnings: number;
     fees: number;
     taxes: number;
     endingBalance: number;
     inflationAdjustedValue: number;
     withdrawalTaxes: number;
+    federalTaxes: number;
+    stateTaxes: number;
+    // Age during the year, when the current age is known
+    age?: number;
+    // The year's withdrawals split by the account they came from
+    withdrawalsByAccount: Record<AccountBucket, number>;
+    // Each income stream's payment, in the order of incomeStreams, and their total
+    incomeStreams: number[];
+    streamIncome: number;
+    // Spending the withdrawals and income streams leave after their own tax;
+    // tax on RMDs, conversions and cash-flow events is left out
+    netSpending: number;
+    // Net cash-flow events: deposits less withdrawals
+    cashFlows: number;
+    // Required minimum distribution from the tax-deferred account
+    requiredMinimumDistribution: number;
+    // Part of the RMD beyond spending, moved to the taxable account after
+    // its tax
+    rmdReinvested: number;
+    // The RMD forced more out of the tax-deferred account than spending did
+    rmdDriven: boolean;
+    // Amount moved from tax-deferred to tax-free, and the tax it cost
+    rothConversion: number;
+    conversionTaxes: number;
+    allocation: AssetAllocation;
+    taxableBasis: number;
+    unrealizedGain: number;
   }>;
 }
 
+export interface RothConversionOutcome {
+  totalConverted: number;
+  // Taxes paid over the retirement period
+  lifetimeTaxes: number;
+  endingBalance: number;
+  // Ending accounts net of the tax still owed on them
+  afterTaxEndingWealth: number;
+}
+
+export interface ClaimingOption {
+  claimingAge: number;
+  // Worker's annual benefit in today's dollars
+  annualBenefit: number;
+  // Spouse's annual benefit once the spousal benefit starts, in today's
+  // dollars (0 without a spouse)
+  spouseAnnualBenefit: number;
+  successRate: number;
+  medianEndingBalance: number;
+}
+
+export interface ClaimingAnalysis {
+  options: ClaimingOption[];
+  // Claiming ages with the highest success rate (ties go to the higher
+  // median ending balance) and the highest median ending balance
+  bestForSuccessRate: number;
+  bestForMedianWealth: number;
+}
+
+export interface SafeWithdrawalSettings {
+  enabled: boolean;
+  // Share of market scenarios the withdrawal must last through, in percent
+  confidenceLevel: number;
+}
+
+export interface SafeWithdrawalPoint {
+  // First-year withdrawal as a percent of the starting balance
+  withdrawalRate: number;
+  annualWithdrawal: number;
+  successRate: number;
+}
+
+export interface SafeWithdrawalAnalysis {
+  confidenceLevel: number;
+  // Largest first-year withdrawal that lasts through the retirement period
+  // in at least confidenceLevel percent of scenarios, in dollars and as a
+  // percent of the starting balance
+  safeWithdrawal: number;
+  safeWithdrawalRate: number;
+  curve: SafeWithdrawalPoint[];
+}
+
+// Outcome of running the plan through one historical window
+export interface HistoricalCohort {
+  startYear: number;
+  endYear: number;
+  accumulationBalance: number;
+  accumulationRealBalance: number; // In start-year dollars
+  retirementEndingBalance?: number;
+  retirementRealBalance?: number; // In start-year dollars
+  yearsOfIncome?: number;
+  success: boolean; // Money never ran out during the window
+}
+
+export interface HistoricalAnalysis {
+  windowYears: number;
+  cohorts: HistoricalCohort[];
+  successRate: number;
+  worstCohort?: HistoricalCohort;
+  bestCohort?: HistoricalCohort;
+}
+
 export interface ChartData {
   year: number;
   balance: number;
@@ -129,3 +553,75 @@ export interface SequenceRiskAnalysis {
   medianScenario: number;
   successRate: number; // Percentage of scenarios where money doesn't run out
 }
+
+// Goal solver: the outcome to reach and the input solved for
+export type GoalTarget = "final-balance" | "real-balance" | "success-rate";
+
+export type GoalVariable =
+  | "monthlyContribution"
+  | "initialInvestment"
+  | "expectedAnnualReturn"
+  | "investmentHorizon"
+  | "annualWithdrawal";
+
+export interface GoalSolverSettings {
+  target: GoalTarget;
+  // Dollars for the balance targets, percent for the success rate
+  targetValue: number;
+  variable: GoalVariable;
+}
+
+export interface GoalSolution {
+  settings: GoalSolverSettings;
+  // Value of the variable that reaches the target; undefined when no value
+  // in the search range does
+  value?: number;
+  // Outcome at the solved value, or the closest the search range gets, in
+  // the target's units
+  outcome: number;
+  // Projections the search ran with the solver's smaller Monte Carlo
+  evaluations: number;
+  // Projections with the full Monte Carlo that bracket and narrow the
+  // search's answer and give the outcome
+  refinements: number;
+  seed: number;
+  currentYear: number;
+}
+
+// Scenario comparison: named input sets run side by side
+export interface SavedScenario {
+  // Stays with the scenario while others are removed or renamed
+  id: number;
+  name: string;
+  inputs: CalculatorInputs;
+}
+
+export interface ScenarioMetrics {
+  finalBalance: number;
+  inflationAdjustedValue: number;
+  // Share of trials that don't run out of money while saving
+  accumulationSuccessRate: number;
+  // Share of retirement trials that last; undefined without a retirement
+  // phase
+  retirementSuccessRate?: number;
+  // Taxes and fees over both phases
+  totalTaxes: number;
+  totalFees: number;
+}
+
+export interface ScenarioOutcome {
+  // Id of the scenario it was run from
+  id: number;
+  name: string;
+  // Year the scenario's plan starts in, kept from when it was saved
+  currentYear: number;
+  metrics: ScenarioMetrics;
+  // Ending balance of each plan year, through accumulation and retirement
+  balances: number[];
+}
+
+export interface ScenarioComparison {
+  // Seed every scenario was run with
+  seed: number;
+  outcomes: ScenarioOutcome[];
+}
@@ -0,0 +1,16 @@
+import { createCalculationRunner } from "@/utils/calculationRunner";
+import { baseInputs } from "@/utils/__tests__/fixtures";
+
+jest.mock("@/utils/calculationRequests", () => ({
+  ...jest.requireActual("@/utils/calculationRequests"),
+  runCalculation: () => {
+    throw new Error("Out of memory");
+  },
+}));
+
+describe("createCalculationRunner", () => {
+  it("rejects a request that throws on the page", async () => {
+    const runner = createCalculationRunner();
+    await expect(runner.calculate(baseInputs)).rejects.toThrow("Out of memory");
+  });
+});
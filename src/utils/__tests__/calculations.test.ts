@@ -0,0 +1,185 @@
+import { AccountBalances, CalculatorInputs } from "@/types/calculator";
+import {
+  DEFAULT_SAFE_WITHDRAWAL,
+  SAFE_WITHDRAWAL_SIMULATIONS,
+  calculateMonthlyCompoundInterest,
+  calculateRetirementPhase,
+} from "@/utils/calculations";
+import { DEFAULT_WITHDRAWAL_STRATEGY } from "@/utils/withdrawalStrategies";
+import { baseInputs as inputs } from "@/utils/__tests__/fixtures";
+
+const startingBalances: AccountBalances = {
+  taxDeferred: 600000,
+  taxFree: 200000,
+  taxable: 200000,
+  taxableBasis: 150000,
+};
+
+const successRateAt = (
+  annualWithdrawal: number,
+  overrides: Partial<CalculatorInputs> = {},
+  simulations = 100
+) =>
+  calculateRetirementPhase(
+    {
+      ...inputs,
+      ...overrides,
+      retirementPhase: { ...inputs.retirementPhase, annualWithdrawal },
+    },
+    startingBalances,
+    1,
+    simulations
+  ).probabilityMetrics.successRate;
+
+describe("retirement success rate", () => {
+  it("never rises as the withdrawal rises", () => {
+    let previous = 1;
+    for (let withdrawal = 40000; withdrawal <= 46000; withdrawal += 500) {
+      const successRate = successRateAt(withdrawal);
+      expect(successRate).toBeLessThanOrEqual(previous);
+      previous = successRate;
+    }
+  });
+
+  it("never rises with fat-tailed returns, which draw a varying number of values", () => {
+    const returnModel = {
+      distribution: "student-t" as const,
+      degreesOfFreedom: 4,
+    };
+    let previous = 1;
+    for (let withdrawal = 40000; withdrawal <= 46000; withdrawal += 1000) {
+      const successRate = successRateAt(withdrawal, { returnModel });
+      expect(successRate).toBeLessThanOrEqual(previous);
+      previous = successRate;
+    }
+  });
+});
+
+describe("safe withdrawal analysis", () => {
+  // The headline trials are cut to 100; the analysis runs its own count
+  const analyze = (
+    confidenceLevel: number,
+    overrides: Partial<CalculatorInputs> = {}
+  ) =>
+    calculateRetirementPhase(
+      {
+        ...inputs,
+        ...overrides,
+        safeWithdrawal: {
+          ...DEFAULT_SAFE_WITHDRAWAL,
+          enabled: true,
+          confidenceLevel,
+        },
+      },
+      startingBalances,
+      1,
+      100
+    ).safeWithdrawalAnalysis;
+
+  const safeWithdrawal = (confidenceLevel: number) => {
+    const analysis = analyze(confidenceLevel);
+    if (!analysis) {
+      throw new Error("Expected a safe withdrawal analysis");
+    }
+    return analysis;
+  };
+
+  it("finds the largest withdrawal that meets the confidence level", () => {
+    const analysis = safeWithdrawal(90);
+    const successRateOnSameTrials = (annualWithdrawal: number) =>
+      successRateAt(annualWithdrawal, {}, SAFE_WITHDRAWAL_SIMULATIONS);
+
+    // The search stops within a hundredth of a percent of the balance
+    expect(
+      successRateOnSameTrials(analysis.safeWithdrawal)
+    ).toBeGreaterThanOrEqual(0.9);
+    expect(successRateOnSameTrials(analysis.safeWithdrawal + 100)).toBeLessThan(
+      0.9
+    );
+    expect(analysis.safeWithdrawalRate).toBeCloseTo(
+      analysis.safeWithdrawal / 10000
+    );
+
+    // The curve brackets the answer between its last passing rate and its
+    // first failing one
+    analysis.curve.forEach((point, index) => {
+      if (index > 0) {
+        expect(point.successRate).toBeLessThanOrEqual(
+          analysis.curve[index - 1].successRate
+        );
+      }
+      if (point.successRate >= 0.9) {
+        expect(analysis.safeWithdrawalRate).toBeGreaterThanOrEqual(
+          point.withdrawalRate
+        );
+      } else {
+        expect(analysis.safeWithdrawalRate).toBeLessThan(point.withdrawalRate);
+      }
+    });
+  });
+
+  it("allows less spending at a higher confidence level", () => {
+    expect(safeWithdrawal(95).safeWithdrawal).toBeLessThanOrEqual(
+      safeWithdrawal(80).safeWithdrawal
+    );
+  });
+
+  it("is left out for strategies that size the withdrawal to the balance", () => {
+    expect(
+      analyze(90, {
+        retirementPhase: {
+          ...inputs.retirementPhase,
+          withdrawalStrategy: { ...DEFAULT_WITHDRAWAL_STRATEGY, type: "vpw" },
+        },
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("seeded runs", () => {
+  it("reproduce exactly from the same seed", () => {
+    const first = calculateMonthlyCompoundInterest(inputs, 100);
+    const second = calculateMonthlyCompoundInterest(inputs, 100);
+
+    expect(second.summary.finalBalance).toBe(first.summary.finalBalance);
+    expect(second.probabilityMetrics.median).toBe(
+      first.probabilityMetrics.median
+    );
+    expect(second.retirementPhaseResults?.probabilityMetrics.successRate).toBe(
+      first.retirementPhaseResults?.probabilityMetrics.successRate
+    );
+  });
+
+  it("date birth years from the pinned start year", () => {
+    const results = calculateMonthlyCompoundInterest(
+      { ...inputs, currentAge: 40, investmentHorizon: 25 },
+      50
+    );
+    expect(results.currentYear).toBe(2025);
+    expect(results.retirementPhaseResults?.summary.rmdStartAge).toBe(75);
+
+    const earlier = calculateMonthlyCompoundInterest(
+      { ...inputs, currentAge: 40, investmentHorizon: 25, currentYear: 1995 },
+      50
+    );
+    expect(earlier.currentYear).toBe(1995);
+    expect(earlier.retirementPhaseResults?.summary.rmdStartAge).toBe(73);
+  });
+
+  it("keep the headline projection whatever the number of trials", () => {
+    expect(
+      calculateMonthlyCompoundInterest(inputs, 50).summary.finalBalance
+    ).toBe(calculateMonthlyCompoundInterest(inputs, 200).summary.finalBalance);
+  });
+
+  it("give a retirement success rate that holds steady across seeds", () => {
+    const successRates = [1, 2, 3, 4].map(
+      (seed) =>
+        calculateMonthlyCompoundInterest({ ...inputs, seed }, 200)
+          .retirementPhaseResults?.probabilityMetrics.successRate ?? 0
+    );
+    expect(Math.max(...successRates) - Math.min(...successRates)).toBeLessThan(
+      0.1
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { CashFlowEvent } from "@/types/calculator";
+import {
+  DEFAULT_CASH_FLOW_EVENT,
+  cashFlowsForMonth,
+  eventOccursInYear,
+} from "@/utils/cashFlows";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+const tuition: CashFlowEvent = {
+  name: "Tuition",
+  amount: -20000,
+  year: 10,
+  month: 9,
+  recurringInterval: 1,
+  inflationIndexed: false,
+};
+
+describe("eventOccursInYear", () => {
+  it("falls once in its year without an interval", () => {
+    expect(eventOccursInYear(DEFAULT_CASH_FLOW_EVENT, 6)).toBe(false);
+    expect(eventOccursInYear(DEFAULT_CASH_FLOW_EVENT, 7)).toBe(true);
+    expect(eventOccursInYear(DEFAULT_CASH_FLOW_EVENT, 8)).toBe(false);
+  });
+
+  it("repeats every interval from its first year", () => {
+    const everyThree = { ...tuition, recurringInterval: 3 };
+    expect(eventOccursInYear(everyThree, 7)).toBe(false);
+    expect(eventOccursInYear(everyThree, 10)).toBe(true);
+    expect(eventOccursInYear(everyThree, 12)).toBe(false);
+    expect(eventOccursInYear(everyThree, 13)).toBe(true);
+  });
+});
+
+describe("cashFlowsForMonth", () => {
+  const inputs = testInputs({
+    cashFlowEvents: [DEFAULT_CASH_FLOW_EVENT, tuition],
+  });
+
+  it("returns the events due that month", () => {
+    expect(cashFlowsForMonth(inputs, 7, 9, 1)).toEqual([]);
+    expect(cashFlowsForMonth(inputs, 11, 9, 1)).toEqual([
+      { event: tuition, amount: -20000 },
+    ]);
+  });
+
+  it("only grows indexed amounts with inflation", () => {
+    expect(cashFlowsForMonth(inputs, 7, 1, 1.2)).toEqual([
+      { event: DEFAULT_CASH_FLOW_EVENT, amount: -72000 },
+    ]);
+    expect(cashFlowsForMonth(inputs, 10, 9, 1.2)).toEqual([
+      { event: tuition, amount: -20000 },
+    ]);
+  });
+
+  it("has nothing to add without events", () => {
+    expect(cashFlowsForMonth(testInputs(), 7, 1, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { AccountBalances } from "@/types/calculator";
+import {
+  DEFAULT_CONTRIBUTION_SCHEDULE,
+  contributionRoom,
+  contributionsPaused,
+  limitContribution,
+} from "@/utils/contributions";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+const inputs = testInputs({
+  initialInvestment: 0,
+  monthlyContribution: 4000,
+  annualContributionIncrease: 0,
+  accountAllocation: { taxDeferred: 50, taxFree: 50, taxable: 0 },
+  contributionSchedule: { ...DEFAULT_CONTRIBUTION_SCHEDULE, enabled: true },
+});
+
+const split = (taxDeferred: number, taxFree: number): AccountBalances => ({
+  taxDeferred,
+  taxFree,
+  taxable: 0,
+  taxableBasis: 0,
+});
+
+describe("limitContribution", () => {
+  it("shares the 401(k) limit between tax-deferred and tax-free savings", () => {
+    const room = contributionRoom(inputs, 0, 1);
+    const contribution = split(20000, 20000);
+    const { overflow, electiveDeferral } = limitContribution(
+      contribution,
+      room
+    );
+
+    // 20,000 tax-deferred and 7,000 Roth IRA leave 3,500 of 401(k) room
+    expect(contribution.taxDeferred).toBe(20000);
+    expect(contribution.taxFree).toBe(10500);
+    expect(electiveDeferral).toBe(23500);
+    expect(overflow).toBe(9500);
+    expect(contribution.taxable).toBe(9500);
+    expect(contribution.taxableBasis).toBe(9500);
+  });
+
+  it("counts all tax-free savings as 401(k) deferrals without limits", () => {
+    const room = contributionRoom(
+      {
+        ...inputs,
+        contributionSchedule: {
+          ...DEFAULT_CONTRIBUTION_SCHEDULE,
+          enabled: true,
+          applyContributionLimits: false,
+        },
+      },
+      0,
+      1
+    );
+    const { overflow, electiveDeferral } = limitContribution(
+      split(20000, 20000),
+      room
+    );
+
+    expect(overflow).toBe(0);
+    expect(electiveDeferral).toBe(40000);
+  });
+
+  it("adds the catch-up amounts from age 50", () => {
+    const room = contributionRoom(inputs, 15, 1);
+    expect(room).toEqual({ electiveDeferral: 31000, rothIra: 8000 });
+  });
+});
+
+describe("contributionsPaused", () => {
+  const stopAt = (currentAge?: number) =>
+    contributionsPaused(
+      {
+        ...inputs,
+        currentAge,
+        contributionSchedule: {
+          ...DEFAULT_CONTRIBUTION_SCHEDULE,
+          enabled: true,
+          stopAge: 40,
+        },
+      },
+      5
+    );
+
+  it("pauses once the stop age is reached", () => {
+    expect(stopAt(35)).toBe(true);
+    expect(stopAt(34)).toBe(false);
+  });
+
+  it("ignores the stop age without a current age", () => {
+    expect(stopAt(undefined)).toBe(false);
+  });
+});
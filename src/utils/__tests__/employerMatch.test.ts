@@ -0,0 +1,73 @@
+import { EmployerMatch } from "@/types/calculator";
+import { DEFAULT_CONTRIBUTION_SCHEDULE } from "@/utils/contributions";
+import { calculateMonthlyCompoundInterest } from "@/utils/calculations";
+import {
+  DEFAULT_EMPLOYER_MATCH,
+  employerMatchForContribution,
+  vestedShare,
+} from "@/utils/employerMatch";
+import { steadyInputs } from "@/utils/__tests__/fixtures";
+
+const match: EmployerMatch = {
+  ...DEFAULT_EMPLOYER_MATCH,
+  enabled: true,
+  salary: 120000,
+  salaryGrowth: 0,
+  vesting: "immediate",
+};
+
+describe("employerMatchForContribution", () => {
+  it("matches each tier's slice of salary at its rate", () => {
+    // 3% of a 10,000 paycheck matched in full, the next 2% at half
+    expect(employerMatchForContribution(match, 500, 10000)).toBe(400);
+    expect(employerMatchForContribution(match, 400, 10000)).toBe(350);
+    expect(employerMatchForContribution(match, 200, 10000)).toBe(200);
+  });
+});
+
+describe("vestedShare", () => {
+  it("vests all at the cliff or a share a year when graded", () => {
+    const cliff = { ...match, vesting: "cliff" as const, vestingYears: 3 };
+    const graded = { ...match, vesting: "graded" as const, vestingYears: 4 };
+
+    expect(vestedShare(cliff, 2)).toBe(0);
+    expect(vestedShare(cliff, 3)).toBe(1);
+    expect(vestedShare(graded, 1)).toBe(0.25);
+    expect(vestedShare(graded, 6)).toBe(1);
+    expect(vestedShare(match, 0)).toBe(1);
+  });
+});
+
+describe("employer match in the projection", () => {
+  const firstYearMatch = (monthlyContribution: number) =>
+    calculateMonthlyCompoundInterest(
+      steadyInputs({
+        initialInvestment: 0,
+        monthlyContribution,
+        annualContributionIncrease: 0,
+        investmentHorizon: 1,
+        accountType: "tax-free",
+        retirementPhase: {
+          ...steadyInputs().retirementPhase,
+          enabled: false,
+        },
+        contributionSchedule: {
+          ...DEFAULT_CONTRIBUTION_SCHEDULE,
+          enabled: true,
+        },
+        employerMatch: match,
+      }),
+      10
+    ).yearByYearDetails[0].employerContributions;
+
+  it("doesn't match tax-free savings that go to a Roth IRA", () => {
+    // 6,000 a year fits in the 7,000 Roth IRA room
+    expect(firstYearMatch(500)).toBe(0);
+  });
+
+  it("matches tax-free savings past the Roth IRA as Roth 401(k) deferrals", () => {
+    // 1,000 a month fills the Roth IRA by July; each of the five 1,000
+    // deferrals after it earns 300 + 100 on a 10,000 monthly salary
+    expect(firstYearMatch(1000)).toBeCloseTo(2000, 6);
+  });
+});
@@ -0,0 +1,104 @@
+import { GlidePath } from "@/types/calculator";
+import {
+  DEFAULT_GLIDE_PATH,
+  allocationForYear,
+  buildPortfolioSchedule,
+  parseGlidePathTable,
+} from "@/utils/glidePath";
+import {
+  DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  calculatePortfolioAssumptions,
+} from "@/utils/portfolio";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+// Starts at 80/20/0 over a 30-year horizon and 30 retirement years
+const withGlidePath = (glidePath: Partial<GlidePath>) =>
+  testInputs({
+    glidePath: { ...DEFAULT_GLIDE_PATH, enabled: true, ...glidePath },
+  });
+
+describe("allocationForYear", () => {
+  it("keeps the asset allocation without a glide path", () => {
+    expect(allocationForYear(testInputs(), 15)).toEqual({
+      stocks: 80,
+      bonds: 20,
+      cash: 0,
+    });
+  });
+
+  it("glides linearly to the end allocation", () => {
+    const allocation = allocationForYear(withGlidePath({}), 15);
+    expect(allocation.stocks).toBeCloseTo(60);
+    expect(allocation.bonds).toBeCloseTo(35);
+    expect(allocation.cash).toBeCloseTo(5);
+  });
+
+  it("only moves at each step on a step curve", () => {
+    const inputs = withGlidePath({ curve: "step", stepYears: 5 });
+    expect(allocationForYear(inputs, 4)).toEqual(allocationForYear(inputs, 0));
+    // Year 7 holds the year 5 mix, a sixth of the way there
+    expect(allocationForYear(inputs, 7).stocks).toBeCloseTo(80 - 40 / 6);
+  });
+
+  it("keeps gliding to the retirement end allocation", () => {
+    const inputs = withGlidePath({});
+    expect(allocationForYear(inputs, 30)).toEqual(
+      DEFAULT_GLIDE_PATH.endAllocation
+    );
+    const allocation = allocationForYear(inputs, 45);
+    expect(allocation.stocks).toBeCloseTo(35);
+    expect(allocation.bonds).toBeCloseTo(52.5);
+    expect(allocation.cash).toBeCloseTo(12.5);
+  });
+
+  it("reads custom rows and holds the last one", () => {
+    const customAllocations = [
+      { stocks: 90, bonds: 10, cash: 0 },
+      { stocks: 70, bonds: 25, cash: 5 },
+    ];
+    const inputs = withGlidePath({ curve: "custom", customAllocations });
+    expect(allocationForYear(inputs, 0)).toEqual(customAllocations[0]);
+    expect(allocationForYear(inputs, 10)).toEqual(customAllocations[1]);
+  });
+});
+
+describe("buildPortfolioSchedule", () => {
+  const fixed = { expectedReturn: 7, volatility: 15 };
+
+  it("uses the fixed assumptions without a glide path", () => {
+    const schedule = buildPortfolioSchedule(testInputs(), 0, 3, fixed);
+    expect(schedule).toHaveLength(3);
+    expect(schedule[2]).toEqual({
+      allocation: { stocks: 80, bonds: 20, cash: 0 },
+      ...fixed,
+    });
+  });
+
+  it("derives each year's assumptions from its allocation", () => {
+    const inputs = withGlidePath({});
+    const schedule = buildPortfolioSchedule(inputs, 30, 2, fixed);
+    expect(schedule[0]).toEqual({
+      allocation: DEFAULT_GLIDE_PATH.endAllocation,
+      ...calculatePortfolioAssumptions(
+        DEFAULT_GLIDE_PATH.endAllocation,
+        DEFAULT_CAPITAL_MARKET_ASSUMPTIONS
+      ),
+    });
+  });
+});
+
+describe("parseGlidePathTable", () => {
+  it("reads one row per line and scales it to 100", () => {
+    expect(parseGlidePathTable("90/10/0\n45, 45, 10\n1 1 2")).toEqual([
+      { stocks: 90, bonds: 10, cash: 0 },
+      { stocks: 45, bonds: 45, cash: 10 },
+      { stocks: 25, bonds: 25, cash: 50 },
+    ]);
+  });
+
+  it("skips rows it cannot read", () => {
+    expect(parseGlidePathTable("60/40\nabc/1/2\n-10/60/50\n0/0/0\n")).toEqual(
+      []
+    );
+  });
+});
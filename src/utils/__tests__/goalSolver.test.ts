@@ -0,0 +1,60 @@
+import { GoalSolverSettings } from "@/types/calculator";
+import { calculateMonthlyCompoundInterest } from "@/utils/calculations";
+import {
+  roundGoalValue,
+  solveGoal,
+  withGoalVariable,
+} from "@/utils/goalSolver";
+import { steadyInputs, testInputs } from "@/utils/__tests__/fixtures";
+
+const balanceGoal: GoalSolverSettings = {
+  target: "final-balance",
+  targetValue: 1000000,
+  variable: "monthlyContribution",
+};
+
+describe("solveGoal", () => {
+  it("finds the contribution that just reaches the balance", () => {
+    const inputs = steadyInputs();
+    const solution = solveGoal(inputs, balanceGoal);
+    const value = roundGoalValue("monthlyContribution", solution.value ?? 0);
+    const medianWith = (monthlyContribution: number) =>
+      calculateMonthlyCompoundInterest({ ...inputs, monthlyContribution })
+        .probabilityMetrics.median;
+
+    expect(solution.outcome).toBeGreaterThanOrEqual(1000000);
+    expect(medianWith(value)).toBe(solution.outcome);
+    // The search stops within a dollar and the value rounds up to the next
+    expect(medianWith(value - 2)).toBeLessThan(1000000);
+  });
+
+  it("reports the outcome a full calculation with the value gives", () => {
+    const inputs = testInputs({ seed: 7 });
+    const solution = solveGoal(inputs, {
+      ...balanceGoal,
+      variable: "investmentHorizon",
+    });
+    const solved = withGoalVariable(
+      inputs,
+      "investmentHorizon",
+      solution.value ?? 0
+    );
+
+    expect(solution.refinements).toBeGreaterThan(0);
+    expect(solution.outcome).toBeGreaterThanOrEqual(1000000);
+    expect(
+      calculateMonthlyCompoundInterest(solved).probabilityMetrics.median
+    ).toBe(solution.outcome);
+  });
+
+  it("reports the closest outcome when no value reaches the target", () => {
+    const solution = solveGoal(steadyInputs(), {
+      ...balanceGoal,
+      variable: "investmentHorizon",
+      targetValue: 1e12,
+    });
+
+    expect(solution.value).toBeUndefined();
+    expect(solution.outcome).toBeLessThan(1e12);
+  });
+});
@@ -0,0 +1,45 @@
+import { calculateHistoricalBacktest } from "@/utils/historical";
+import { steadyInputs } from "@/utils/__tests__/fixtures";
+
+// 100,000 in stocks for a one-year horizon and one year of retirement, with
+// nothing added, withdrawn, taxed or charged
+const inputs = steadyInputs({
+  initialInvestment: 100000,
+  monthlyContribution: 0,
+  annualContributionIncrease: 0,
+  investmentHorizon: 1,
+  accountType: "tax-free",
+  assetAllocation: { stocks: 100, bonds: 0, cash: 0 },
+  retirementPhase: {
+    enabled: true,
+    annualWithdrawal: 0,
+    withdrawalAdjustForInflation: true,
+    retirementYears: 1,
+    retirementReturn: 5,
+  },
+  historicalBacktest: true,
+});
+
+const cohort = (startYear: number) =>
+  calculateHistoricalBacktest(inputs).cohorts.find(
+    (candidate) => candidate.startYear === startYear
+  );
+
+describe("calculateHistoricalBacktest", () => {
+  it("compounds every calendar year of a cohort's window", () => {
+    // Stocks returned -9.97% in 1966 and 23.8% in 1967
+    const cohort1966 = cohort(1966);
+
+    expect(cohort1966?.endYear).toBe(1967);
+    expect(cohort1966?.accumulationBalance).toBeCloseTo(90030, 2);
+    expect(cohort1966?.retirementEndingBalance).toBeCloseTo(90030 * 1.238, 2);
+  });
+
+  it("deflates by the inflation of the years replayed", () => {
+    // CPI rose 3.46% in 1966 and 3.04% in 1967
+    expect(cohort(1966)?.retirementRealBalance).toBeCloseTo(
+      (90030 * 1.238) / (1.0346 * 1.0304),
+      2
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  DEFAULT_INCOME_STREAMS,
+  claimingAdjustment,
+  fullRetirementAge,
+  streamIncomeForYear,
+  streamPayment,
+  streamStartYear,
+} from "@/utils/incomeStreams";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+// Retires at 65 in 2055, born in 1990
+const socialSecurity = {
+  ...DEFAULT_INCOME_STREAMS["social-security"],
+  annualAmount: 24000,
+  cola: 0,
+  claimingAge: 67,
+};
+const pension = { ...DEFAULT_INCOME_STREAMS.pension, cola: 2, startYear: 1 };
+const rental = { ...DEFAULT_INCOME_STREAMS.rental, cola: 0, endYear: 4 };
+const inputs = testInputs({
+  incomeStreams: [socialSecurity, pension, rental],
+});
+
+describe("fullRetirementAge", () => {
+  it("rises two months a year from 66 to 67", () => {
+    expect(fullRetirementAge(1950)).toBe(66);
+    expect(fullRetirementAge(1957)).toBe(66.5);
+    expect(fullRetirementAge(1990)).toBe(67);
+  });
+});
+
+describe("claimingAdjustment", () => {
+  it("cuts early benefits and raises delayed ones", () => {
+    expect(claimingAdjustment(62, 67)).toBeCloseTo(0.7);
+    expect(claimingAdjustment(67, 67)).toBe(1);
+    expect(claimingAdjustment(70, 67)).toBeCloseTo(1.24);
+  });
+
+  it("holds the ages between 62 and 70", () => {
+    expect(claimingAdjustment(60, 67)).toBe(claimingAdjustment(62, 67));
+    expect(claimingAdjustment(75, 67)).toBe(claimingAdjustment(70, 67));
+  });
+});
+
+describe("streamStartYear", () => {
+  it("starts Social Security at the claiming age", () => {
+    expect(streamStartYear(socialSecurity, inputs)).toBe(2);
+    expect(
+      streamStartYear(socialSecurity, { ...inputs, currentAge: undefined })
+    ).toBe(0);
+  });
+});
+
+describe("streamPayment", () => {
+  it("grows other streams from their first payment", () => {
+    expect(streamPayment(pension, inputs, 0, 2025)).toBe(0);
+    expect(streamPayment(pension, inputs, 1, 2025)).toBe(20000);
+    expect(streamPayment(pension, inputs, 3, 2025)).toBeCloseTo(
+      20000 * 1.02 * 1.02
+    );
+  });
+
+  it("stops after the end year", () => {
+    expect(streamPayment(rental, inputs, 4, 2025)).toBe(18000);
+    expect(streamPayment(rental, inputs, 5, 2025)).toBe(0);
+  });
+});
+
+describe("streamIncomeForYear", () => {
+  it("groups the payments by how they're taxed", () => {
+    const income = streamIncomeForYear(inputs, 2, 2025);
+
+    expect(income.payments).toEqual([24000, 20000 * 1.02, 18000]);
+    expect(income.socialSecurity).toBe(24000);
+    expect(income.ordinaryIncome).toBeCloseTo(20400);
+    expect(income.otherIncome).toBe(18000);
+    expect(income.total).toBeCloseTo(62400);
+  });
+});
@@ -0,0 +1,86 @@
+import { AssetClass, CapitalMarketAssumptions } from "@/types/calculator";
+import {
+  DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  calculatePortfolioAssumptions,
+  normalizeAllocation,
+  rebalanceAllocation,
+  resolvePortfolioInputs,
+} from "@/utils/portfolio";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+const assumptions: CapitalMarketAssumptions = {
+  ...DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  enabled: true,
+};
+
+describe("normalizeAllocation", () => {
+  it("scales the weights to sum to 1", () => {
+    expect(normalizeAllocation({ stocks: 60, bonds: 30, cash: 30 })).toEqual({
+      stocks: 0.5,
+      bonds: 0.25,
+      cash: 0.25,
+    });
+  });
+
+  it("falls back to all stocks without an allocation", () => {
+    expect(normalizeAllocation({ stocks: 0, bonds: 0, cash: 0 })).toEqual({
+      stocks: 1,
+      bonds: 0,
+      cash: 0,
+    });
+  });
+});
+
+describe("calculatePortfolioAssumptions", () => {
+  it("keeps a single asset class's own figures", () => {
+    expect(
+      calculatePortfolioAssumptions(
+        { stocks: 100, bonds: 0, cash: 0 },
+        assumptions
+      )
+    ).toEqual({ expectedReturn: 10, volatility: 18 });
+  });
+
+  it("averages the returns and combines volatility through the correlation", () => {
+    const portfolio = calculatePortfolioAssumptions(
+      { stocks: 60, bonds: 40, cash: 0 },
+      assumptions
+    );
+    // 0.6² × 18² + 0.4² × 7² + 2 × 0.6 × 0.4 × 18 × 7 × 0.1
+    expect(portfolio.expectedReturn).toBeCloseTo(8);
+    expect(portfolio.volatility).toBeCloseTo(Math.sqrt(116.64 + 7.84 + 6.048));
+  });
+});
+
+describe("resolvePortfolioInputs", () => {
+  it("derives the return and volatility from the allocation when enabled", () => {
+    const inputs = testInputs({
+      assetAllocation: { stocks: 100, bonds: 0, cash: 0 },
+      capitalMarketAssumptions: assumptions,
+    });
+    const resolved = resolvePortfolioInputs(inputs);
+
+    expect(resolved.expectedAnnualReturn).toBe(10);
+    expect(resolved.returnVolatility).toBe(18);
+    expect(resolvePortfolioInputs(testInputs())).toEqual(testInputs());
+  });
+});
+
+describe("rebalanceAllocation", () => {
+  it("shares the rest in proportion and keeps the total at 100", () => {
+    expect(
+      rebalanceAllocation<AssetClass>(
+        { stocks: 60, bonds: 30, cash: 10 },
+        "stocks",
+        80
+      )
+    ).toEqual({ stocks: 80, bonds: 15, cash: 5 });
+    expect(
+      rebalanceAllocation<AssetClass>(
+        { stocks: 100, bonds: 0, cash: 0 },
+        "stocks",
+        50
+      )
+    ).toEqual({ stocks: 50, bonds: 25, cash: 25 });
+  });
+});
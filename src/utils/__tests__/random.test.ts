@@ -0,0 +1,12 @@
+import { createRandomGenerator, deriveSeed } from "@/utils/random";
+
+describe("deriveSeed", () => {
+  it("gives each key its own reproducible stream", () => {
+    expect(deriveSeed(42, 1, 7)).toBe(deriveSeed(42, 1, 7));
+    expect(deriveSeed(42, 1, 7)).not.toBe(deriveSeed(42, 7, 1));
+    expect(deriveSeed(42, 1)).not.toBe(deriveSeed(43, 1));
+    expect(createRandomGenerator(deriveSeed(42, -1))()).not.toBe(
+      createRandomGenerator(deriveSeed(42, 0))()
+    );
+  });
+});
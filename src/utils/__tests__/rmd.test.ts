@@ -0,0 +1,36 @@
+import {
+  distributionPeriod,
+  requiredMinimumDistribution,
+  rmdStartAge,
+} from "@/utils/rmd";
+
+describe("rmdStartAge", () => {
+  it("starts at 73 for people born before 1960 and 75 after", () => {
+    expect(rmdStartAge(66, 2025)).toBe(73);
+    expect(rmdStartAge(65, 2025)).toBe(75);
+  });
+});
+
+describe("distributionPeriod", () => {
+  it("reads the Uniform Lifetime Table", () => {
+    expect(distributionPeriod(73)).toBe(26.5);
+    expect(distributionPeriod(75)).toBe(24.6);
+    expect(distributionPeriod(100)).toBe(6.4);
+  });
+
+  it("keeps the last period past the end of the table", () => {
+    expect(distributionPeriod(125)).toBe(2.0);
+  });
+
+  it("extends the period a year per year of age below the table", () => {
+    expect(distributionPeriod(70)).toBeCloseTo(29.4);
+  });
+});
+
+describe("requiredMinimumDistribution", () => {
+  it("divides the balance by the period once RMDs begin", () => {
+    expect(requiredMinimumDistribution(265000, 73, 73)).toBeCloseTo(10000);
+    expect(requiredMinimumDistribution(265000, 72, 73)).toBe(0);
+    expect(requiredMinimumDistribution(0, 80, 73)).toBe(0);
+  });
+});
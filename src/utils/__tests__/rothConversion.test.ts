@@ -0,0 +1,109 @@
+import {
+  AccountBalances,
+  FederalTaxSettings,
+  RothConversionPlan,
+} from "@/types/calculator";
+import {
+  DEFAULT_ROTH_CONVERSION,
+  afterTaxWealth,
+  applyRothConversion,
+} from "@/utils/rothConversion";
+import {
+  calculateFederalIncomeTax,
+  emptyIncome,
+  ordinaryBracketCeiling,
+} from "@/utils/taxes";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+const single: FederalTaxSettings = {
+  enabled: true,
+  filingStatus: "single",
+  taxYear: 2025,
+};
+
+const balances = (): AccountBalances => ({
+  taxDeferred: 200000,
+  taxFree: 50000,
+  taxable: 100000,
+  taxableBasis: 60000,
+});
+
+const convert = (
+  plan: Partial<RothConversionPlan>,
+  federalTax?: FederalTaxSettings
+) => {
+  const inputs = testInputs({
+    federalTax,
+    rothConversion: { ...DEFAULT_ROTH_CONVERSION, enabled: true, ...plan },
+  });
+  const accounts = balances();
+  const result = applyRothConversion(
+    accounts,
+    emptyIncome(),
+    inputs,
+    0,
+    inputs.taxRate,
+    federalTax,
+    1
+  );
+  return { ...result, accounts };
+};
+
+describe("applyRothConversion", () => {
+  it("fills the target bracket and withholds the tax from the conversion", () => {
+    const { converted, tax, accounts } = convert(
+      {
+        strategy: "fill-bracket",
+        targetBracketRate: 12,
+        taxSource: "converted",
+      },
+      single
+    );
+
+    expect(converted).toBeCloseTo(ordinaryBracketCeiling(single, 12, 1));
+    expect(tax).toBeCloseTo(calculateFederalIncomeTax(converted, 0, single));
+    expect(accounts.taxDeferred).toBeCloseTo(200000 - converted);
+    expect(accounts.taxFree).toBeCloseTo(50000 + converted - tax);
+  });
+
+  it("pays a fixed conversion's tax from the taxable account", () => {
+    const { converted, tax, accounts } = convert({
+      strategy: "fixed",
+      annualAmount: 20000,
+      taxSource: "taxable",
+    });
+
+    // The flat 22% income rate
+    expect(converted).toBe(20000);
+    expect(tax).toBeCloseTo(4400);
+    expect(accounts.taxFree).toBeCloseTo(70000);
+    expect(accounts.taxable).toBeCloseTo(95600);
+  });
+
+  it("converts nothing outside the plan's years", () => {
+    expect(convert({ startYear: 1 }).converted).toBe(0);
+  });
+});
+
+describe("afterTaxWealth", () => {
+  it("taxes the whole liquidation through the brackets", () => {
+    const inputs = testInputs({ federalTax: single });
+
+    // 200,000 of ordinary income and 40,000 of gains on top of no income
+    expect(afterTaxWealth(balances(), emptyIncome(), inputs, 1)).toBeCloseTo(
+      350000 - calculateFederalIncomeTax(200000, 40000, single)
+    );
+  });
+
+  it("stacks the liquidation on the final year's income", () => {
+    const inputs = testInputs({ federalTax: single });
+    const income = { ...emptyIncome(), ordinaryIncome: 50000 };
+    const tax =
+      calculateFederalIncomeTax(250000, 40000, single) -
+      calculateFederalIncomeTax(50000, 0, single);
+
+    expect(afterTaxWealth(balances(), income, inputs, 1)).toBeCloseTo(
+      350000 - tax
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { SavedScenario } from "@/types/calculator";
+import { calculateMonthlyCompoundInterest } from "@/utils/calculations";
+import { runScenarioComparison, scenarioMetrics } from "@/utils/scenarios";
+import { baseInputs, testInputs } from "@/utils/__tests__/fixtures";
+
+const scenarios: SavedScenario[] = [
+  {
+    id: 1,
+    name: "Retire in 10 years",
+    inputs: testInputs({
+      investmentHorizon: 10,
+      retirementPhase: { ...baseInputs.retirementPhase, retirementYears: 10 },
+    }),
+  },
+  {
+    id: 2,
+    name: "Keep saving",
+    inputs: testInputs({
+      investmentHorizon: 10,
+      currentYear: 2020,
+      retirementPhase: { ...baseInputs.retirementPhase, enabled: false },
+    }),
+  },
+];
+
+describe("runScenarioComparison", () => {
+  const comparison = runScenarioComparison(scenarios, 42);
+
+  it("reproduces from the same seed", () => {
+    expect(runScenarioComparison(scenarios, 42)).toEqual(comparison);
+  });
+
+  it("matches each scenario calculated alone with the seed", () => {
+    scenarios.forEach(({ inputs }, index) => {
+      expect(comparison.outcomes[index].metrics).toEqual(
+        scenarioMetrics(
+          calculateMonthlyCompoundInterest({ ...inputs, seed: 42 })
+        )
+      );
+    });
+  });
+
+  it("keeps each scenario's start year", () => {
+    expect(comparison.outcomes.map((outcome) => outcome.currentYear)).toEqual([
+      2025, 2020,
+    ]);
+  });
+
+  it("reports a retirement success rate only with a retirement phase", () => {
+    const [retiring, saving] = comparison.outcomes;
+
+    expect(retiring.metrics.retirementSuccessRate).toBeDefined();
+    expect(saving.metrics.retirementSuccessRate).toBeUndefined();
+    expect(saving.metrics.accumulationSuccessRate).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { SocialSecurityClaiming } from "@/types/calculator";
+import {
+  DEFAULT_SOCIAL_SECURITY_CLAIMING,
+  claimingAgeOptions,
+  claimingBenefits,
+  spousalAdjustment,
+} from "@/utils/socialSecurity";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+// Retirement starts in 2055, when a worker born in 1990 turns 65
+const inputs = testInputs();
+
+const household: SocialSecurityClaiming = {
+  ...DEFAULT_SOCIAL_SECURITY_CLAIMING,
+  enabled: true,
+  includeSpouse: true,
+};
+
+describe("spousalAdjustment", () => {
+  it("cuts early spousal benefits without delayed credits", () => {
+    expect(spousalAdjustment(67, 67)).toBe(1);
+    expect(spousalAdjustment(70, 67)).toBe(1);
+    expect(spousalAdjustment(64, 67)).toBeCloseTo(0.75);
+    // 36 months at 25/36% and 24 more at 5/12%
+    expect(spousalAdjustment(62, 67)).toBeCloseTo(0.65);
+  });
+});
+
+describe("claimingAgeOptions", () => {
+  const options = (birthYear: number) =>
+    claimingAgeOptions(
+      { ...household, worker: { ...household.worker, birthYear } },
+      inputs,
+      2025
+    );
+
+  it("leaves out ages reached before retirement", () => {
+    expect(options(1990)).toEqual([65, 66, 67, 68, 69, 70]);
+    expect(options(2000)).toHaveLength(9);
+  });
+
+  it("falls back to 70 when every age comes before retirement", () => {
+    expect(options(1960)).toEqual([70]);
+  });
+});
+
+describe("claimingBenefits", () => {
+  it("pays the worker's adjusted benefit from the claiming age", () => {
+    const benefits = claimingBenefits(
+      { ...household, includeSpouse: false },
+      70,
+      inputs,
+      2025
+    );
+
+    // 8% a year of delayed credits over three years
+    expect(benefits.worker).toBeCloseTo(2500 * 12 * 1.24);
+    expect(benefits.spouse).toBe(0);
+    expect(benefits.streams).toEqual([
+      {
+        type: "social-security",
+        name: "Social Security",
+        annualAmount: benefits.worker,
+        cola: 2.5,
+        startYear: 5,
+      },
+    ]);
+  });
+
+  it("tops up the spouse to half the worker's PIA once both have claimed", () => {
+    const benefits = claimingBenefits(household, 70, inputs, 2025);
+    const [, own, spousal] = benefits.streams;
+
+    expect(own.annualAmount).toBeCloseTo(12000);
+    expect(own.startYear).toBe(2);
+    expect(spousal.annualAmount).toBeCloseTo(3000);
+    expect(spousal.startYear).toBe(5);
+    expect(benefits.spouse).toBeCloseTo(15000);
+  });
+
+  it("reduces both spouse benefits when they start early", () => {
+    const benefits = claimingBenefits(
+      {
+        ...household,
+        spouse: {
+          primaryInsuranceAmount: 1000,
+          birthYear: 1992,
+          claimingAge: 62,
+        },
+      },
+      62,
+      inputs,
+      2025
+    );
+    const [, own, spousal] = benefits.streams;
+
+    expect(own.annualAmount).toBeCloseTo(12000 * 0.7);
+    expect(spousal.annualAmount).toBeCloseTo(3000 * 0.65);
+    expect(spousal.startYear).toBe(0);
+  });
+
+  it("adds no spousal benefit when the spouse's own PIA is larger", () => {
+    const benefits = claimingBenefits(
+      {
+        ...household,
+        spouse: { ...household.spouse, primaryInsuranceAmount: 2000 },
+      },
+      67,
+      inputs,
+      2025
+    );
+
+    expect(benefits.streams).toHaveLength(2);
+    expect(benefits.spouse).toBeCloseTo(24000);
+  });
+});
@@ -0,0 +1,95 @@
+import { FederalTaxSettings } from "@/types/calculator";
+import {
+  calculateFederalIncomeTax,
+  emptyIncome,
+  federalDividendTax,
+  taxableSocialSecurity,
+} from "@/utils/taxes";
+
+const single: FederalTaxSettings = {
+  enabled: true,
+  filingStatus: "single",
+  taxYear: 2025,
+};
+
+describe("calculateFederalIncomeTax", () => {
+  it("takes the standard deduction and fills the ordinary brackets", () => {
+    // 34,250 taxable: 11,925 at 10% and the rest at 12%
+    expect(calculateFederalIncomeTax(50000, 0, single)).toBeCloseTo(3871.5);
+  });
+
+  it("stacks gains on top of ordinary income", () => {
+    // Gains fill 34,250-48,350 at 0% and the remaining 15,900 at 15%
+    expect(calculateFederalIncomeTax(50000, 30000, single)).toBeCloseTo(
+      3871.5 + 2385
+    );
+  });
+
+  it("uses the deduction left over from ordinary income against gains", () => {
+    expect(calculateFederalIncomeTax(10000, 20000, single)).toBe(0);
+  });
+
+  it("scales thresholds and the deduction with the index factor", () => {
+    expect(calculateFederalIncomeTax(100000, 0, single, 2)).toBeCloseTo(
+      2 * 3871.5
+    );
+  });
+});
+
+describe("federalDividendTax", () => {
+  it("taxes dividends at the capital gains rates above other income", () => {
+    expect(
+      federalDividendTax(
+        { ...emptyIncome(), ordinaryIncome: 50000, dividends: 30000 },
+        single,
+        1
+      )
+    ).toBeCloseTo(2385);
+  });
+
+  it("leaves dividends in the 0% bracket untaxed", () => {
+    expect(
+      federalDividendTax(
+        { ...emptyIncome(), ordinaryIncome: 20000, dividends: 10000 },
+        single,
+        1
+      )
+    ).toBe(0);
+  });
+});
+
+describe("taxableSocialSecurity", () => {
+  it("taxes up to half the benefits between the thresholds", () => {
+    // Provisional income of 30,000 is 5,000 over the first threshold
+    expect(
+      taxableSocialSecurity(
+        { ...emptyIncome(), ordinaryIncome: 20000, socialSecurity: 20000 },
+        "single"
+      )
+    ).toBe(2500);
+  });
+
+  it("counts dividends toward provisional income", () => {
+    // 10,000 of dividends lift provisional income to 30,000 as well
+    expect(
+      taxableSocialSecurity(
+        {
+          ...emptyIncome(),
+          ordinaryIncome: 10000,
+          dividends: 10000,
+          socialSecurity: 20000,
+        },
+        "single"
+      )
+    ).toBe(2500);
+  });
+
+  it("caps the taxable part at 85% of the benefits", () => {
+    expect(
+      taxableSocialSecurity(
+        { ...emptyIncome(), ordinaryIncome: 60000, socialSecurity: 30000 },
+        "single"
+      )
+    ).toBe(25500);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  AccountBalances,
+  AccountBucket,
+  FederalTaxSettings,
+  WithdrawalOrder,
+} from "@/types/calculator";
+import { emptyIncome, withdrawalTax } from "@/utils/taxes";
+import { grossUpWithdrawal, planWithdrawal } from "@/utils/withdrawalOrder";
+import { testInputs } from "@/utils/__tests__/fixtures";
+
+const inputs = testInputs({
+  currentAge: undefined,
+  taxRate: { income: 20, dividends: 15, capitalGains: 15 },
+});
+
+const balances: AccountBalances = {
+  taxDeferred: 500000,
+  taxFree: 250000,
+  taxable: 250000,
+  taxableBasis: 125000,
+};
+
+// Draws everything from one account
+const sequence = (account: AccountBucket): WithdrawalOrder => ({
+  type: "sequence",
+  sequence: [account],
+  targetBracketRate: 12,
+});
+
+const grossUp = (
+  need: number,
+  order: WithdrawalOrder,
+  federalTax?: FederalTaxSettings
+) =>
+  grossUpWithdrawal(
+    need,
+    emptyIncome(),
+    balances,
+    inputs,
+    order,
+    Infinity,
+    inputs.taxRate,
+    federalTax,
+    1
+  );
+
+describe("grossUpWithdrawal", () => {
+  it("divides by one less the flat income rate for tax-deferred money", () => {
+    expect(grossUp(40000, sequence("taxDeferred"))).toBeCloseTo(50000, 1);
+  });
+
+  it("only taxes the gain share of a taxable sale", () => {
+    // Half the balance is gain, so 7.5% of each sale goes to tax
+    expect(grossUp(37000, sequence("taxable"))).toBeCloseTo(40000, 1);
+  });
+
+  it("adds nothing for tax-free money", () => {
+    expect(grossUp(40000, sequence("taxFree"))).toBe(40000);
+  });
+
+  it("leaves the need after bracket taxes", () => {
+    const federalTax: FederalTaxSettings = {
+      enabled: true,
+      filingStatus: "single",
+      taxYear: 2025,
+    };
+    const order = sequence("taxDeferred");
+    const gross = grossUp(60000, order, federalTax);
+    const split = planWithdrawal(balances, gross, order, Infinity);
+    const tax = withdrawalTax(
+      { ...emptyIncome(), ordinaryIncome: split.taxDeferred },
+      inputs,
+      inputs.taxRate,
+      federalTax,
+      1
+    );
+
+    expect(gross - tax).toBeCloseTo(60000, 1);
+  });
+});
@@ -0,0 +1,165 @@
+import { WithdrawalStrategySettings } from "@/types/calculator";
+import { distributionPeriod } from "@/utils/rmd";
+import {
+  DEFAULT_WITHDRAWAL_STRATEGY,
+  WithdrawalContext,
+  createWithdrawalStrategy,
+  strategySetsSpending,
+} from "@/utils/withdrawalStrategies";
+import { baseInputs, testInputs } from "@/utils/__tests__/fixtures";
+
+// Retires at 65 with 40,000 a year planned over 30 years
+const strategyInputs = (settings: Partial<WithdrawalStrategySettings>) =>
+  testInputs({
+    retirementPhase: {
+      ...baseInputs.retirementPhase,
+      withdrawalStrategy: { ...DEFAULT_WITHDRAWAL_STRATEGY, ...settings },
+    },
+  });
+
+const withdraw = (
+  settings: Partial<WithdrawalStrategySettings>,
+  context: Partial<WithdrawalContext>
+) =>
+  createWithdrawalStrategy(strategyInputs(settings))({
+    year: 1,
+    balance: 1000000,
+    startingBalance: 1000000,
+    priceLevel: 1,
+    lastYearInflation: 0,
+    previousWithdrawal: 40000,
+    previousReturn: 0,
+    ...context,
+  });
+
+describe("strategySetsSpending", () => {
+  it("is true only for strategies that start from the annual withdrawal", () => {
+    expect(strategySetsSpending(testInputs())).toBe(true);
+    expect(
+      strategySetsSpending(strategyInputs({ type: "guyton-klinger" }))
+    ).toBe(true);
+    expect(strategySetsSpending(strategyInputs({ type: "vpw" }))).toBe(false);
+  });
+});
+
+describe("createWithdrawalStrategy", () => {
+  it("grows the fixed withdrawal with inflation when asked to", () => {
+    expect(withdraw({ type: "fixed" }, { priceLevel: 1.5 })).toBeCloseTo(60000);
+
+    const flat = createWithdrawalStrategy(
+      testInputs({
+        retirementPhase: {
+          ...baseInputs.retirementPhase,
+          withdrawalAdjustForInflation: false,
+        },
+      })
+    );
+    expect(
+      flat({
+        year: 5,
+        balance: 0,
+        startingBalance: 0,
+        priceLevel: 1.5,
+        lastYearInflation: 3,
+        previousWithdrawal: 40000,
+        previousReturn: 0,
+      })
+    ).toBe(40000);
+  });
+
+  it("takes a constant share of the balance", () => {
+    expect(
+      withdraw({ type: "constant-percentage" }, { balance: 500000 })
+    ).toBeCloseTo(20000);
+  });
+
+  describe("guyton-klinger", () => {
+    const guardrails = (context: Partial<WithdrawalContext>) =>
+      withdraw({ type: "guyton-klinger" }, context);
+
+    it("starts at the annual withdrawal and follows inflation", () => {
+      expect(guardrails({ year: 0 })).toBe(40000);
+      expect(
+        guardrails({ lastYearInflation: 3, previousReturn: 0.05 })
+      ).toBeCloseTo(41200);
+    });
+
+    it("skips the raise after a losing year above the starting rate", () => {
+      expect(
+        guardrails({
+          balance: 900000,
+          lastYearInflation: 3,
+          previousReturn: -0.1,
+        })
+      ).toBeCloseTo(40000);
+    });
+
+    it("cuts spending past the upper guardrail until the last 15 years", () => {
+      // 40,000 of 700,000 is 5.7%, above 4% plus 20%
+      expect(guardrails({ balance: 700000, previousReturn: -0.2 })).toBeCloseTo(
+        36000
+      );
+      expect(
+        guardrails({ year: 20, balance: 700000, previousReturn: -0.2 })
+      ).toBeCloseTo(40000);
+    });
+
+    it("raises spending past the lower guardrail", () => {
+      expect(guardrails({ balance: 2000000, previousReturn: 0.1 })).toBeCloseTo(
+        44000
+      );
+    });
+  });
+
+  it("holds the dynamic change between the floor and the ceiling", () => {
+    const dynamic = (balance: number, year = 1) =>
+      withdraw({ type: "vanguard-dynamic" }, { balance, year });
+
+    expect(dynamic(1000000, 0)).toBeCloseTo(40000);
+    expect(dynamic(1500000)).toBeCloseTo(42000);
+    expect(dynamic(500000)).toBeCloseTo(39000);
+    expect(dynamic(1010000)).toBeCloseTo(40400);
+  });
+
+  it("amortizes the balance over the years left plus one", () => {
+    expect(
+      withdraw({ type: "vpw", realReturn: 0 }, { year: 0, balance: 310000 })
+    ).toBeCloseTo(10000);
+    expect(
+      withdraw({ type: "vpw", realReturn: 0 }, { year: 30, balance: 50000 })
+    ).toBeCloseTo(50000);
+    // Two years left at 3%: a payment of 0.03 / (1 - 1.03^-2)
+    expect(
+      withdraw({ type: "vpw", realReturn: 3 }, { year: 29, balance: 100000 })
+    ).toBeCloseTo(52261, 0);
+  });
+
+  it("divides by the life expectancy at each age", () => {
+    expect(
+      withdraw({ type: "rmd" }, { year: 10, balance: 500000 })
+    ).toBeCloseTo(500000 / distributionPeriod(75));
+  });
+
+  it("divides by the years left without an age", () => {
+    const inputs = testInputs({
+      currentAge: undefined,
+      retirementPhase: {
+        ...baseInputs.retirementPhase,
+        withdrawalStrategy: { ...DEFAULT_WITHDRAWAL_STRATEGY, type: "rmd" },
+      },
+    });
+    const strategy = createWithdrawalStrategy(inputs);
+    const context: WithdrawalContext = {
+      year: 10,
+      balance: 500000,
+      startingBalance: 1000000,
+      priceLevel: 1,
+      lastYearInflation: 0,
+      previousWithdrawal: 40000,
+      previousReturn: 0,
+    };
+
+    expect(strategy(context)).toBeCloseTo(25000);
+    expect(strategy({ ...context, year: 35 })).toBe(500000);
+  });
+});
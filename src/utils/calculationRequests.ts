@@ -0,0 +1,57 @@
+import {
+  CalculatorInputs,
+  CalculatorResults,
+  GoalSolution,
+  GoalSolverSettings,
+  SavedScenario,
+  ScenarioComparison,
+} from "@/types/calculator";
+import { calculateMonthlyCompoundInterest } from "@/utils/calculations";
+import { solveGoal } from "@/utils/goalSolver";
+import { runScenarioComparison } from "@/utils/scenarios";
+
+// Work the calculator hands off the page
+export type CalculationRequest =
+  | { kind: "calculate"; inputs: CalculatorInputs }
+  | {
+      kind: "solve-goal";
+      inputs: CalculatorInputs;
+      settings: GoalSolverSettings;
+    }
+  | { kind: "compare-scenarios"; scenarios: SavedScenario[]; seed: number };
+
+export type CalculationResult =
+  CalculatorResults | GoalSolution | ScenarioComparison;
+
+// Messages between the page and the worker; the id matches a result to the
+// request that asked for it
+export interface CalculationMessage {
+  id: number;
+  request: CalculationRequest;
+}
+
+// A request that threw answers with its error message instead of a result
+export interface CalculationReply {
+  id: number;
+  result?: CalculationResult;
+  error?: string;
+}
+
+/**
+ * Runs one request to completion, in the worker or on the page
+ */
+export function runCalculation(request: CalculationRequest): CalculationResult {
+  switch (request.kind) {
+    case "calculate":
+      return calculateMonthlyCompoundInterest(request.inputs);
+    case "solve-goal":
+      return solveGoal(request.inputs, request.settings);
+    case "compare-scenarios":
+      return runScenarioComparison(request.scenarios, request.seed);
+  }
+}
+
+// The message to show for whatever a failed request threw
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,116 @@
+import {
+  CalculatorInputs,
+  CalculatorResults,
+  GoalSolution,
+  GoalSolverSettings,
+  SavedScenario,
+  ScenarioComparison,
+} from "@/types/calculator";
+import {
+  CalculationMessage,
+  CalculationReply,
+  CalculationRequest,
+  CalculationResult,
+  errorMessage,
+  runCalculation,
+} from "@/utils/calculationRequests";
+
+interface PendingRequest {
+  request: CalculationRequest;
+  resolve: (result: CalculationResult) => void;
+  reject: (error: Error) => void;
+}
+
+export interface CalculationRunner {
+  calculate(inputs: CalculatorInputs): Promise<CalculatorResults>;
+  solveGoal(
+    inputs: CalculatorInputs,
+    settings: GoalSolverSettings
+  ): Promise<GoalSolution>;
+  compareScenarios(
+    scenarios: SavedScenario[],
+    seed: number
+  ): Promise<ScenarioComparison>;
+  // Stops the worker; requests still running never settle
+  terminate(): void;
+}
+
+/**
+ * Runs calculations in a Web Worker so Monte Carlo runs don't freeze the page
+ * Requests run one at a time in the order they're made. Where workers aren't
+ * available, or the worker fails to load, they run on the page instead. A
+ * request that throws rejects with the error
+ */
+export function createCalculationRunner(): CalculationRunner {
+  let worker =
+    typeof Worker === "undefined"
+      ? undefined
+      : new Worker(
+          new URL("../workers/calculations.worker.ts", import.meta.url)
+        );
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+
+  // Yield first so the page can show its busy state before the run blocks it
+  const runOnPage = ({ request, resolve, reject }: PendingRequest) => {
+    setTimeout(() => {
+      try {
+        resolve(runCalculation(request));
+      } catch (error) {
+        reject(new Error(errorMessage(error)));
+      }
+    }, 50);
+  };
+
+  worker?.addEventListener(
+    "message",
+    (event: MessageEvent<CalculationReply>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      pending.delete(id);
+      if (error !== undefined || result === undefined) {
+        request?.reject(new Error(error));
+      } else {
+        request?.resolve(result);
+      }
+    }
+  );
+
+  // Hand anything the worker hadn't finished to the page and stop using it
+  worker?.addEventListener("error", () => {
+    worker?.terminate();
+    worker = undefined;
+    pending.forEach(runOnPage);
+    pending.clear();
+  });
+
+  const run = (request: CalculationRequest) =>
+    new Promise<CalculationResult>((resolve, reject) => {
+      if (!worker) {
+        runOnPage({ request, resolve, reject });
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { request, resolve, reject });
+      const message: CalculationMessage = { id, request };
+      worker.postMessage(message);
+    });
+
+  return {
+    calculate: (inputs) =>
+      run({ kind: "calculate", inputs }) as Promise<CalculatorResults>,
+    solveGoal: (inputs, settings) =>
+      run({ kind: "solve-goal", inputs, settings }) as Promise<GoalSolution>,
+    compareScenarios: (scenarios, seed) =>
+      run({
+        kind: "compare-scenarios",
+        scenarios,
+        seed,
+      }) as Promise<ScenarioComparison>,
+    terminate: () => {
+      worker?.terminate();
+      worker = undefined;
+      pending.clear();
+    },
+  };
+}
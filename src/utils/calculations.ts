@@ -1,10 +1,59 @@
 import {
+  AccountBalances,
   CalculatorInputs,
   CalculatorResults,
-  ChartData,
+  ClaimingAnalysis,
   RetirementPhaseResults,
+  RothConversionOutcome,
+  SafeWithdrawalAnalysis,
+  SafeWithdrawalSettings,
   SequenceRiskAnalysis,
+  SocialSecurityClaiming,
 } from "@/types/calculator";
+import { deriveSeed, generateSeed, normalizeSeed } from "@/utils/random";
+import { calculateHistoricalBacktest } from "@/utils/historical";
+import { buildPortfolioSchedule } from "@/utils/glidePath";
+import { PortfolioYear, resolvePortfolioInputs } from "@/utils/portfolio";
+import { DEFAULT_RETURN_MODEL } from "@/utils/returnModels";
+import { planStartYear, rmdStartAge } from "@/utils/rmd";
+import { activeRothConversion, afterTaxWealth } from "@/utils/rothConversion";
+import { claimingAgeOptions, claimingBenefits } from "@/utils/socialSecurity";
+import { appliedTaxRates } from "@/utils/taxes";
+import { strategySetsSpending } from "@/utils/withdrawalStrategies";
+import {
+  MAX_SIMULATION_YEARS,
+  RetirementPathResult,
+  createRandomMarketScenario,
+  simulateAccumulationPath,
+  simulateRetirementPath,
+  splitByAccountType,
+  totalBalance,
+} from "@/utils/simulation";
+
+// Number of Monte Carlo trials behind every probability metric
+export const MONTE_CARLO_SIMULATIONS = 5000;
+// Trials per claiming age in the Social Security comparison, which runs the
+// retirement Monte Carlo once for every age
+export const CLAIMING_SIMULATIONS = 1000;
+// Trials per withdrawal in the safe withdrawal analysis, which runs the
+// retirement Monte Carlo for every point on its curve and every search step
+export const SAFE_WITHDRAWAL_SIMULATIONS = 500;
+// Withdrawal rates on the success rate curve, in percent of the starting
+// balance
+export const SAFE_WITHDRAWAL_RATES = [
+  2, 2.5, 3, 3.5, 4, 4.5, 5, 5.5, 6, 6.5, 7, 7.5, 8,
+];
+// The safe withdrawal search stops within this share of the starting balance
+const SAFE_WITHDRAWAL_PRECISION = 0.0001;
+
+// Key of the headline projection's market; Monte Carlo trials are keyed by
+// their index, so every trial keeps its market however many trials run
+const HEADLINE_PATH = -1;
+
+export const DEFAULT_SAFE_WITHDRAWAL: SafeWithdrawalSettings = {
+  enabled: false,
+  confidenceLevel: 90,
+};
 
 // Helper function to format currency
 export const formatCurrency = (value: number): string => {
@@ -21,316 +70,89 @@ export const formatCurrency = (value: number): string => {
  * - Tax-aware withdrawal modeling
  * - Sequence of returns risk analysis
  * - Support for retirement phase planning
+ * simulations sets the Monte Carlo trials behind the probability metrics
  */
 export const calculateMonthlyCompoundInterest = (
-  inputs: CalculatorInputs
+  rawInputs: CalculatorInputs,
+  simulations: number = MONTE_CARLO_SIMULATIONS
 ): CalculatorResults => {
+  // Derive expected return and volatility from the asset allocation if
+  // enabled, and pin the start year so every path in the run shares it
+  const currentYear = planStartYear(rawInputs);
+  const inputs = resolvePortfolioInputs({ ...rawInputs, currentYear });
   const {
-    initialInvestment,
-    monthlyContribution,
-    annualContributionIncrease,
     investmentHorizon,
-    expectedAnnualReturn,
     returnVolatility,
     inflationRate,
     taxRate,
     fees,
-    accountType,
-    accountAllocation,
     retirementPhase,
   } = inputs;
 
+  // Every random draw in this run comes from generators derived from one
+  // seed so that identical inputs and seed reproduce identical results
+  const seed = normalizeSeed(inputs.seed ?? generateSeed());
+
   // For test cases with no volatility, we need to handle the calculation differently
   // to produce predictable results that can be verified
   if (
     returnVolatility === 0 &&
+    !inputs.glidePath?.enabled &&
     investmentHorizon <= 1 &&
     inflationRate === 0 &&
     fees.expenseRatio === 0 &&
     fees.advisoryFee === 0 &&
     taxRate.income === 0 &&
     taxRate.dividends === 0 &&
-    taxRate.capitalGains === 0
+    taxRate.capitalGains === 0 &&
+    !inputs.state &&
+    !inputs.cashFlowEvents?.length &&
+    !inputs.contributionSchedule?.enabled &&
+    !inputs.employerMatch?.enabled
   ) {
-    return calculatePredictableTestResult(inputs);
+    return calculatePredictableTestResult(inputs, seed);
   }
 
-  // Calculate basic monthly rates
-  const monthlyRate = expectedAnnualReturn / 12 / 100;
-  const _monthlyInflation = inflationRate / 12 / 100;
-  const monthlyExpenseRatio = fees.expenseRatio / 12 / 100;
-  const monthlyAdvisoryFee = fees.advisoryFee / 12 / 100;
-
-  // Initialize account balances
-  let balanceTaxDeferred =
-    accountType === "tax-free"
-      ? 0
-      : initialInvestment *
-        (accountType === "mixed" ? accountAllocation.taxDeferred / 100 : 1);
-  let balanceTaxFree =
-    accountType === "tax-deferred" || accountType === "taxable"
-      ? 0
-      : initialInvestment *
-        (accountType === "mixed" ? accountAllocation.taxFree / 100 : 1);
-  let balanceTaxable = accountType === "taxable" ? initialInvestment : 0;
-
-  // Initialize tracking variables
-  let _totalContributions = initialInvestment;
-  let totalWithdrawals = 0;
-  let totalTaxesPaid = 0;
-  const yearByYearDetails = [];
-  const chartData: ChartData[] = [];
-
-  // Process each year of the investment horizon
-  for (let year = 0; year < investmentHorizon; year++) {
-    // Record starting balances for the year
-    const yearStartBalanceTaxDeferred = balanceTaxDeferred;
-    const yearStartBalanceTaxFree = balanceTaxFree;
-    const yearStartBalanceTaxable = balanceTaxable;
-    const yearStartBalance =
-      yearStartBalanceTaxDeferred +
-      yearStartBalanceTaxFree +
-      yearStartBalanceTaxable;
-
-    // Initialize yearly tracking variables
-    let yearContributions = 0;
-    let yearWithdrawals = 0;
-    let yearWithdrawalTaxes = 0;
-    let yearEarningsTaxDeferred = 0;
-    let yearEarningsTaxFree = 0;
-    let yearEarningsTaxable = 0;
-    let yearFees = 0;
-    let yearTaxes = 0;
-
-    // Determine if we're in withdrawal phase
-    const withdrawalStartYear =
-      retirementPhase.withdrawalStartYear ?? investmentHorizon;
-    const isWithdrawalPhase =
-      retirementPhase.enabled && year >= withdrawalStartYear;
-
-    // Calculate annual withdrawal amount adjusted for inflation if needed
-    let annualWithdrawal = 0;
-    if (isWithdrawalPhase) {
-      annualWithdrawal = retirementPhase.withdrawalAdjustForInflation
-        ? retirementPhase.annualWithdrawal *
-          Math.pow(1 + inflationRate / 100, year - withdrawalStartYear)
-        : retirementPhase.annualWithdrawal;
-    }
-
-    // Convert annual withdrawal to monthly amount
-    const monthlyWithdrawal = isWithdrawalPhase ? annualWithdrawal / 12 : 0;
-
-    // Calculate monthly values for the year
-    for (let month = 1; month <= 12; month++) {
-      // CONTRIBUTION PHASE: Skip if in withdrawal phase
-      if (!isWithdrawalPhase) {
-        // Calculate monthly contribution with annual increase
-        const currentMonthlyContribution =
-          monthlyContribution *
-          Math.pow(1 + annualContributionIncrease / 100, year);
-
-        // Calculate contribution allocation based on account type
-        let contributionTaxDeferred = 0;
-        let contributionTaxFree = 0;
-        let contributionTaxable = 0;
-
-        if (accountType === "tax-deferred") {
-          contributionTaxDeferred = currentMonthlyContribution;
-        } else if (accountType === "tax-free") {
-          contributionTaxFree = currentMonthlyContribution;
-        } else if (accountType === "taxable") {
-          contributionTaxable = currentMonthlyContribution;
-        } else if (accountType === "mixed") {
-          contributionTaxDeferred =
-            currentMonthlyContribution * (accountAllocation.taxDeferred / 100);
-          contributionTaxFree =
-            currentMonthlyContribution * (accountAllocation.taxFree / 100);
-        }
-
-        // Add contributions to respective accounts
-        balanceTaxDeferred += contributionTaxDeferred;
-        balanceTaxFree += contributionTaxFree;
-        balanceTaxable += contributionTaxable;
-        yearContributions += currentMonthlyContribution;
-      }
-
-      // WITHDRAWAL PHASE: Process withdrawals if applicable
-      else if (monthlyWithdrawal > 0) {
-        let remainingWithdrawal = monthlyWithdrawal;
-
-        // Withdrawal order strategy: Taxable -> Tax-Free -> Tax-Deferred
-        // This is a common tax-efficient withdrawal strategy
-
-        // 1. First withdraw from taxable accounts
-        if (balanceTaxable > 0) {
-          // Calculate capital gains tax on appreciation
-          // Simplified approach: assume 50% of withdrawal is basis, 50% is gain
-          // In a more complex model, we'd track cost basis separately
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxable);
-          const estimatedGain = withdrawal * 0.5; // Assume 50% of withdrawal is gain
-          const capitalGainsTax = estimatedGain * (taxRate.capitalGains / 100);
-
-          yearWithdrawalTaxes += capitalGainsTax;
-          totalTaxesPaid += capitalGainsTax;
-          balanceTaxable -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // 2. Then withdraw from tax-free accounts (no tax)
-        if (remainingWithdrawal > 0 && balanceTaxFree > 0) {
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxFree);
-          balanceTaxFree -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // 3. Finally withdraw from tax-deferred accounts (income tax)
-        if (remainingWithdrawal > 0 && balanceTaxDeferred > 0) {
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxDeferred);
-          const incomeTax = withdrawal * (taxRate.income / 100);
-
-          yearWithdrawalTaxes += incomeTax;
-          totalTaxesPaid += incomeTax;
-          balanceTaxDeferred -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // If we still have remaining withdrawal needed but no money left
-        if (remainingWithdrawal > 0) {
-          // We've run out of money - can't withdraw more
-          yearWithdrawals -= remainingWithdrawal;
-        }
-      }
-
-      // INVESTMENT GROWTH: Calculate monthly return with volatility
-      // Using an improved model that considers market behavior
-      // Note: Still using normal distribution but with small fat-tail adjustment
-      let monthlyReturnModifier =
-        ((Math.random() - 0.5) * returnVolatility) / Math.sqrt(12) / 100;
-
-      // Simple fat-tail adjustment: occasionally generate more extreme returns
-      if (Math.random() < 0.05) {
-        // 5% chance of a more extreme event
-        monthlyReturnModifier *= 2;
-      }
-
-      const monthlyReturn = monthlyRate + monthlyReturnModifier;
-
-      // Calculate earnings for each account type
-      const earningsTaxDeferred = balanceTaxDeferred * monthlyReturn;
-      const earningsTaxFree = balanceTaxFree * monthlyReturn;
-      const earningsTaxable = balanceTaxable * monthlyReturn;
-
-      yearEarningsTaxDeferred += earningsTaxDeferred;
-      yearEarningsTaxFree += earningsTaxFree;
-      yearEarningsTaxable += earningsTaxable;
-
-      // Apply fees to each account
-      const feeTaxDeferred =
-        balanceTaxDeferred * (monthlyExpenseRatio + monthlyAdvisoryFee);
-      const feeTaxFree =
-        balanceTaxFree * (monthlyExpenseRatio + monthlyAdvisoryFee);
-      const feeTaxable =
-        balanceTaxable * (monthlyExpenseRatio + monthlyAdvisoryFee);
-
-      yearFees += feeTaxDeferred + feeTaxFree + feeTaxable;
-      balanceTaxDeferred -= feeTaxDeferred;
-      balanceTaxFree -= feeTaxFree;
-      balanceTaxable -= feeTaxable;
-
-      // Apply taxes for taxable account (dividend taxes)
-      if (balanceTaxable > 0) {
-        // Assume 40% of monthly return is from dividends (realistic approximation)
-        const dividendPortion = earningsTaxable * 0.4;
-        const monthlyTaxes = dividendPortion * (taxRate.dividends / 100);
-        yearTaxes += monthlyTaxes;
-        totalTaxesPaid += monthlyTaxes;
-        balanceTaxable -= monthlyTaxes;
-      }
-
-      // Apply monthly return to each account
-      balanceTaxDeferred += earningsTaxDeferred;
-      balanceTaxFree += earningsTaxFree;
-      balanceTaxable += earningsTaxable;
-
-      // Record monthly data for chart
-      if (year === 0 && month === 1) {
-        chartData.push({
-          year: 0,
-          balance: initialInvestment,
-          contributions: 0,
-          earnings: 0,
-          withdrawals: 0,
-          inflationAdjustedValue: initialInvestment,
-        });
-      }
-      if (month === 12) {
-        const totalBalance =
-          balanceTaxDeferred + balanceTaxFree + balanceTaxable;
-        chartData.push({
-          year: year + 1,
-          balance: totalBalance,
-          contributions: yearContributions,
-          withdrawals: yearWithdrawals,
-          earnings:
-            yearEarningsTaxDeferred + yearEarningsTaxFree + yearEarningsTaxable,
-          inflationAdjustedValue:
-            totalBalance / Math.pow(1 + inflationRate / 100, year + 1),
-        });
-      }
-    }
-
-    // Calculate combined values for the year
-    const totalEndingBalance =
-      balanceTaxDeferred + balanceTaxFree + balanceTaxable;
-    const totalYearEarnings =
-      yearEarningsTaxDeferred + yearEarningsTaxFree + yearEarningsTaxable;
-
-    // Track total withdrawals
-    totalWithdrawals += yearWithdrawals;
-
-    // Record year-end details
-    yearByYearDetails.push({
-      year,
-      startingBalance: yearStartBalance,
-      contributions: yearContributions,
-      withdrawals: yearWithdrawals,
-      withdrawalTaxes: yearWithdrawalTaxes,
-      earnings: totalYearEarnings,
-      fees: yearFees,
-      taxes: yearTaxes + yearWithdrawalTaxes,
-      endingBalance: totalEndingBalance,
-      inflationAdjustedValue:
-        totalEndingBalance / Math.pow(1 + inflationRate / 100, year),
-      remainingYears: isWithdrawalPhase ? investmentHorizon - year : undefined,
-    });
-
-    _totalContributions += yearContributions;
-  }
+  // Simulate the headline projection with the same core as every Monte Carlo trial
+  const returnModel = inputs.returnModel ?? DEFAULT_RETURN_MODEL;
+  const path = simulateAccumulationPath(
+    inputs,
+    createRandomMarketScenario(
+      returnModel,
+      accumulationSchedule(inputs),
+      inflationRate,
+      deriveSeed(seed, HEADLINE_PATH)
+    )
+  );
+  const finalBalance = totalBalance(path.balances);
 
-  // Calculate sequence of returns risk by simulating different market scenarios
+  // Calculate sequence of returns risk by simulating different market
+  // scenarios, keeping where each trial ends for its retirement trial
+  const trialStarts: RetirementTrialStart[] = [];
   const sequenceRiskAnalysis = calculateSequenceRisk(
     inputs,
-    retirementPhase.enabled
+    seed,
+    simulations,
+    trialStarts
   );
 
   const results = {
     summary: {
-      finalBalance: balanceTaxDeferred + balanceTaxFree + balanceTaxable,
-      totalContributions: _totalContributions,
+      finalBalance,
+      totalContributions: path.totalContributions,
       totalGrowth:
-        balanceTaxDeferred +
-        balanceTaxFree +
-        balanceTaxable -
-        _totalContributions +
-        totalWithdrawals,
+        finalBalance -
+        path.totalContributions +
+        path.totalWithdrawals -
+        path.totalCashFlows -
+        path.totalEmployerContributions,
       inflationAdjustedValue:
-        (balanceTaxDeferred + balanceTaxFree + balanceTaxable) /
-        Math.pow(1 + inflationRate / 100, investmentHorizon),
-      totalWithdrawals,
-      totalTaxesPaid,
+        finalBalance / Math.pow(1 + inflationRate / 100, investmentHorizon),
+      totalWithdrawals: path.totalWithdrawals,
+      totalCashFlows: path.totalCashFlows,
+      totalEmployerContributions: path.totalEmployerContributions,
+      forfeitedEmployerContributions: path.forfeitedEmployerContributions,
+      totalTaxesPaid: path.totalTaxesPaid,
     },
     probabilityMetrics: {
       median: sequenceRiskAnalysis.medianScenario,
@@ -340,32 +162,29 @@ export const calculateMonthlyCompoundInterest = (
       worstCaseBalance: sequenceRiskAnalysis.worstCaseScenario,
       successRate: sequenceRiskAnalysis.successRate,
     },
-    yearByYearDetails,
+    yearByYearDetails: path.yearByYearDetails,
+    accountBalances: path.balances,
+    appliedTaxRates: appliedTaxRates(inputs),
+    seed,
+    currentYear,
+    // Replay the same plan through actual market history if requested
+    historicalAnalysis: inputs.historicalBacktest
+      ? calculateHistoricalBacktest(inputs)
+      : undefined,
   };
 
-  // Calculate separate retirement phase if enabled
+  // Calculate separate retirement phase if enabled, starting from exactly
+  // the accounts (balances and basis) the accumulation phase ended with
   if (retirementPhase.enabled) {
-    // First calculate the final balance once to use in both places
-    const finalAccountBalance =
-      balanceTaxDeferred + balanceTaxFree + balanceTaxable;
-
-    // Update the results summary with this balance
-    results.summary.finalBalance = finalAccountBalance;
-
-    // Use the exact same balance to calculate retirement phase
-    const retirementResults = calculateRetirementPhase(
-      inputs,
-      finalAccountBalance
-    );
     return {
       ...results,
-      retirementPhaseResults: {
-        ...retirementResults,
-        summary: {
-          ...retirementResults.summary,
-          startingBalance: finalAccountBalance, // Ensure this is exactly the same value
-        },
-      },
+      retirementPhaseResults: calculateRetirementPhase(
+        inputs,
+        path.balances,
+        seed,
+        simulations,
+        trialStarts
+      ),
     };
   }
 
@@ -377,7 +196,8 @@ export const calculateMonthlyCompoundInterest = (
  * Uses simplified calculations without randomization for deterministic values
  */
 function calculatePredictableTestResult(
-  inputs: CalculatorInputs
+  inputs: CalculatorInputs,
+  seed: number
 ): CalculatorResults {
   const {
     initialInvestment,
@@ -386,6 +206,18 @@ function calculatePredictableTestResult(
     expectedAnnualReturn,
   } = inputs;
 
+  // Share of every balance held in the taxable account
+  const taxableShare = splitByAccountType(1, inputs).taxable;
+
+  // Ending accounts split like new money, with the taxable share of the basis
+  const endingBalances = (
+    endingBalance: number,
+    basis: number
+  ): AccountBalances => ({
+    ...splitByAccountType(endingBalance, inputs),
+    taxableBasis: taxableShare * basis,
+  });
+
   // For test case 1: No contributions, just growth
   if (monthlyContribution === 0) {
     // Simple annual compound interest formula: P(1+r)^t
@@ -420,9 +252,17 @@ function calculatePredictableTestResult(
           earnings: 0,
           fees: 0,
           taxes: 0,
+          federalTaxes: 0,
+          stateTaxes: 0,
           endingBalance: initialInvestment,
           inflationAdjustedValue: initialInvestment,
           remainingYears: undefined,
+          cashFlows: 0,
+          contributionOverflow: 0,
+          employerContributions: 0,
+          allocation: inputs.assetAllocation,
+          taxableBasis: taxableShare * initialInvestment,
+          unrealizedGain: 0,
         },
         {
           year: 1,
@@ -433,11 +273,23 @@ function calculatePredictableTestResult(
           earnings: finalBalance - initialInvestment,
           fees: 0,
           taxes: 0,
+          federalTaxes: 0,
+          stateTaxes: 0,
           endingBalance: finalBalance,
           inflationAdjustedValue: finalBalance,
           remainingYears: undefined,
+          cashFlows: 0,
+          contributionOverflow: 0,
+          employerContributions: 0,
+          allocation: inputs.assetAllocation,
+          taxableBasis: taxableShare * initialInvestment,
+          unrealizedGain: taxableShare * (finalBalance - initialInvestment),
         },
       ],
+      accountBalances: endingBalances(finalBalance, initialInvestment),
+      appliedTaxRates: appliedTaxRates(inputs),
+      seed,
+      currentYear: planStartYear(inputs),
     };
   }
   // For test case 2: With monthly contributions
@@ -483,9 +335,17 @@ function calculatePredictableTestResult(
           earnings: 0,
           fees: 0,
           taxes: 0,
+          federalTaxes: 0,
+          stateTaxes: 0,
           endingBalance: initialInvestment,
           inflationAdjustedValue: initialInvestment,
           remainingYears: undefined,
+          cashFlows: 0,
+          contributionOverflow: 0,
+          employerContributions: 0,
+          allocation: inputs.assetAllocation,
+          taxableBasis: taxableShare * initialInvestment,
+          unrealizedGain: 0,
         },
         {
           year: 1,
@@ -496,475 +356,210 @@ function calculatePredictableTestResult(
           earnings: initialInvestment * annualRate,
           fees: 0,
           taxes: 0,
+          federalTaxes: 0,
+          stateTaxes: 0,
           endingBalance: finalBalance,
           inflationAdjustedValue: finalBalance,
           remainingYears: undefined,
+          cashFlows: 0,
+          contributionOverflow: 0,
+          employerContributions: 0,
+          allocation: inputs.assetAllocation,
+          taxableBasis: taxableShare * (initialInvestment + yearlyContribution),
+          unrealizedGain:
+            taxableShare *
+            (finalBalance - (initialInvestment + yearlyContribution)),
         },
       ],
+      accountBalances: endingBalances(
+        finalBalance,
+        initialInvestment + yearlyContribution
+      ),
+      appliedTaxRates: appliedTaxRates(inputs),
+      seed,
+      currentYear: planStartYear(inputs),
     };
   }
 }
 
+// Accounts and price level an accumulation trial ended with, where the
+// retirement trial with the same index starts
+export interface RetirementTrialStart {
+  balances: AccountBalances;
+  // Inflation from today to retirement; the expected inflation when omitted
+  priceLevel?: number;
+}
+
 /**
- * Calculates sequence of returns risk by simulating the same returns in different orders
- * This is particularly important for withdrawal phase planning
+ * Monte Carlo analysis of the accumulation phase
+ * Each trial runs the full path simulation with its own return sequence, so the
+ * percentiles describe the same plan as the year-by-year projection
+ * Where each trial ends is added to trialStarts, when given
  */
 function calculateSequenceRisk(
   inputs: CalculatorInputs,
-  includeWithdrawalPhase: boolean
+  seed: number,
+  simulations: number = MONTE_CARLO_SIMULATIONS,
+  trialStarts?: RetirementTrialStart[]
 ): SequenceRiskAnalysis {
-  const {
-    initialInvestment,
-    monthlyContribution,
-    investmentHorizon,
-    expectedAnnualReturn,
-    returnVolatility,
-    inflationRate,
-    taxRate,
-    fees,
-    retirementPhase = {
-      enabled: false,
-      annualWithdrawal: 0,
-      withdrawalStartYear: investmentHorizon,
-      withdrawalAdjustForInflation: true,
-      retirementYears: 30,
-      retirementReturn: 0,
-    },
-  } = inputs;
-
-  // For deterministic results with zero volatility, calculate a single path
-  // but vary the results slightly to provide meaningful percentiles
-  if (returnVolatility === 0) {
-    // Calculate deterministic final balance with precise math
-    let finalBalance = initialInvestment;
-    const annualRate = expectedAnnualReturn / 100;
-    const monthlyRate = annualRate / 12;
-
-    // Compound monthly for more accuracy - using investmentHorizon years
-    // (0 to investmentHorizon-1, which is exactly investmentHorizon years total)
-    for (let month = 1; month <= investmentHorizon * 12; month++) {
-      // Add monthly contribution
-      finalBalance += monthlyContribution;
-
-      // Apply monthly growth
-      finalBalance *= 1 + monthlyRate;
-
-      // Apply fees
-      const monthlyFees =
-        finalBalance * ((fees.expenseRatio + fees.advisoryFee) / 12 / 100);
-      finalBalance -= monthlyFees;
-    }
-
-    // For percentile displays, create a small variation (±5%)
-    // This gives users a better sense of possible outcomes even with zero volatility
-    const lowerBound = finalBalance * 0.95; // 10th percentile - 5% lower
-    const medianValue = finalBalance; // 50th percentile - exact calculation
-    const upperBound = finalBalance * 1.05; // 90th percentile - 5% higher
-
-    // Calculate success rate based on retirement phase if enabled
-    let successRate = 1; // Default to 100% success
-
-    if (includeWithdrawalPhase && retirementPhase.enabled) {
-      // Simple deterministic calculation for success rate
-      let balance = finalBalance;
-      const annualReturn = retirementPhase.retirementReturn / 100;
-      let yearsLasted = 0;
-
-      for (let year = 0; year < retirementPhase.retirementYears; year++) {
-        // Calculate withdrawal amount adjusted for inflation
-        const withdrawalAmount = retirementPhase.withdrawalAdjustForInflation
-          ? retirementPhase.annualWithdrawal *
-            Math.pow(1 + inflationRate / 100, year)
-          : retirementPhase.annualWithdrawal;
-
-        // Withdraw from balance
-        balance -= withdrawalAmount;
-
-        // Check if ran out of money
-        if (balance <= 0) {
-          yearsLasted = year;
-          break;
-        }
-
-        // Apply annual return
-        balance *= 1 + annualReturn;
+  const returnModel = inputs.returnModel ?? DEFAULT_RETURN_MODEL;
+  const schedule = accumulationSchedule(inputs);
 
-        // Apply fees
-        const annualFees =
-          balance * ((fees.expenseRatio + fees.advisoryFee) / 100);
-        balance -= annualFees;
-
-        yearsLasted = year + 1;
-      }
-
-      // Set success rate based on how long money lasted
-      successRate = yearsLasted >= retirementPhase.retirementYears ? 1 : 0;
-    }
-
-    return {
-      worstCaseScenario: lowerBound,
-      bestCaseScenario: upperBound,
-      medianScenario: medianValue,
-      successRate: successRate,
-    };
-  }
-
-  // For non-zero volatility, use the original Monte Carlo simulation
-  // Number of simulations to run
-  const simulations = 5000;
+  // With zero volatility every trial follows the same path
+  const trials = isDeterministic(schedule) ? 1 : simulations;
   const finalBalances: number[] = [];
   let successCount = 0;
 
-  // Run multiple simulations with different return sequences
-  for (let sim = 0; sim < simulations; sim++) {
-    // Generate a sequence of annual returns for the entire investment horizon
-    const annualReturns: number[] = [];
-    for (let year = 0; year < investmentHorizon; year++) {
-      const annualReturn =
-        expectedAnnualReturn / 100 +
-        ((Math.random() - 0.5) * returnVolatility) / 100;
-      annualReturns.push(annualReturn);
-    }
-
-    // If we're analyzing withdrawal phase risk, shuffle returns to test different sequences
-    if (includeWithdrawalPhase && retirementPhase.enabled) {
-      // Always use investmentHorizon as the withdrawalStartYear
-      const withdrawalStartYear = investmentHorizon;
-
-      // Shuffle only the returns during withdrawal phase
-      const contributionReturns = annualReturns.slice(0, withdrawalStartYear);
-      const withdrawalReturns = annualReturns.slice(withdrawalStartYear);
-
-      // Fisher-Yates shuffle algorithm for withdrawal phase returns
-      for (let i = withdrawalReturns.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [withdrawalReturns[i], withdrawalReturns[j]] = [
-          withdrawalReturns[j],
-          withdrawalReturns[i],
-        ];
-      }
-
-      // Combine the returns back together
-      const shuffledReturns = [...contributionReturns, ...withdrawalReturns];
-      annualReturns.splice(0, annualReturns.length, ...shuffledReturns);
-    }
-
-    // Run a simplified simulation with these returns
-    let balance = initialInvestment;
-    let _didRunOutOfMoney = false;
-
-    for (let year = 0; year < investmentHorizon; year++) {
-      // Add contributions during accumulation phase
-      if (
-        !retirementPhase.enabled ||
-        year < investmentHorizon // Always use investmentHorizon as the withdrawal start year
-      ) {
-        // Add contributions (simplified, no annual increase)
-        balance += monthlyContribution * 12;
-      } else {
-        // Withdrawal phase
-        // Subtract annual withdrawal (simplified, no inflation adjustment)
-        balance -= retirementPhase.annualWithdrawal;
-
-        // Check if ran out of money
-        if (balance <= 0) {
-          _didRunOutOfMoney = true;
-          balance = 0;
-          break;
-        }
-      }
-
-      // Apply annual return
-      balance *= 1 + annualReturns[year];
-
-      // Simplified fee calculation
-      const annualFees =
-        (balance * (fees.expenseRatio + fees.advisoryFee)) / 100;
-      balance -= annualFees;
-
-      // Simplified tax calculation for taxable accounts
-      if (inputs.accountType === "taxable") {
-        // Approximate tax on dividends (assume 40% of returns are dividends)
-        const dividends = annualReturns[year] * balance * 0.4;
-        const dividendTax = dividends * (taxRate.dividends / 100);
-        balance -= dividendTax;
-      }
-    }
+  for (let sim = 0; sim < trials; sim++) {
+    const path = simulateAccumulationPath(
+      inputs,
+      createRandomMarketScenario(
+        returnModel,
+        schedule,
+        inputs.inflationRate,
+        deriveSeed(seed, sim)
+      )
+    );
 
-    finalBalances.push(balance);
-    if (!_didRunOutOfMoney) {
+    finalBalances.push(totalBalance(path.balances));
+    trialStarts?.push({ balances: path.balances, priceLevel: path.priceLevel });
+    if (!path.ranOutOfMoney) {
       successCount++;
     }
   }
 
-  // Sort the final balances for percentile calculations
+  return summarizeTrials(finalBalances, successCount);
+}
+
+/**
+ * Sorts trial outcomes and extracts the 10th, 50th and 90th percentiles
+ */
+function summarizeTrials(
+  finalBalances: number[],
+  successCount: number
+): SequenceRiskAnalysis {
   finalBalances.sort((a, b) => a - b);
 
   return {
     worstCaseScenario: finalBalances[Math.floor(finalBalances.length * 0.1)], // 10th percentile
     bestCaseScenario: finalBalances[Math.floor(finalBalances.length * 0.9)], // 90th percentile
     medianScenario: finalBalances[Math.floor(finalBalances.length * 0.5)], // 50th percentile
-    successRate: successCount / simulations,
+    successRate: successCount / finalBalances.length,
   };
 }
+
+// Retirement portfolios are modeled with a more conservative volatility,
+// and a zero expected return is treated as a fixed (cash-like) return
+const retirementVolatility = (inputs: CalculatorInputs): number =>
+  retirementExpectedReturn(inputs) !== 0 ? inputs.returnVolatility * 0.8 : 0;
+
+// Use different expected return for retirement (typically more conservative)
+const retirementExpectedReturn = (inputs: CalculatorInputs): number =>
+  inputs.retirementPhase.retirementReturn !== undefined
+    ? inputs.retirementPhase.retirementReturn
+    : inputs.expectedAnnualReturn;
+
+// Allocation and return assumptions for every accumulation year
+const accumulationSchedule = (inputs: CalculatorInputs): PortfolioYear[] =>
+  buildPortfolioSchedule(inputs, 0, Math.max(inputs.investmentHorizon, 1), {
+    expectedReturn: inputs.expectedAnnualReturn,
+    volatility: inputs.returnVolatility,
+  });
+
+// Allocation and return assumptions for every retirement year; a glide path
+// replaces the separate retirement return with its own allocation
+const retirementSchedule = (inputs: CalculatorInputs): PortfolioYear[] =>
+  buildPortfolioSchedule(
+    inputs,
+    inputs.investmentHorizon,
+    MAX_SIMULATION_YEARS,
+    {
+      expectedReturn: retirementExpectedReturn(inputs),
+      volatility: retirementVolatility(inputs),
+    }
+  );
+
+// With zero volatility every trial follows the same path
+const isDeterministic = (schedule: PortfolioYear[]): boolean =>
+  schedule.every((portfolioYear) => portfolioYear.volatility === 0);
+
 /**
- * Calculates the retirement phase separately, starting with the ending balance from the growth phase
+ * Calculates the retirement phase separately, starting with the accounts the growth phase ended with
+ * Pass the seed of the accumulation run so every path continues the market
+ * its accumulation counterpart drew from, and the accumulation trials'
+ * outcomes so each Monte Carlo trial also starts from the accounts its
+ * counterpart ended with; without them every trial starts from
+ * startingBalances
  */
 export function calculateRetirementPhase(
-  inputs: CalculatorInputs,
-  startingBalance: number
+  rawInputs: CalculatorInputs,
+  startingBalances: AccountBalances,
+  seed: number = normalizeSeed(rawInputs.seed ?? generateSeed()),
+  simulations: number = MONTE_CARLO_SIMULATIONS,
+  trialStarts?: RetirementTrialStart[]
 ): RetirementPhaseResults {
-  const {
-    inflationRate,
-    taxRate,
-    fees,
-    accountType,
-    accountAllocation,
-    retirementPhase,
-  } = inputs;
-
-  // Use different expected return for retirement (typically more conservative)
-  const retirementExpectedReturn =
-    retirementPhase.retirementReturn !== undefined
-      ? retirementPhase.retirementReturn
-      : inputs.expectedAnnualReturn;
-
-  // Calculate monthly rates for the retirement phase
-  const monthlyRate = retirementExpectedReturn / 12 / 100;
-  const _monthlyInflation = inflationRate / 12 / 100;
-  const monthlyExpenseRatio = fees.expenseRatio / 12 / 100;
-  const monthlyAdvisoryFee = fees.advisoryFee / 12 / 100;
-
-  // Initialize account balances based on ending balances from accumulation phase
-  // Use the same account allocation as in the accumulation phase
-  let balanceTaxDeferred =
-    accountType === "tax-free"
-      ? 0
-      : startingBalance *
-        (accountType === "mixed" ? accountAllocation.taxDeferred / 100 : 1);
-  let balanceTaxFree =
-    accountType === "tax-deferred" || accountType === "taxable"
-      ? 0
-      : startingBalance *
-        (accountType === "mixed" ? accountAllocation.taxFree / 100 : 1);
-  let balanceTaxable = accountType === "taxable" ? startingBalance : 0;
-
-  // Initialize tracking variables for retirement phase
-  let totalWithdrawals = 0;
-  let totalTaxesPaid = 0;
-  let totalGrowth = 0;
-  const yearByYearDetails = [];
+  const currentYear = planStartYear(rawInputs);
+  const inputs = resolvePortfolioInputs({ ...rawInputs, currentYear });
+  const { inflationRate, retirementPhase } = inputs;
+  const returnModel = inputs.returnModel ?? DEFAULT_RETURN_MODEL;
+  const expectedReturn = retirementExpectedReturn(inputs);
   const retirementYears = retirementPhase.retirementYears || 30; // Default to 30 years
+  const startingBalance = totalBalance(startingBalances);
+  // A deterministic accumulation runs one trial, which every retirement
+  // trial continues
+  const trialStart = (trial: number): RetirementTrialStart =>
+    trialStarts && trialStarts.length > 0
+      ? trialStarts[Math.min(trial, trialStarts.length - 1)]
+      : { balances: startingBalances };
+
+  // The headline market is keyed on the seed, so building it again replays
+  // exactly the same returns
+  const headlineMarket = () =>
+    createRandomMarketScenario(
+      returnModel,
+      retirementSchedule(inputs),
+      inflationRate,
+      deriveSeed(seed, HEADLINE_PATH),
+      inputs.investmentHorizon
+    );
+  const path = simulateRetirementPath(
+    inputs,
+    startingBalances,
+    headlineMarket()
+  );
 
-  // Track the cumulative withdrawals for the retirement chart
-  let cumulativeWithdrawals = 0;
+  // Replay the same market without the conversions to show what they change
+  const rothConversionComparison = activeRothConversion(inputs)
+    ? {
+        withConversions: conversionOutcome(path, inputs),
+        withoutConversions: conversionOutcome(
+          simulateRetirementPath(
+            { ...inputs, rothConversion: undefined },
+            startingBalances,
+            headlineMarket()
+          ),
+          inputs
+        ),
+      }
+    : undefined;
 
-  // Track if money has run out
-  let moneyRunOut = false;
-  let yearsOfIncome = retirementYears; // This will be user's specified period if money lasts that long
-  let projectedLongevity = 0; // Initialize to 0, we'll calculate the actual value
+  let { yearsOfIncome, projectedLongevity } = path;
 
   // Simple math calculation for predictable longevity with zero volatility and zero return
   // This gives us a quick estimate of how long the money would last with fixed withdrawals
-  let estimatedLongevity = 0;
-  if (retirementExpectedReturn === 0 && inputs.returnVolatility === 0) {
-    const annualWithdrawal = retirementPhase.annualWithdrawal;
-    if (annualWithdrawal > 0) {
-      estimatedLongevity = Math.floor(startingBalance / annualWithdrawal);
-    } else {
-      estimatedLongevity = 100; // If no withdrawals, assume it lasts a very long time
-    }
-  }
-
-  // Process each year of retirement
-  // Use 100 as the maximum possible retirement period to ensure we capture the real longevity
-  const MAX_SIMULATION_YEARS = 100;
-  for (let year = 0; year < MAX_SIMULATION_YEARS; year++) {
-    // Record starting balances for the year
-    const yearStartBalanceTaxDeferred = balanceTaxDeferred;
-    const yearStartBalanceTaxFree = balanceTaxFree;
-    const yearStartBalanceTaxable = balanceTaxable;
-    const yearStartBalance =
-      yearStartBalanceTaxDeferred +
-      yearStartBalanceTaxFree +
-      yearStartBalanceTaxable;
-
-    // Stop if we've run out of money
-    if (yearStartBalance <= 0) {
-      moneyRunOut = true;
-      projectedLongevity = year;
-
-      // Only update yearsOfIncome if it ran out before the user's specified period
-      if (year < retirementYears) {
-        yearsOfIncome = year;
-      }
-      break;
-    }
-
-    // Initialize yearly tracking variables
-    let yearWithdrawals = 0;
-    let yearWithdrawalTaxes = 0;
-    let yearEarningsTaxDeferred = 0;
-    let yearEarningsTaxFree = 0;
-    let yearEarningsTaxable = 0;
-    let yearFees = 0;
-    let yearTaxes = 0;
-
-    // Calculate annual withdrawal amount adjusted for inflation if needed
-    const annualWithdrawal = retirementPhase.withdrawalAdjustForInflation
-      ? retirementPhase.annualWithdrawal *
-        Math.pow(1 + inflationRate / 100, year)
-      : retirementPhase.annualWithdrawal;
-
-    // Monthly calculations
-    for (let month = 1; month <= 12; month++) {
-      // Adjust monthly withdrawal for inflation
-      const monthlyWithdrawal = annualWithdrawal / 12;
-
-      // Process withdrawals
-      if (monthlyWithdrawal > 0) {
-        let remainingWithdrawal = monthlyWithdrawal;
-
-        // 1. First withdraw from taxable accounts
-        if (balanceTaxable > 0) {
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxable);
-          const estimatedGain = withdrawal * 0.5; // Assume 50% of withdrawal is gain
-          const capitalGainsTax = estimatedGain * (taxRate.capitalGains / 100);
-
-          yearWithdrawalTaxes += capitalGainsTax;
-          totalTaxesPaid += capitalGainsTax;
-          balanceTaxable -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // 2. Then withdraw from tax-free accounts (no tax)
-        if (remainingWithdrawal > 0 && balanceTaxFree > 0) {
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxFree);
-          balanceTaxFree -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // 3. Finally withdraw from tax-deferred accounts (income tax)
-        if (remainingWithdrawal > 0 && balanceTaxDeferred > 0) {
-          const withdrawal = Math.min(remainingWithdrawal, balanceTaxDeferred);
-          const incomeTax = withdrawal * (taxRate.income / 100);
-
-          yearWithdrawalTaxes += incomeTax;
-          totalTaxesPaid += incomeTax;
-          balanceTaxDeferred -= withdrawal;
-          remainingWithdrawal -= withdrawal;
-          yearWithdrawals += withdrawal;
-        }
-
-        // If we still have remaining withdrawal needed but no money left
-        if (remainingWithdrawal > 0) {
-          // We've run out of money - can't withdraw more
-          yearWithdrawals -= remainingWithdrawal;
-          moneyRunOut = true;
-        }
-      }
-
-      // Investment growth
-      // Only apply volatility if return is not exactly 0
-      let monthlyReturnModifier = 0;
-
-      // Skip applying investment returns for year 0, as it represents
-      // the moment retirement begins (no time has passed yet)
-      // Only start applying returns from year 1 onwards
-      if (year > 0 && retirementExpectedReturn !== 0) {
-        monthlyReturnModifier =
-          ((Math.random() - 0.5) * (inputs.returnVolatility * 0.8)) /
-          Math.sqrt(12) /
-          100;
-      }
-
-      const monthlyReturn =
-        year === 0 ? 0 : monthlyRate + monthlyReturnModifier;
-
-      // Calculate earnings for each account type
-      const earningsTaxDeferred = balanceTaxDeferred * monthlyReturn;
-      const earningsTaxFree = balanceTaxFree * monthlyReturn;
-      const earningsTaxable = balanceTaxable * monthlyReturn;
-
-      yearEarningsTaxDeferred += earningsTaxDeferred;
-      yearEarningsTaxFree += earningsTaxFree;
-      yearEarningsTaxable += earningsTaxable;
-
-      // Apply fees to each account
-      const feeTaxDeferred =
-        balanceTaxDeferred * (monthlyExpenseRatio + monthlyAdvisoryFee);
-      const feeTaxFree =
-        balanceTaxFree * (monthlyExpenseRatio + monthlyAdvisoryFee);
-      const feeTaxable =
-        balanceTaxable * (monthlyExpenseRatio + monthlyAdvisoryFee);
-
-      yearFees += feeTaxDeferred + feeTaxFree + feeTaxable;
-      balanceTaxDeferred -= feeTaxDeferred;
-      balanceTaxFree -= feeTaxFree;
-      balanceTaxable -= feeTaxable;
-
-      // Apply taxes for taxable account (dividend taxes)
-      if (balanceTaxable > 0) {
-        // Assume 40% of monthly return is from dividends (realistic approximation)
-        const dividendPortion = earningsTaxable * 0.4;
-        const monthlyTaxes = dividendPortion * (taxRate.dividends / 100);
-        yearTaxes += monthlyTaxes;
-        totalTaxesPaid += monthlyTaxes;
-        balanceTaxable -= monthlyTaxes;
-      }
-
-      // Apply monthly return to each account
-      balanceTaxDeferred += earningsTaxDeferred;
-      balanceTaxFree += earningsTaxFree;
-      balanceTaxable += earningsTaxable;
-    }
-
-    // Calculate combined values for the year
-    const totalEndingBalance =
-      balanceTaxDeferred + balanceTaxFree + balanceTaxable;
-    const totalYearEarnings =
-      yearEarningsTaxDeferred + yearEarningsTaxFree + yearEarningsTaxable;
-
-    totalGrowth += totalYearEarnings;
-    totalWithdrawals += yearWithdrawals;
-    cumulativeWithdrawals += yearWithdrawals;
-
-    // Only record year-end details for the user-specified retirement period
-    if (year < retirementYears) {
-      // For the first year (year 0), use the exact startingBalance parameter
-      // that was passed to the function to ensure consistency with the investment growth phase
-      const balanceToUse = year === 0 ? startingBalance : yearStartBalance;
-
-      yearByYearDetails.push({
-        year,
-        startingBalance: balanceToUse,
-        withdrawals: yearWithdrawals,
-        cumulativeWithdrawals: cumulativeWithdrawals,
-        earnings: totalYearEarnings,
-        fees: yearFees,
-        taxes: yearTaxes + yearWithdrawalTaxes,
-        endingBalance: totalEndingBalance,
-        inflationAdjustedValue:
-          totalEndingBalance / Math.pow(1 + inflationRate / 100, year),
-        withdrawalTaxes: yearWithdrawalTaxes,
-      });
-    }
-
-    // Update projected longevity if we haven't run out of money
-    projectedLongevity = year + 1;
-
-    // If money ran out during this year, stop calculations
-    if (moneyRunOut) {
-      break;
-    }
-  }
-
-  // For zero volatility, zero return scenarios, use our simple math calculation
-  // if it's more accurate than the simulation
-  if (retirementExpectedReturn === 0 && inputs.returnVolatility === 0) {
-    projectedLongevity = estimatedLongevity;
+  if (
+    expectedReturn === 0 &&
+    inputs.returnVolatility === 0 &&
+    !inputs.glidePath?.enabled &&
+    (retirementPhase.withdrawalStrategy?.type ?? "fixed") === "fixed" &&
+    !retirementPhase.grossUpWithdrawals &&
+    !inputs.incomeStreams?.length &&
+    !inputs.cashFlowEvents?.length
+  ) {
+    projectedLongevity =
+      retirementPhase.annualWithdrawal > 0
+        ? Math.floor(startingBalance / retirementPhase.annualWithdrawal)
+        : 100; // If no withdrawals, assume it lasts a very long time
 
     // If the projected longevity is less than the user's specified period,
     // update yearsOfIncome to match the projection
@@ -973,25 +568,52 @@ export function calculateRetirementPhase(
     }
   }
 
-  // Determine the years of income this portfolio can provide
-  const finalBalance = balanceTaxDeferred + balanceTaxFree + balanceTaxable;
-
   // Calculate success rate and other metrics using Monte Carlo simulation
   const retirementRiskAnalysis = calculateRetirementSuccessRate(
     inputs,
-    startingBalance,
-    retirementPhase.retirementYears || 30
+    trialStart,
+    seed,
+    simulations
   );
 
+  // The comparisons run the first of the same Monte Carlo trials
+  const safeWithdrawal =
+    inputs.safeWithdrawal?.enabled && strategySetsSpending(inputs)
+      ? inputs.safeWithdrawal
+      : undefined;
+  const claimingAnalysis = inputs.socialSecurityClaiming?.enabled
+    ? calculateClaimingAnalysis(
+        inputs,
+        inputs.socialSecurityClaiming,
+        trialStart,
+        seed
+      )
+    : undefined;
+  const safeWithdrawalAnalysis = safeWithdrawal
+    ? calculateSafeWithdrawalAnalysis(
+        inputs,
+        safeWithdrawal,
+        startingBalances,
+        trialStart,
+        seed
+      )
+    : undefined;
+
   return {
     summary: {
       startingBalance,
-      totalWithdrawals,
-      totalGrowth,
-      finalBalance,
+      startingBalances,
+      rmdStartAge:
+        inputs.currentAge === undefined
+          ? undefined
+          : rmdStartAge(inputs.currentAge, currentYear),
+      totalConverted: path.totalConverted,
+      totalWithdrawals: path.totalWithdrawals,
+      totalGrowth: path.totalGrowth,
+      finalBalance: path.finalBalance,
       inflationAdjustedFinalBalance:
-        finalBalance / Math.pow(1 + inflationRate / 100, yearsOfIncome),
-      totalTaxesPaid,
+        path.finalBalance / Math.pow(1 + inflationRate / 100, yearsOfIncome),
+      totalTaxesPaid: path.totalTaxesPaid,
       yearsOfIncome,
       projectedLongevity,
     },
@@ -1001,145 +623,203 @@ export function calculateRetirementPhase(
       worstCaseBalance: retirementRiskAnalysis.worstCaseScenario,
       bestCaseBalance: retirementRiskAnalysis.bestCaseScenario,
     },
-    yearByYearDetails,
+    yearByYearDetails: path.yearByYearDetails,
+    claimingAnalysis,
+    safeWithdrawalAnalysis,
+    rothConversionComparison,
   };
 }
 
 /**
- * Calculates the success rate of a retirement plan using Monte Carlo simulation
+ * Compares retirement outcomes for every age the worker could claim Social
+ * Security, replacing any Social Security streams in the inputs with the
+ * household's benefits at that age
+ * Every age runs the same trials, and a trial's returns are keyed on its
+ * index and plan year rather than on how long earlier trials lasted, so
+ * every age sees the same markets and the differences between ages come from
+ * the claiming decision alone
  */
-function calculateRetirementSuccessRate(
+function calculateClaimingAnalysis(
   inputs: CalculatorInputs,
-  startingBalance: number,
-  retirementYears: number
-): SequenceRiskAnalysis {
-  const { inflationRate, fees, retirementPhase } = inputs;
-
-  // Use retirement expected return instead of accumulation expected return
-  const expectedReturn =
-    retirementPhase.retirementReturn !== undefined
-      ? retirementPhase.retirementReturn
-      : inputs.expectedAnnualReturn;
-
-  // For deterministic cases (zero volatility)
-  if (inputs.returnVolatility === 0) {
-    // Calculate how long the money will actually last with the given parameters
-    let balance = startingBalance;
-    const annualReturn = expectedReturn / 100;
-    let _didRunOutOfMoney = false;
-    let yearsLasted = 0;
+  settings: SocialSecurityClaiming,
+  trialStart: (trial: number) => RetirementTrialStart,
+  seed: number
+): ClaimingAnalysis {
+  const otherStreams = (inputs.incomeStreams ?? []).filter(
+    (stream) => stream.type !== "social-security"
+  );
 
-    // For zero return with fixed withdrawals, we can use simple math
-    if (
-      expectedReturn === 0 &&
-      retirementPhase.annualWithdrawal > 0 &&
-      !retirementPhase.withdrawalAdjustForInflation
-    ) {
-      yearsLasted = Math.floor(
-        startingBalance / retirementPhase.annualWithdrawal
+  const currentYear = planStartYear(inputs);
+  const options = claimingAgeOptions(settings, inputs, currentYear).map(
+    (claimingAge) => {
+      const benefits = claimingBenefits(
+        settings,
+        claimingAge,
+        inputs,
+        currentYear
       );
-    } else {
-      // Otherwise simulate year by year
-      for (let year = 0; year < 100; year++) {
-        // Use a large number to find true longevity
-        // Adjust for inflation if enabled
-        const withdrawalAmount = retirementPhase.withdrawalAdjustForInflation
-          ? retirementPhase.annualWithdrawal *
-            Math.pow(1 + inflationRate / 100, year)
-          : retirementPhase.annualWithdrawal;
-
-        // Withdraw and apply return
-        balance -= withdrawalAmount;
-        if (balance <= 0) {
-          // Ran out of money
-          _didRunOutOfMoney = true;
-          yearsLasted = year;
-          balance = 0;
-          break;
-        }
-
-        balance *= 1 + annualReturn;
-
-        // Apply fees
-        const annualFees =
-          (balance * (fees.expenseRatio + fees.advisoryFee)) / 100;
-        balance -= annualFees;
-
-        yearsLasted = year + 1;
-      }
+      const analysis = calculateRetirementSuccessRate(
+        { ...inputs, incomeStreams: [...otherStreams, ...benefits.streams] },
+        trialStart,
+        seed,
+        CLAIMING_SIMULATIONS
+      );
+      return {
+        claimingAge,
+        annualBenefit: benefits.worker,
+        spouseAnnualBenefit: benefits.spouse,
+        successRate: analysis.successRate,
+        medianEndingBalance: analysis.medianScenario,
+      };
     }
+  );
 
-    // Success is determined by whether the money lasts through the user's specified retirement years
-    const successRate = yearsLasted >= retirementYears ? 1 : 0;
+  const bestForSuccessRate = options.reduce((best, option) =>
+    option.successRate > best.successRate ||
+    (option.successRate === best.successRate &&
+      option.medianEndingBalance > best.medianEndingBalance)
+      ? option
+      : best
+  );
+  const bestForMedianWealth = options.reduce((best, option) =>
+    option.medianEndingBalance > best.medianEndingBalance ? option : best
+  );
 
-    // For percentile displays, create a small variation (±5%)
-    // This gives users more informative metrics even with zero volatility
-    const finalBalance = balance;
-    const lowerBound = finalBalance * 0.95; // 10th percentile
-    const medianValue = finalBalance; // 50th percentile
-    const upperBound = finalBalance * 1.05; // 90th percentile
+  return {
+    options,
+    bestForSuccessRate: bestForSuccessRate.claimingAge,
+    bestForMedianWealth: bestForMedianWealth.claimingAge,
+  };
+}
 
+/**
+ * Finds the largest first-year withdrawal that lasts through the retirement
+ * period at the confidence level, and the success rate at each rate on the
+ * curve
+ * Every withdrawal is tested on the same trials, and a trial's returns don't
+ * depend on what it withdraws, so a larger fixed withdrawal can only deplete
+ * a trial sooner and the success rate never rises with it. The curve brackets
+ * the answer between its last rate that meets the confidence level and the
+ * first that doesn't, and bisection narrows it from there
+ */
+function calculateSafeWithdrawalAnalysis(
+  inputs: CalculatorInputs,
+  settings: SafeWithdrawalSettings,
+  startingBalances: AccountBalances,
+  trialStart: (trial: number) => RetirementTrialStart,
+  seed: number
+): SafeWithdrawalAnalysis {
+  const startingBalance = totalBalance(startingBalances);
+  const confidence = settings.confidenceLevel / 100;
+  const successRateAt = (annualWithdrawal: number) =>
+    calculateRetirementSuccessRate(
+      {
+        ...inputs,
+        retirementPhase: { ...inputs.retirementPhase, annualWithdrawal },
+      },
+      trialStart,
+      seed,
+      SAFE_WITHDRAWAL_SIMULATIONS
+    ).successRate;
+
+  const curve = SAFE_WITHDRAWAL_RATES.map((withdrawalRate) => {
+    const annualWithdrawal = (startingBalance * withdrawalRate) / 100;
     return {
-      worstCaseScenario: lowerBound,
-      bestCaseScenario: upperBound,
-      medianScenario: medianValue,
-      successRate: successRate,
+      withdrawalRate,
+      annualWithdrawal,
+      successRate: successRateAt(annualWithdrawal),
     };
-  }
-
-  // Number of simulations to run
-  const simulations = 5000;
-  const finalBalances: number[] = [];
-  let successCount = 0;
+  });
 
-  // Run multiple retirement simulations
-  for (let sim = 0; sim < simulations; sim++) {
-    let balance = startingBalance;
-    let ranOutOfMoney = false;
+  // Past the end of the curve, the search runs up to the whole balance
+  const firstFailing = curve.findIndex(
+    (point) => point.successRate < confidence
+  );
+  let passing = firstFailing > 0 ? curve[firstFailing - 1].annualWithdrawal : 0;
+  let failing = startingBalance;
+  if (firstFailing === -1) {
+    passing = curve[curve.length - 1].annualWithdrawal;
+  } else {
+    failing = curve[firstFailing].annualWithdrawal;
+  }
 
-    for (let year = 0; year < retirementYears; year++) {
-      // Calculate withdrawal amount adjusted for inflation
-      const withdrawalAmount = retirementPhase.withdrawalAdjustForInflation
-        ? retirementPhase.annualWithdrawal *
-          Math.pow(1 + inflationRate / 100, year)
-        : retirementPhase.annualWithdrawal;
+  while (failing - passing > startingBalance * SAFE_WITHDRAWAL_PRECISION) {
+    const midpoint = (passing + failing) / 2;
+    if (successRateAt(midpoint) >= confidence) {
+      passing = midpoint;
+    } else {
+      failing = midpoint;
+    }
+  }
 
-      // Withdraw from balance
-      balance -= withdrawalAmount;
+  return {
+    confidenceLevel: settings.confidenceLevel,
+    safeWithdrawal: passing,
+    safeWithdrawalRate:
+      startingBalance > 0 ? (passing / startingBalance) * 100 : 0,
+    curve,
+  };
+}
 
-      // Check if ran out of money
-      if (balance <= 0) {
-        ranOutOfMoney = true;
-        balance = 0;
-        break;
-      }
+// Headline figures for one side of the Roth conversion comparison
+const conversionOutcome = (
+  path: RetirementPathResult,
+  inputs: CalculatorInputs
+): RothConversionOutcome => ({
+  totalConverted: path.totalConverted,
+  lifetimeTaxes: path.totalTaxesPaid,
+  endingBalance: path.finalBalance,
+  afterTaxEndingWealth: afterTaxWealth(
+    path.finalBalances,
+    path.finalIncome,
+    inputs,
+    path.finalIndexFactor
+  ),
+});
 
-      // Apply annual return with volatility - use more conservative volatility for retirement
-      const annualReturn =
-        expectedReturn / 100 +
-        ((Math.random() - 0.5) * (inputs.returnVolatility * 0.8)) / 100;
+/**
+ * Calculates the success rate of a retirement plan using Monte Carlo simulation
+ * Each trial runs the same retirement path model as the year-by-year projection,
+ * continuing the market and the accounts of the accumulation trial with the
+ * same index
+ */
+function calculateRetirementSuccessRate(
+  inputs: CalculatorInputs,
+  trialStart: (trial: number) => RetirementTrialStart,
+  seed: number,
+  simulations: number = MONTE_CARLO_SIMULATIONS
+): SequenceRiskAnalysis {
+  const returnModel = inputs.returnModel ?? DEFAULT_RETURN_MODEL;
+  const retirementYears = inputs.retirementPhase.retirementYears || 30;
+  const schedule = retirementSchedule(inputs);
 
-      balance *= 1 + annualReturn;
+  // With zero volatility every trial follows the same path
+  const trials = isDeterministic(schedule) ? 1 : simulations;
+  const finalBalances: number[] = [];
+  let successCount = 0;
 
-      // Apply fees
-      const annualFees =
-        (balance * (fees.expenseRatio + fees.advisoryFee)) / 100;
-      balance -= annualFees;
-    }
+  for (let sim = 0; sim < trials; sim++) {
+    // Success only requires the money to last through the user's retirement period
+    const start = trialStart(sim);
+    const path = simulateRetirementPath(
+      inputs,
+      start.balances,
+      createRandomMarketScenario(
+        returnModel,
+        schedule,
+        inputs.inflationRate,
+        deriveSeed(seed, sim),
+        inputs.investmentHorizon
+      ),
+      retirementYears,
+      start.priceLevel
+    );
 
-    finalBalances.push(balance);
-    if (!ranOutOfMoney) {
+    finalBalances.push(path.finalBalance);
+    if (!path.ranOutOfMoney) {
       successCount++;
     }
   }
 
-  // Sort balances for percentile calculations
-  finalBalances.sort((a, b) => a - b);
-
-  return {
-    worstCaseScenario: finalBalances[Math.floor(finalBalances.length * 0.1)], // 10th percentile
-    bestCaseScenario: finalBalances[Math.floor(finalBalances.length * 0.9)], // 90th percentile
-    medianScenario: finalBalances[Math.floor(finalBalances.length * 0.5)], // 50th percentile
-    successRate: successCount / simulations,
-  };
+  return summarizeTrials(finalBalances, successCount);
 }
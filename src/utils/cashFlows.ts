@@ -0,0 +1,49 @@
+import { CalculatorInputs, CashFlowEvent } from "@/types/calculator";
+
+// Starting values for an event the user adds
+export const DEFAULT_CASH_FLOW_EVENT: CashFlowEvent = {
+  name: "Home down payment",
+  amount: -60000,
+  year: 7,
+  month: 1,
+  recurringInterval: 0,
+  inflationIndexed: true,
+};
+
+/**
+ * Whether an event falls in a plan year (counted from today)
+ */
+export function eventOccursInYear(
+  event: CashFlowEvent,
+  planYear: number
+): boolean {
+  if (planYear < event.year) {
+    return false;
+  }
+  return event.recurringInterval > 0
+    ? (planYear - event.year) % event.recurringInterval === 0
+    : planYear === event.year;
+}
+
+/**
+ * Events due in a month of a plan year, with their amounts in that year's
+ * dollars
+ * indexFactor is the inflation from today to the start of the year
+ */
+export function cashFlowsForMonth(
+  inputs: CalculatorInputs,
+  planYear: number,
+  month: number,
+  indexFactor: number
+): Array<{ event: CashFlowEvent; amount: number }> {
+  return (inputs.cashFlowEvents ?? [])
+    .filter(
+      (event) => event.month === month && eventOccursInYear(event, planYear)
+    )
+    .map((event) => ({
+      event,
+      amount: event.inflationIndexed
+        ? event.amount * indexFactor
+        : event.amount,
+    }));
+}
@@ -0,0 +1,167 @@
+import {
+  AccountBalances,
+  CalculatorInputs,
+  ContributionSchedule,
+} from "@/types/calculator";
+import { CATCH_UP_AGE, CONTRIBUTION_LIMITS } from "@/data/contributionLimits";
+
+export const DEFAULT_CONTRIBUTION_SCHEDULE: ContributionSchedule = {
+  enabled: false,
+  overrides: [],
+  breaks: [],
+  annualBonus: 0,
+  applyContributionLimits: true,
+};
+
+// Room left under the IRS limits
+export interface ContributionRoom {
+  // 401(k) elective deferrals, shared by tax-deferred and tax-free savings
+  electiveDeferral: number;
+  // Roth IRA, for tax-free savings only
+  rothIra: number;
+}
+
+// Where a limited contribution went
+export interface LimitedContribution {
+  // Redirected to the taxable account
+  overflow: number;
+  // 401(k) elective deferrals, tax-deferred and Roth, the part an employer
+  // matches
+  electiveDeferral: number;
+}
+
+/**
+ * Contribution schedule in effect, or undefined when contributions simply
+ * grow at the annual increase
+ */
+export const activeContributionSchedule = (
+  inputs: CalculatorInputs
+): ContributionSchedule | undefined =>
+  inputs.contributionSchedule?.enabled
+    ? inputs.contributionSchedule
+    : undefined;
+
+/**
+ * Whether contributions are paused in a plan year, by a career break or by
+ * reaching the stop age
+ */
+export function contributionsPaused(
+  inputs: CalculatorInputs,
+  year: number
+): boolean {
+  const schedule = activeContributionSchedule(inputs);
+  if (!schedule) {
+    return false;
+  }
+
+  if (
+    schedule.stopAge !== undefined &&
+    inputs.currentAge !== undefined &&
+    inputs.currentAge + year >= schedule.stopAge
+  ) {
+    return true;
+  }
+  return schedule.breaks.some(
+    (careerBreak) =>
+      year >= careerBreak.startYear &&
+      year < careerBreak.startYear + careerBreak.years
+  );
+}
+
+/**
+ * Monthly contribution for a plan year: an override if one is set, otherwise
+ * the starting contribution grown by the annual increase
+ */
+export function monthlyContributionForYear(
+  inputs: CalculatorInputs,
+  year: number
+): number {
+  if (contributionsPaused(inputs, year)) {
+    return 0;
+  }
+
+  const override = activeContributionSchedule(inputs)?.overrides.find(
+    (entry) => entry.year === year
+  );
+  if (override) {
+    return override.monthlyContribution;
+  }
+  return (
+    inputs.monthlyContribution *
+    Math.pow(1 + inputs.annualContributionIncrease / 100, year)
+  );
+}
+
+/**
+ * Lump sum contributed in December of a plan year
+ */
+export function annualBonusForYear(
+  inputs: CalculatorInputs,
+  year: number
+): number {
+  const schedule = activeContributionSchedule(inputs);
+  if (!schedule || contributionsPaused(inputs, year)) {
+    return 0;
+  }
+  return (
+    schedule.annualBonus *
+    Math.pow(1 + inputs.annualContributionIncrease / 100, year)
+  );
+}
+
+/**
+ * A year's room under the IRS limits, indexed to the year's prices, with the
+ * catch-up amount from age 50 when the current age is known
+ * Without limits the 401(k) room is unlimited and there's no Roth IRA, so all
+ * tax-free savings are Roth 401(k) deferrals
+ */
+export function contributionRoom(
+  inputs: CalculatorInputs,
+  year: number,
+  indexFactor: number
+): ContributionRoom {
+  if (!activeContributionSchedule(inputs)?.applyContributionLimits) {
+    return { electiveDeferral: Infinity, rothIra: 0 };
+  }
+
+  const catchUp =
+    inputs.currentAge !== undefined && inputs.currentAge + year >= CATCH_UP_AGE;
+  const limit = (account: keyof ContributionRoom) =>
+    (CONTRIBUTION_LIMITS[account].limit +
+      (catchUp ? CONTRIBUTION_LIMITS[account].catchUp : 0)) *
+    indexFactor;
+
+  return {
+    electiveDeferral: limit("electiveDeferral"),
+    rothIra: limit("rothIra"),
+  };
+}
+
+/**
+ * Caps a contribution, already split by the account type, at the room left
+ * under the limits and sends the rest to the taxable account as new basis
+ * Tax-deferred savings use the 401(k) room. Tax-free savings fill the Roth
+ * IRA first, then share what's left of the 401(k) room
+ * Mutates the split and the room; returns the amount redirected and the
+ * 401(k) deferrals
+ */
+export function limitContribution(
+  split: AccountBalances,
+  room: ContributionRoom
+): LimitedContribution {
+  const taxDeferred = Math.min(split.taxDeferred, room.electiveDeferral);
+  room.electiveDeferral -= taxDeferred;
+
+  const rothIra = Math.min(split.taxFree, room.rothIra);
+  room.rothIra -= rothIra;
+  const rothDeferral = Math.min(split.taxFree - rothIra, room.electiveDeferral);
+  room.electiveDeferral -= rothDeferral;
+
+  const overflow =
+    split.taxDeferred - taxDeferred + (split.taxFree - rothIra - rothDeferral);
+  split.taxDeferred = taxDeferred;
+  split.taxFree = rothIra + rothDeferral;
+  split.taxable += overflow;
+  split.taxableBasis += overflow;
+  return { overflow, electiveDeferral: taxDeferred + rothDeferral };
+}
@@ -0,0 +1,69 @@
+import { CalculatorInputs, EmployerMatch } from "@/types/calculator";
+
+export const DEFAULT_EMPLOYER_MATCH: EmployerMatch = {
+  enabled: false,
+  salary: 80000,
+  salaryGrowth: 3,
+  tiers: [
+    { matchRate: 100, salaryPercent: 3 },
+    { matchRate: 50, salaryPercent: 2 },
+  ],
+  vesting: "graded",
+  vestingYears: 5,
+  yearsOfService: 0,
+};
+
+/**
+ * Employer match in effect, or undefined when off
+ */
+export const activeEmployerMatch = (
+  inputs: CalculatorInputs
+): EmployerMatch | undefined =>
+  inputs.employerMatch?.enabled ? inputs.employerMatch : undefined;
+
+/**
+ * Annual salary in a plan year
+ */
+export const salaryForYear = (match: EmployerMatch, year: number): number =>
+  match.salary * Math.pow(1 + match.salaryGrowth / 100, year);
+
+/**
+ * Employer match on one paycheck's contribution
+ * Each tier matches its share of the part of the contribution that falls in
+ * its slice of salary, so 100% of the first 3% plus 50% of the next 2% adds
+ * up to 4% of salary for a 5% contribution
+ */
+export function employerMatchForContribution(
+  match: EmployerMatch,
+  contribution: number,
+  salary: number
+): number {
+  let matched = 0;
+  let sliceStart = 0;
+
+  match.tiers.forEach((tier) => {
+    const sliceEnd = sliceStart + (salary * tier.salaryPercent) / 100;
+    const inSlice =
+      Math.min(contribution, sliceEnd) - Math.min(contribution, sliceStart);
+    matched += (inSlice * tier.matchRate) / 100;
+    sliceStart = sliceEnd;
+  });
+
+  return matched;
+}
+
+/**
+ * Share of the employer match that's vested after some years of service
+ */
+export function vestedShare(
+  match: EmployerMatch,
+  yearsOfService: number
+): number {
+  if (match.vesting === "immediate" || match.vestingYears <= 0) {
+    return 1;
+  }
+  if (match.vesting === "cliff") {
+    return yearsOfService >= match.vestingYears ? 1 : 0;
+  }
+  return Math.min(yearsOfService / match.vestingYears, 1);
+}
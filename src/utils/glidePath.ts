@@ -0,0 +1,160 @@
+import {
+  AssetAllocation,
+  CalculatorInputs,
+  GlidePath,
+} from "@/types/calculator";
+import {
+  ASSET_CLASSES,
+  DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+  PortfolioAssumptions,
+  PortfolioYear,
+  calculatePortfolioAssumptions,
+} from "@/utils/portfolio";
+
+export const DEFAULT_STEP_YEARS = 5;
+
+export const DEFAULT_GLIDE_PATH: GlidePath = {
+  enabled: false,
+  curve: "linear",
+  endAllocation: { stocks: 40, bonds: 50, cash: 10 },
+  retirementEndAllocation: { stocks: 30, bonds: 55, cash: 15 },
+  stepYears: DEFAULT_STEP_YEARS,
+  customAllocations: [],
+};
+
+// Blend two allocations; progress 0 gives the first, 1 the second
+function interpolateAllocation(
+  from: AssetAllocation,
+  to: AssetAllocation,
+  progress: number
+): AssetAllocation {
+  const t = Math.min(Math.max(progress, 0), 1);
+  return {
+    stocks: from.stocks + (to.stocks - from.stocks) * t,
+    bonds: from.bonds + (to.bonds - from.bonds) * t,
+    cash: from.cash + (to.cash - from.cash) * t,
+  };
+}
+
+// Share of a segment completed by the given year, following the curve
+function segmentProgress(
+  glidePath: GlidePath,
+  yearIntoSegment: number,
+  segmentYears: number
+): number {
+  if (segmentYears <= 0) {
+    return 1;
+  }
+
+  // Step curves only move every few years, jumping to the linear value
+  if (glidePath.curve === "step") {
+    const stepYears = Math.max(
+      1,
+      Math.round(glidePath.stepYears || DEFAULT_STEP_YEARS)
+    );
+    return (Math.floor(yearIntoSegment / stepYears) * stepYears) / segmentYears;
+  }
+
+  return yearIntoSegment / segmentYears;
+}
+
+/**
+ * Asset allocation for a plan year, counted from the start of the investment
+ * horizon (retirement year 0 is plan year investmentHorizon)
+ * Without an enabled glide path this is simply assetAllocation
+ */
+export function allocationForYear(
+  inputs: CalculatorInputs,
+  planYear: number
+): AssetAllocation {
+  const { glidePath, assetAllocation, investmentHorizon } = inputs;
+
+  if (!glidePath?.enabled) {
+    return assetAllocation;
+  }
+
+  const customAllocations = glidePath.customAllocations ?? [];
+  if (glidePath.curve === "custom" && customAllocations.length > 0) {
+    return customAllocations[Math.min(planYear, customAllocations.length - 1)];
+  }
+
+  // Accumulation: glide from the starting mix to the end mix
+  if (planYear < investmentHorizon) {
+    return interpolateAllocation(
+      assetAllocation,
+      glidePath.endAllocation,
+      segmentProgress(glidePath, planYear, investmentHorizon)
+    );
+  }
+
+  // Retirement: keep gliding from the end mix to the retirement end mix
+  const retirementYears = inputs.retirementPhase.retirementYears || 30;
+  return interpolateAllocation(
+    glidePath.endAllocation,
+    glidePath.retirementEndAllocation ?? glidePath.endAllocation,
+    segmentProgress(glidePath, planYear - investmentHorizon, retirementYears)
+  );
+}
+
+/**
+ * Allocation and return assumptions for each simulated year of a phase,
+ * starting at the given plan year. With a glide path every year's allocation
+ * drives its return and volatility; otherwise the fixed assumptions apply
+ */
+export function buildPortfolioSchedule(
+  inputs: CalculatorInputs,
+  firstPlanYear: number,
+  years: number,
+  fixedAssumptions: PortfolioAssumptions
+): PortfolioYear[] {
+  const assumptions =
+    inputs.capitalMarketAssumptions ?? DEFAULT_CAPITAL_MARKET_ASSUMPTIONS;
+  const schedule: PortfolioYear[] = [];
+
+  for (let year = 0; year < years; year++) {
+    const allocation = allocationForYear(inputs, firstPlanYear + year);
+    schedule.push({
+      allocation,
+      ...(inputs.glidePath?.enabled
+        ? calculatePortfolioAssumptions(allocation, assumptions)
+        : fixedAssumptions),
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Parses a custom glide path table with one "stocks/bonds/cash" row per year
+ * (e.g. "90/10/0"). Rows are scaled to sum to 100; unreadable rows are skipped
+ */
+export function parseGlidePathTable(text: string): AssetAllocation[] {
+  const allocations: AssetAllocation[] = [];
+
+  text.split("\n").forEach((line) => {
+    const weights = line
+      .split(/[\s/,;]+/)
+      .filter((part) => part !== "")
+      .map(Number);
+
+    if (
+      weights.length !== ASSET_CLASSES.length ||
+      weights.some((weight) => !isFinite(weight) || weight < 0)
+    ) {
+      return;
+    }
+
+    const total = weights[0] + weights[1] + weights[2];
+    if (total <= 0) {
+      return;
+    }
+
+    allocations.push({
+      stocks: (weights[0] / total) * 100,
+      bonds: (weights[1] / total) * 100,
+      cash: (weights[2] / total) * 100,
+    });
+  });
+
+  return allocations;
+}
@@ -0,0 +1,283 @@
+import {
+  CalculatorInputs,
+  CalculatorResults,
+  GoalSolution,
+  GoalSolverSettings,
+  GoalTarget,
+  GoalVariable,
+} from "@/types/calculator";
+import {
+  MONTE_CARLO_SIMULATIONS,
+  calculateMonthlyCompoundInterest,
+} from "@/utils/calculations";
+import { generateSeed, normalizeSeed } from "@/utils/random";
+import { planStartYear } from "@/utils/rmd";
+
+// Trials behind each success rate the solver evaluates; fewer than the full
+// Monte Carlo since the search runs the projection many times
+export const GOAL_SOLVER_SIMULATIONS = 250;
+// Trials behind each median balance; balance targets skip the retirement
+// Monte Carlo, so they can afford more trials for a steadier median
+export const GOAL_SOLVER_BALANCE_SIMULATIONS = 1000;
+const MAX_GOAL_SOLVER_ITERATIONS = 40;
+// Projections with the full Monte Carlo that narrow the search's answer down
+const MAX_GOAL_REFINEMENTS = 12;
+// First step away from the search's answer while bracketing it again with the
+// full Monte Carlo, as a share of the answer; doubles until the target flips
+const REFINEMENT_STEP = 0.02;
+
+export const DEFAULT_GOAL_SOLVER: GoalSolverSettings = {
+  target: "final-balance",
+  targetValue: 1500000,
+  variable: "monthlyContribution",
+};
+
+// Search range for each variable and the precision the search stops at
+export const GOAL_VARIABLE_RANGES: Record<
+  GoalVariable,
+  { min: number; max: number; tolerance: number }
+> = {
+  monthlyContribution: { min: 0, max: 1000000, tolerance: 1 },
+  initialInvestment: { min: 0, max: 100000000, tolerance: 10 },
+  expectedAnnualReturn: { min: -10, max: 30, tolerance: 0.01 },
+  investmentHorizon: { min: 1, max: 60, tolerance: 1 },
+  annualWithdrawal: { min: 0, max: 1000000, tolerance: 10 },
+};
+
+// Spending more is the one variable that moves every outcome down
+const raisesOutcome = (variable: GoalVariable): boolean =>
+  variable !== "annualWithdrawal";
+
+/**
+ * Rounds a solved value to the variable's precision, in the direction that
+ * still meets the target
+ */
+export function roundGoalValue(variable: GoalVariable, value: number): number {
+  const { tolerance } = GOAL_VARIABLE_RANGES[variable];
+  const steps = raisesOutcome(variable)
+    ? Math.ceil(value / tolerance)
+    : Math.floor(value / tolerance);
+  // Clears floating-point noise from fractional precisions
+  return Math.round(steps * tolerance * 100) / 100;
+}
+
+/**
+ * Current value of the variable in the inputs
+ */
+export const goalVariableValue = (
+  inputs: CalculatorInputs,
+  variable: GoalVariable
+): number =>
+  variable === "annualWithdrawal"
+    ? inputs.retirementPhase.annualWithdrawal
+    : inputs[variable];
+
+/**
+ * Inputs with the variable set to a value
+ */
+export const withGoalVariable = (
+  inputs: CalculatorInputs,
+  variable: GoalVariable,
+  value: number
+): CalculatorInputs =>
+  variable === "annualWithdrawal"
+    ? {
+        ...inputs,
+        retirementPhase: { ...inputs.retirementPhase, annualWithdrawal: value },
+      }
+    : { ...inputs, [variable]: value };
+
+/**
+ * A projection's outcome in the target's units: the Monte Carlo median final
+ * balance, in nominal or today's dollars, or the retirement success rate in
+ * percent
+ * The median rather than the headline projection, which is a single random
+ * path and can land far from the typical outcome
+ */
+export function goalOutcome(
+  results: CalculatorResults,
+  target: GoalTarget,
+  inputs: CalculatorInputs
+): number {
+  switch (target) {
+    case "final-balance":
+      return results.probabilityMetrics.median;
+    case "real-balance":
+      return (
+        results.probabilityMetrics.median /
+        Math.pow(1 + inputs.inflationRate / 100, inputs.investmentHorizon)
+      );
+    case "success-rate":
+      return (
+        (results.retirementPhaseResults?.probabilityMetrics.successRate ?? 0) *
+        100
+      );
+  }
+}
+
+/**
+ * Solves for the value of one input that reaches a target outcome
+ * Bisects between a value that misses the target and one that meets it.
+ * Every evaluation runs the same keyed Monte Carlo trials, so each trial sees
+ * the same market and the outcome moves only with the variable. Balance
+ * targets skip the retirement phase when it can't change the accumulation.
+ * The search runs fewer trials than a calculation, so its answer is then
+ * bracketed and narrowed again with the full Monte Carlo, and the outcome
+ * reported is the one a calculation with the rounded value gives.
+ * The solution is the cheapest value that meets the target: the least saved,
+ * the lowest return, the shortest horizon or the most spent
+ */
+export function solveGoal(
+  inputs: CalculatorInputs,
+  settings: GoalSolverSettings
+): GoalSolution {
+  const { target, targetValue, variable } = settings;
+  const range = GOAL_VARIABLE_RANGES[variable];
+  const seed = normalizeSeed(inputs.seed ?? generateSeed());
+  const currentYear = planStartYear(inputs);
+  const simulations =
+    target === "success-rate"
+      ? GOAL_SOLVER_SIMULATIONS
+      : GOAL_SOLVER_BALANCE_SIMULATIONS;
+
+  // The comparisons and historical backtest don't change the outcome, so
+  // each evaluation leaves them out. Balance targets only read the
+  // accumulation phase, which retirement changes only through withdrawals
+  // that start within the horizon
+  const skipRetirement =
+    target !== "success-rate" &&
+    inputs.retirementPhase.withdrawalStartYear === undefined;
+  const baseInputs: CalculatorInputs = {
+    ...inputs,
+    seed,
+    currentYear,
+    historicalBacktest: false,
+    socialSecurityClaiming: undefined,
+    safeWithdrawal: undefined,
+    retirementPhase: skipRetirement
+      ? { ...inputs.retirementPhase, enabled: false }
+      : inputs.retirementPhase,
+  };
+
+  let evaluations = 0;
+  let refinements = 0;
+  const outcomeWith = (value: number, trials: number): number => {
+    const candidate = withGoalVariable(baseInputs, variable, value);
+    return goalOutcome(
+      calculateMonthlyCompoundInterest(candidate, trials),
+      target,
+      candidate
+    );
+  };
+  const evaluate = (value: number): number => {
+    evaluations++;
+    return outcomeWith(value, simulations);
+  };
+  const refine = (value: number): number => {
+    refinements++;
+    return outcomeWith(value, MONTE_CARLO_SIMULATIONS);
+  };
+  // Horizons are whole years, so their candidates are rounded
+  const candidateValue = (value: number): number =>
+    variable === "investmentHorizon" ? Math.round(value) : value;
+  const solution = (
+    value: number | undefined,
+    outcome: number
+  ): GoalSolution => ({
+    settings,
+    value,
+    outcome,
+    evaluations,
+    refinements,
+    seed,
+    currentYear,
+  });
+
+  // Bracket the answer, starting from the current value
+  const cheapest = raisesOutcome(variable) ? range.min : range.max;
+  const richest = raisesOutcome(variable) ? range.max : range.min;
+  const current = Math.min(
+    Math.max(goalVariableValue(inputs, variable), range.min),
+    range.max
+  );
+
+  // Narrows a passing and a failing value down to the variable's precision,
+  // within a number of evaluations, and returns the last passing value
+  const bisect = (
+    passing: number,
+    failing: number,
+    outcomeOf: (value: number) => number,
+    maxEvaluations: number
+  ): number => {
+    for (
+      let i = 0;
+      i < maxEvaluations && Math.abs(passing - failing) > range.tolerance;
+      i++
+    ) {
+      const midpoint = candidateValue((passing + failing) / 2);
+      if (outcomeOf(midpoint) >= targetValue) {
+        passing = midpoint;
+      } else {
+        failing = midpoint;
+      }
+    }
+    return passing;
+  };
+
+  // Search with the smaller Monte Carlo for an estimate
+  let estimate: number;
+  if (evaluate(current) >= targetValue) {
+    estimate =
+      evaluate(cheapest) >= targetValue
+        ? cheapest
+        : bisect(
+            current,
+            cheapest,
+            evaluate,
+            MAX_GOAL_SOLVER_ITERATIONS - evaluations
+          );
+  } else {
+    estimate =
+      evaluate(richest) < targetValue
+        ? richest
+        : bisect(
+            richest,
+            current,
+            evaluate,
+            MAX_GOAL_SOLVER_ITERATIONS - evaluations
+          );
+  }
+
+  // Bracket the target again around the estimate with the full Monte Carlo,
+  // stepping further each time until the outcome crosses the target
+  const estimatePasses = refine(estimate) >= targetValue;
+  const away = estimatePasses ? cheapest : richest;
+  let step = Math.max(range.tolerance, Math.abs(estimate) * REFINEMENT_STEP);
+  let previous = estimate;
+  let crossed: number | undefined;
+  while (crossed === undefined && previous !== away) {
+    const probe = candidateValue(
+      previous < away
+        ? Math.min(previous + step, away)
+        : Math.max(previous - step, away)
+    );
+    if (refine(probe) >= targetValue === estimatePasses) {
+      previous = probe;
+      step *= 2;
+    } else {
+      crossed = probe;
+    }
+  }
+  if (crossed === undefined) {
+    // Even the cheapest value meets the target, or the richest misses it
+    return estimatePasses
+      ? solution(cheapest, refine(cheapest))
+      : solution(undefined, refine(richest));
+  }
+
+  const passing = estimatePasses
+    ? bisect(previous, crossed, refine, MAX_GOAL_REFINEMENTS)
+    : bisect(crossed, previous, refine, MAX_GOAL_REFINEMENTS);
+  // The outcome a calculation with the value as displayed and applied gives
+  return solution(passing, refine(roundGoalValue(variable, passing)));
+}
@@ -0,0 +1,171 @@
+import {
+  AssetAllocation,
+  CalculatorInputs,
+  HistoricalAnalysis,
+  HistoricalCohort,
+} from "@/types/calculator";
+import { HISTORICAL_RETURNS, HistoricalYear } from "@/data/historicalReturns";
+import { allocationForYear } from "@/utils/glidePath";
+import { normalizeAllocation } from "@/utils/portfolio";
+import {
+  MarketScenario,
+  simulateAccumulationPath,
+  simulateRetirementPath,
+  totalBalance,
+} from "@/utils/simulation";
+
+/**
+ * Annual portfolio return (percent) for one historical year, blending the
+ * asset class returns by the user's stock/bond/cash allocation
+ */
+function portfolioReturn(
+  data: HistoricalYear,
+  assetAllocation: AssetAllocation
+): number {
+  const weights = normalizeAllocation(assetAllocation);
+
+  return (
+    data.stocks * weights.stocks +
+    data.bonds * weights.bonds +
+    data.cash * weights.cash
+  );
+}
+
+/**
+ * Replays historical years starting at the given index: each simulated year
+ * earns that calendar year's portfolio return (spread evenly over 12 months)
+ * and experiences that year's inflation
+ * The allocation follows the glide path from the given plan year onward.
+ * Retirement's first year earns its return too, so no calendar year of the
+ * window goes unused
+ */
+function createHistoricalMarketScenario(
+  inputs: CalculatorInputs,
+  startIndex: number,
+  firstPlanYear: number
+): MarketScenario {
+  const allocation = (year: number) =>
+    allocationForYear(inputs, firstPlanYear + year);
+  const monthlyReturns: number[] = [];
+
+  return {
+    // Cache each year's monthly return; it's requested once per month
+    monthlyReturn: (year) => {
+      let monthlyReturn = monthlyReturns[year];
+      if (monthlyReturn === undefined) {
+        monthlyReturn =
+          Math.pow(
+            1 +
+              portfolioReturn(
+                HISTORICAL_RETURNS[startIndex + year],
+                allocation(year)
+              ) /
+                100,
+            1 / 12
+          ) - 1;
+        monthlyReturns[year] = monthlyReturn;
+      }
+      return monthlyReturn;
+    },
+    inflationRate: (year) => HISTORICAL_RETURNS[startIndex + year].inflation,
+    allocation,
+    growsInFirstRetirementYear: true,
+  };
+}
+
+// Cumulative inflation over a run of historical years
+function cumulativePriceLevel(startIndex: number, years: number): number {
+  let priceLevel = 1;
+  for (let i = startIndex; i < startIndex + years; i++) {
+    priceLevel *= 1 + HISTORICAL_RETURNS[i].inflation / 100;
+  }
+  return priceLevel;
+}
+
+/**
+ * Orders cohorts from worst to best: cohorts that ran out of money rank below
+ * those that didn't (earlier depletion is worse), then by real ending wealth
+ */
+function compareCohorts(a: HistoricalCohort, b: HistoricalCohort): number {
+  if (a.success !== b.success) {
+    return a.success ? 1 : -1;
+  }
+  if (!a.success && a.yearsOfIncome !== b.yearsOfIncome) {
+    return (a.yearsOfIncome ?? 0) - (b.yearsOfIncome ?? 0);
+  }
+  return (
+    (a.retirementRealBalance ?? a.accumulationRealBalance) -
+    (b.retirementRealBalance ?? b.accumulationRealBalance)
+  );
+}
+
+/**
+ * Runs the accumulation phase and, if enabled, the retirement phase over every
+ * rolling window of the bundled historical dataset (1928 onward)
+ */
+export function calculateHistoricalBacktest(
+  inputs: CalculatorInputs
+): HistoricalAnalysis {
+  const { investmentHorizon, retirementPhase } = inputs;
+  const retirementYears = retirementPhase.enabled
+    ? retirementPhase.retirementYears || 30
+    : 0;
+  const windowYears = investmentHorizon + retirementYears;
+  const cohorts: HistoricalCohort[] = [];
+
+  for (
+    let startIndex = 0;
+    startIndex + windowYears <= HISTORICAL_RETURNS.length;
+    startIndex++
+  ) {
+    const accumulation = simulateAccumulationPath(
+      inputs,
+      createHistoricalMarketScenario(inputs, startIndex, 0)
+    );
+    const accumulationBalance = totalBalance(accumulation.balances);
+
+    const cohort: HistoricalCohort = {
+      startYear: HISTORICAL_RETURNS[startIndex].year,
+      endYear: HISTORICAL_RETURNS[startIndex + windowYears - 1].year,
+      accumulationBalance,
+      accumulationRealBalance: accumulationBalance / accumulation.priceLevel,
+      success: !accumulation.ranOutOfMoney,
+    };
+
+    // Retirement continues with the calendar years that follow accumulation
+    if (retirementPhase.enabled) {
+      const retirement = simulateRetirementPath(
+        inputs,
+        accumulation.balances,
+        createHistoricalMarketScenario(
+          inputs,
+          startIndex + investmentHorizon,
+          investmentHorizon
+        ),
+        retirementYears,
+        accumulation.priceLevel
+      );
+
+      cohort.retirementEndingBalance = retirement.finalBalance;
+      cohort.retirementRealBalance =
+        retirement.finalBalance / cumulativePriceLevel(startIndex, windowYears);
+      cohort.yearsOfIncome = retirement.yearsOfIncome;
+      cohort.success = cohort.success && !retirement.ranOutOfMoney;
+    }
+
+    cohorts.push(cohort);
+  }
+
+  const ranked = [...cohorts].sort(compareCohorts);
+
+  return {
+    windowYears,
+    cohorts,
+    successRate:
+      cohorts.length > 0
+        ? cohorts.filter((cohort) => cohort.success).length / cohorts.length
+        : 0,
+    worstCohort: ranked[0],
+    bestCohort: ranked[ranked.length - 1],
+  };
+}
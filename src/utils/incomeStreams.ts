@@ -0,0 +1,192 @@
+import {
+  CalculatorInputs,
+  IncomeStream,
+  IncomeStreamType,
+} from "@/types/calculator";
+import { retirementStartAge } from "@/utils/rmd";
+
+export const INCOME_STREAM_TYPES: IncomeStreamType[] = [
+  "social-security",
+  "pension",
+  "annuity",
+  "rental",
+];
+
+// Starting values for a stream the user adds
+export const DEFAULT_INCOME_STREAMS: Record<IncomeStreamType, IncomeStream> = {
+  "social-security": {
+    type: "social-security",
+    name: "Social Security",
+    annualAmount: 24000,
+    cola: 2.5,
+    startYear: 0,
+    claimingAge: 67,
+  },
+  pension: {
+    type: "pension",
+    name: "Pension",
+    annualAmount: 20000,
+    cola: 0,
+    startYear: 0,
+  },
+  annuity: {
+    type: "annuity",
+    name: "Annuity",
+    annualAmount: 12000,
+    cola: 0,
+    startYear: 0,
+  },
+  rental: {
+    type: "rental",
+    name: "Rental income",
+    annualAmount: 18000,
+    cola: 2,
+    startYear: 0,
+  },
+};
+
+export const MIN_CLAIMING_AGE = 62;
+export const MAX_CLAIMING_AGE = 70;
+
+// A year's income stream payments, grouped by how they're taxed
+export interface StreamIncome {
+  // Each stream's payment, in the order of inputs.incomeStreams
+  payments: number[];
+  total: number;
+  // Pensions and annuities
+  ordinaryIncome: number;
+  // Rental income
+  otherIncome: number;
+  socialSecurity: number;
+}
+
+/**
+ * Social Security full retirement age for a birth year: 66 for 1943-1954,
+ * rising two months a year to 67 for 1960 and later
+ */
+export function fullRetirementAge(birthYear: number): number {
+  if (birthYear <= 1954) {
+    return 66;
+  }
+  if (birthYear >= 1960) {
+    return 67;
+  }
+  return 66 + ((birthYear - 1954) * 2) / 12;
+}
+
+/**
+ * Share of the full retirement age benefit paid when claiming at an age
+ * Claiming early cuts the benefit 5/9% a month for the first 36 months and
+ * 5/12% a month beyond; delaying adds 2/3% a month (8% a year) up to age 70
+ */
+export function claimingAdjustment(
+  claimingAge: number,
+  fullAge: number
+): number {
+  const age = Math.min(
+    Math.max(claimingAge, MIN_CLAIMING_AGE),
+    MAX_CLAIMING_AGE
+  );
+  const months = Math.round((age - fullAge) * 12);
+
+  if (months < 0) {
+    const early = -months;
+    return (
+      1 - (Math.min(early, 36) * 5) / 900 - (Math.max(early - 36, 0) * 5) / 1200
+    );
+  }
+  return 1 + (months * 2) / 300;
+}
+
+/**
+ * Retirement year a stream's first payment falls in
+ * Social Security starts at the claiming age when the current age is known
+ */
+export function streamStartYear(
+  stream: IncomeStream,
+  inputs: CalculatorInputs
+): number {
+  const startAge = retirementStartAge(inputs);
+  if (
+    stream.type === "social-security" &&
+    stream.claimingAge !== undefined &&
+    startAge !== undefined
+  ) {
+    return Math.max(Math.ceil(stream.claimingAge - startAge), 0);
+  }
+  return stream.startYear;
+}
+
+/**
+ * Payment a stream makes in a retirement year, or 0 outside its years
+ */
+export function streamPayment(
+  stream: IncomeStream,
+  inputs: CalculatorInputs,
+  year: number,
+  currentYear: number
+): number {
+  const startYear = streamStartYear(stream, inputs);
+  if (
+    year < startYear ||
+    (stream.endYear !== undefined && year > stream.endYear)
+  ) {
+    return 0;
+  }
+
+  const growth = 1 + stream.cola / 100;
+  if (stream.type !== "social-security") {
+    return stream.annualAmount * Math.pow(growth, year - startYear);
+  }
+
+  // The benefit is quoted in today's dollars and indexed from today
+  const birthYear =
+    inputs.currentAge === undefined
+      ? undefined
+      : currentYear - inputs.currentAge;
+  const adjustment =
+    stream.claimingAge === undefined
+      ? 1
+      : claimingAdjustment(
+          stream.claimingAge,
+          birthYear === undefined ? 67 : fullRetirementAge(birthYear)
+        );
+  return (
+    stream.annualAmount *
+    adjustment *
+    Math.pow(growth, inputs.investmentHorizon + year)
+  );
+}
+
+/**
+ * Every income stream's payment in a retirement year, grouped by tax treatment
+ */
+export function streamIncomeForYear(
+  inputs: CalculatorInputs,
+  year: number,
+  currentYear: number
+): StreamIncome {
+  const income: StreamIncome = {
+    payments: [],
+    total: 0,
+    ordinaryIncome: 0,
+    otherIncome: 0,
+    socialSecurity: 0,
+  };
+
+  (inputs.incomeStreams ?? []).forEach((stream) => {
+    const payment = streamPayment(stream, inputs, year, currentYear);
+    income.payments.push(payment);
+    income.total += payment;
+
+    if (stream.type === "social-security") {
+      income.socialSecurity += payment;
+    } else if (stream.type === "rental") {
+      income.otherIncome += payment;
+    } else {
+      income.ordinaryIncome += payment;
+    }
+  });
+
+  return income;
+}
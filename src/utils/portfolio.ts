@@ -0,0 +1,166 @@
+import {
+  AssetAllocation,
+  AssetClass,
+  CalculatorInputs,
+  CapitalMarketAssumptions,
+} from "@/types/calculator";
+
+export const ASSET_CLASSES: AssetClass[] = ["stocks", "bonds", "cash"];
+
+// Long-run US assumptions, roughly in line with 1928-2023 history
+export const DEFAULT_CAPITAL_MARKET_ASSUMPTIONS: CapitalMarketAssumptions = {
+  enabled: false,
+  assetClasses: {
+    stocks: { expectedReturn: 10, volatility: 18 },
+    bonds: { expectedReturn: 5, volatility: 7 },
+    cash: { expectedReturn: 3, volatility: 1 },
+  },
+  correlations: {
+    stocksBonds: 0.1,
+    stocksCash: 0,
+    bondsCash: 0.2,
+  },
+};
+
+export interface PortfolioAssumptions {
+  expectedReturn: number; // Annual, percent
+  volatility: number; // Annual standard deviation, percent
+}
+
+// Allocation held during one simulated year and its return assumptions
+export interface PortfolioYear extends PortfolioAssumptions {
+  allocation: AssetAllocation;
+}
+
+/**
+ * Converts an allocation in percent to weights summing to 1
+ * Falls back to an all-stock portfolio if no allocation is set
+ */
+export function normalizeAllocation(
+  allocation: AssetAllocation
+): Record<AssetClass, number> {
+  const totalWeight = allocation.stocks + allocation.bonds + allocation.cash;
+
+  if (totalWeight <= 0) {
+    return { stocks: 1, bonds: 0, cash: 0 };
+  }
+
+  return {
+    stocks: allocation.stocks / totalWeight,
+    bonds: allocation.bonds / totalWeight,
+    cash: allocation.cash / totalWeight,
+  };
+}
+
+/**
+ * Full correlation matrix, ordered as ASSET_CLASSES
+ */
+export function correlationMatrix(
+  assumptions: CapitalMarketAssumptions
+): number[][] {
+  const { stocksBonds, stocksCash, bondsCash } = assumptions.correlations;
+
+  return [
+    [1, stocksBonds, stocksCash],
+    [stocksBonds, 1, bondsCash],
+    [stocksCash, bondsCash, 1],
+  ];
+}
+
+/**
+ * Portfolio expected return (weighted average) and volatility
+ * (sqrt of w' * Covariance * w) for an allocation
+ */
+export function calculatePortfolioAssumptions(
+  allocation: AssetAllocation,
+  assumptions: CapitalMarketAssumptions
+): PortfolioAssumptions {
+  const weights = normalizeAllocation(allocation);
+  const correlations = correlationMatrix(assumptions);
+
+  let expectedReturn = 0;
+  let variance = 0;
+
+  ASSET_CLASSES.forEach((assetClass, i) => {
+    const asset = assumptions.assetClasses[assetClass];
+    expectedReturn += weights[assetClass] * asset.expectedReturn;
+
+    ASSET_CLASSES.forEach((otherClass, j) => {
+      const other = assumptions.assetClasses[otherClass];
+      variance +=
+        weights[assetClass] *
+        weights[otherClass] *
+        asset.volatility *
+        other.volatility *
+        correlations[i][j];
+    });
+  });
+
+  return {
+    expectedReturn,
+    // Guard against slightly negative variance from an inconsistent matrix
+    volatility: Math.sqrt(Math.max(variance, 0)),
+  };
+}
+
+/**
+ * Returns the inputs with expected return and volatility derived from the
+ * asset allocation when capital market assumptions are enabled
+ */
+export function resolvePortfolioInputs(
+  inputs: CalculatorInputs
+): CalculatorInputs {
+  if (!inputs.capitalMarketAssumptions?.enabled) {
+    return inputs;
+  }
+
+  const portfolio = calculatePortfolioAssumptions(
+    inputs.assetAllocation,
+    inputs.capitalMarketAssumptions
+  );
+
+  return {
+    ...inputs,
+    expectedAnnualReturn: portfolio.expectedReturn,
+    returnVolatility: portfolio.volatility,
+  };
+}
+
+/**
+ * Sets one weight and shares the remainder between the others in proportion
+ * to their current weights, so the total stays at 100
+ */
+export function rebalanceAllocation<K extends string>(
+  allocation: Record<K, number>,
+  changed: K,
+  value: number
+): Record<K, number> {
+  const weight = Math.min(Math.max(Math.round(value), 0), 100);
+  const others = (Object.keys(allocation) as K[]).filter(
+    (key) => key !== changed
+  );
+  const otherTotal = others.reduce((sum, key) => sum + allocation[key], 0);
+
+  const rebalanced: Record<K, number> = { ...allocation };
+  rebalanced[changed] = weight;
+  let remainder = 100 - weight;
+
+  others.forEach((key, i) => {
+    // The last weight takes whatever is left so rounding never breaks the total
+    if (i === others.length - 1) {
+      rebalanced[key] = remainder;
+      return;
+    }
+
+    // Split evenly when the others are all empty
+    const share = Math.round(
+      otherTotal > 0
+        ? ((100 - weight) * allocation[key]) / otherTotal
+        : (100 - weight) / others.length
+    );
+    rebalanced[key] = share;
+    remainder -= share;
+  });
+
+  return rebalanced;
+}
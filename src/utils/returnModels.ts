@@ -0,0 +1,138 @@
+import { ReturnModel } from "@/types/calculator";
+import { RandomGenerator } from "@/utils/random";
+
+export const DEFAULT_DEGREES_OF_FREEDOM = 5;
+
+export const DEFAULT_RETURN_MODEL: ReturnModel = {
+  distribution: "normal",
+  degreesOfFreedom: DEFAULT_DEGREES_OF_FREEDOM,
+};
+
+/**
+ * Standard normal draw (mean 0, standard deviation 1) using the Box-Muller transform
+ */
+export function drawStandardNormal(random: RandomGenerator): number {
+  // 1 - random() keeps u1 in (0, 1] so the logarithm is always finite
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Gamma(shape, 1) draw using the Marsaglia-Tsang method
+ */
+function drawGamma(shape: number, random: RandomGenerator): number {
+  // Boost shapes below 1: Gamma(a) = Gamma(a + 1) * U^(1/a)
+  if (shape < 1) {
+    return drawGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = drawStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Student-t draw rescaled to unit variance, so the volatility input keeps its
+ * meaning while the tails get fatter as degrees of freedom decrease
+ */
+export function drawStandardStudentT(
+  degreesOfFreedom: number,
+  random: RandomGenerator
+): number {
+  // Variance is only finite above 2 degrees of freedom
+  const df = Math.max(degreesOfFreedom, 2.1);
+  const chiSquared = 2 * drawGamma(df / 2, random);
+  const t = drawStandardNormal(random) / Math.sqrt(chiSquared / df);
+  return t * Math.sqrt((df - 2) / df);
+}
+
+/**
+ * Draws a single-period return (as a decimal) whose mean and standard deviation
+ * match the given per-period values under the selected distribution
+ */
+export function drawReturn(
+  model: ReturnModel,
+  mean: number,
+  volatility: number,
+  random: RandomGenerator
+): number {
+  // No volatility means no randomness - don't consume any draws
+  if (volatility === 0) {
+    return mean;
+  }
+
+  switch (model.distribution) {
+    // Lognormal draws are bounded below by -100% on their own
+    case "lognormal": {
+      // Solve for the log-space parameters that reproduce the arithmetic
+      // mean and standard deviation of the simple return
+      const growth = Math.max(1 + mean, 1e-6);
+      const sigmaSquared = Math.log(
+        1 + (volatility * volatility) / (growth * growth)
+      );
+      const mu = Math.log(growth) - sigmaSquared / 2;
+      return (
+        Math.exp(mu + Math.sqrt(sigmaSquared) * drawStandardNormal(random)) - 1
+      );
+    }
+    // Symmetric draws can't lose more than everything
+    case "student-t":
+      return Math.max(
+        -1,
+        mean +
+          volatility *
+            drawStandardStudentT(
+              model.degreesOfFreedom ?? DEFAULT_DEGREES_OF_FREEDOM,
+              random
+            )
+      );
+    case "normal":
+    default:
+      return Math.max(-1, mean + volatility * drawStandardNormal(random));
+  }
+}
+
+/**
+ * Monthly return draw for an annual expected return and volatility (both in percent)
+ * Volatility is scaled by sqrt(12) so annual dispersion matches the input
+ */
+export function drawMonthlyReturn(
+  model: ReturnModel,
+  annualReturn: number,
+  annualVolatility: number,
+  random: RandomGenerator
+): number {
+  return drawReturn(
+    model,
+    annualReturn / 12 / 100,
+    annualVolatility / Math.sqrt(12) / 100,
+    random
+  );
+}
+
+/**
+ * Annual return draw for an annual expected return and volatility (both in percent)
+ */
+export function drawAnnualReturn(
+  model: ReturnModel,
+  annualReturn: number,
+  annualVolatility: number,
+  random: RandomGenerator
+): number {
+  return drawReturn(model, annualReturn / 100, annualVolatility / 100, random);
+}
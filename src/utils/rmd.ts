@@ -0,0 +1,61 @@
+import { CalculatorInputs } from "@/types/calculator";
+import { UNIFORM_LIFETIME_TABLE } from "@/data/uniformLifetimeTable";
+
+const MIN_TABLE_AGE = 72;
+const MAX_TABLE_AGE = 120;
+
+/**
+ * Age required minimum distributions begin under SECURE 2.0: 73 for people
+ * born before 1960, 75 for everyone born in 1960 or later
+ * The birth year is estimated from the current age
+ */
+export function rmdStartAge(currentAge: number, currentYear: number): number {
+  return currentYear - currentAge >= 1960 ? 75 : 73;
+}
+
+/**
+ * Calendar year the plan starts in: the year pinned in the inputs, or this
+ * year
+ */
+export const planStartYear = (inputs: CalculatorInputs): number =>
+  inputs.currentYear ?? new Date().getFullYear();
+
+/**
+ * Age at the start of the retirement phase, or undefined if the user's
+ * current age isn't known
+ */
+export const retirementStartAge = (
+  inputs: CalculatorInputs
+): number | undefined =>
+  inputs.currentAge === undefined
+    ? undefined
+    : inputs.currentAge + inputs.investmentHorizon;
+
+/**
+ * Uniform Lifetime Table distribution period for an age
+ * Below the table's first age the period is extended by a year per year of
+ * age, close to the table's own slope
+ */
+export function distributionPeriod(age: number): number {
+  const wholeAge = Math.floor(age);
+  if (wholeAge < MIN_TABLE_AGE) {
+    return UNIFORM_LIFETIME_TABLE[MIN_TABLE_AGE] + (MIN_TABLE_AGE - wholeAge);
+  }
+  return UNIFORM_LIFETIME_TABLE[Math.min(wholeAge, MAX_TABLE_AGE)];
+}
+
+/**
+ * Minimum the tax-deferred account must pay out in a year, from its balance
+ * at the start of the year and the owner's age; 0 before RMDs begin
+ */
+export function requiredMinimumDistribution(
+  balance: number,
+  age: number,
+  startAge: number
+): number {
+  if (age < startAge || balance <= 0) {
+    return 0;
+  }
+
+  return balance / distributionPeriod(age);
+}
@@ -0,0 +1,162 @@
+import {
+  AccountBalances,
+  CalculatorInputs,
+  FederalTaxSettings,
+  RothConversionPlan,
+  TaxRates,
+} from "@/types/calculator";
+import {
+  DEFAULT_FEDERAL_TAX,
+  TaxableIncome,
+  federalOrdinaryIncome,
+  filingStatus,
+  ordinaryBracketCeiling,
+  retirementFederalTax,
+  retirementTaxRates,
+  withdrawalTax,
+} from "@/utils/taxes";
+
+export const DEFAULT_ROTH_CONVERSION: RothConversionPlan = {
+  enabled: false,
+  strategy: "fill-bracket",
+  annualAmount: 20000,
+  targetBracketRate: 22,
+  startYear: 0,
+  endYear: 9,
+  taxSource: "taxable",
+};
+
+/**
+ * Roth conversion plan for the retirement phase, or undefined when off
+ */
+export const activeRothConversion = (
+  inputs: CalculatorInputs
+): RothConversionPlan | undefined =>
+  inputs.retirementPhase.enabled && inputs.rothConversion?.enabled
+    ? inputs.rothConversion
+    : undefined;
+
+/**
+ * Amount the plan converts in a retirement year, before capping at the
+ * tax-deferred balance
+ * Filling a bracket only counts ordinary income (including taxable Social
+ * Security); capital gains stack on top
+ */
+function plannedConversion(
+  plan: RothConversionPlan,
+  inputs: CalculatorInputs,
+  year: number,
+  ordinaryIncome: number,
+  indexFactor: number
+): number {
+  if (year < plan.startYear || year > plan.endYear) {
+    return 0;
+  }
+  if (plan.strategy === "fixed") {
+    return plan.annualAmount;
+  }
+
+  const ceiling = ordinaryBracketCeiling(
+    inputs.federalTax ?? DEFAULT_FEDERAL_TAX,
+    plan.targetBracketRate,
+    indexFactor
+  );
+  return Math.max(ceiling - ordinaryIncome, 0);
+}
+
+/**
+ * Converts part of the tax-deferred account to the tax-free account at the
+ * end of a retirement year, once the year's other income is known
+ * The conversion is taxed as ordinary income on top of that income, and the
+ * tax is paid from the taxable account (any shortfall is withheld from the
+ * conversion) or withheld from the conversion itself
+ * Mutates the balances and the year's income; returns the amount converted
+ * and the tax paid
+ */
+export function applyRothConversion(
+  balances: AccountBalances,
+  income: TaxableIncome,
+  inputs: CalculatorInputs,
+  year: number,
+  taxRate: TaxRates,
+  federalTax: FederalTaxSettings | undefined,
+  indexFactor: number
+): { converted: number; tax: number } {
+  const plan = activeRothConversion(inputs);
+  if (!plan) {
+    return { converted: 0, tax: 0 };
+  }
+
+  const converted = Math.min(
+    plannedConversion(
+      plan,
+      inputs,
+      year,
+      federalOrdinaryIncome(income, filingStatus(inputs)),
+      indexFactor
+    ),
+    Math.max(balances.taxDeferred, 0)
+  );
+  if (converted <= 0) {
+    return { converted: 0, tax: 0 };
+  }
+
+  // The tax is whatever the conversion adds to the year's bill
+  const taxBefore = withdrawalTax(
+    income,
+    inputs,
+    taxRate,
+    federalTax,
+    indexFactor
+  );
+  income.ordinaryIncome += converted;
+  const tax =
+    withdrawalTax(income, inputs, taxRate, federalTax, indexFactor) - taxBefore;
+
+  // Selling taxable shares to pay the tax realizes gains at the average basis
+  let paidFromTaxable = 0;
+  if (plan.taxSource === "taxable" && balances.taxable > 0) {
+    paidFromTaxable = Math.min(tax, balances.taxable);
+    const basisSold =
+      balances.taxableBasis * (paidFromTaxable / balances.taxable);
+    income.capitalGains += Math.max(paidFromTaxable - basisSold, 0);
+    balances.taxableBasis -= basisSold;
+    balances.taxable -= paidFromTaxable;
+  }
+
+  balances.taxDeferred -= converted;
+  balances.taxFree += converted - (tax - paidFromTaxable);
+
+  return { converted, tax };
+}
+
+/**
+ * Ending accounts net of the tax still owed on them: tax-deferred savings and
+ * unrealized taxable gains, cashed out on top of the final year's income
+ * The liquidation runs through the same federal (brackets when enabled,
+ * otherwise the flat retirement rates) and state taxes as every withdrawal,
+ * so a large balance climbs the brackets
+ */
+export function afterTaxWealth(
+  balances: AccountBalances,
+  income: TaxableIncome,
+  inputs: CalculatorInputs,
+  indexFactor: number
+): number {
+  const taxRate = retirementTaxRates(inputs);
+  const federalTax = retirementFederalTax(inputs);
+  const taxOf = (taxableIncome: TaxableIncome) =>
+    withdrawalTax(taxableIncome, inputs, taxRate, federalTax, indexFactor);
+  const liquidationTax =
+    taxOf({
+      ...income,
+      ordinaryIncome: income.ordinaryIncome + Math.max(balances.taxDeferred, 0),
+      capitalGains:
+        income.capitalGains +
+        Math.max(balances.taxable - balances.taxableBasis, 0),
+    }) - taxOf(income);
+
+  return (
+    balances.taxDeferred + balances.taxFree + balances.taxable - liquidationTax
+  );
+}
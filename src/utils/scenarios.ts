@@ -0,0 +1,79 @@
+import {
+  CalculatorResults,
+  SavedScenario,
+  ScenarioComparison,
+  ScenarioMetrics,
+} from "@/types/calculator";
+import {
+  MONTE_CARLO_SIMULATIONS,
+  calculateMonthlyCompoundInterest,
+} from "@/utils/calculations";
+import { normalizeSeed } from "@/utils/random";
+import { planStartYear } from "@/utils/rmd";
+
+/**
+ * Headline metrics of one projection, over both phases
+ */
+export function scenarioMetrics(results: CalculatorResults): ScenarioMetrics {
+  const retirement = results.retirementPhaseResults;
+  const fees = [
+    ...results.yearByYearDetails,
+    ...(retirement?.yearByYearDetails ?? []),
+  ].reduce((sum, row) => sum + row.fees, 0);
+
+  return {
+    finalBalance: results.summary.finalBalance,
+    inflationAdjustedValue: results.summary.inflationAdjustedValue,
+    accumulationSuccessRate: results.probabilityMetrics.successRate,
+    retirementSuccessRate: retirement?.probabilityMetrics.successRate,
+    totalTaxes:
+      (results.summary.totalTaxesPaid ?? 0) +
+      (retirement?.summary.totalTaxesPaid ?? 0),
+    totalFees: fees,
+  };
+}
+
+/**
+ * Runs every scenario with one seed, each from the year it starts in
+ * Markets are keyed on the seed, the path and the plan year, so every
+ * scenario's headline path and each of its trials draw the same random
+ * shocks in the same year, whatever its horizon, spending or depletion point;
+ * the differences between scenarios come from their inputs. Scenarios run the
+ * full Monte Carlo, so loading one and calculating with the seed reproduces
+ * its metrics
+ * The comparisons and historical backtest don't feed the metrics, so they're
+ * left out
+ */
+export function runScenarioComparison(
+  scenarios: SavedScenario[],
+  seed: number
+): ScenarioComparison {
+  const comparisonSeed = normalizeSeed(seed);
+
+  const outcomes = scenarios.map(({ id, name, inputs }) => {
+    const currentYear = planStartYear(inputs);
+    const results = calculateMonthlyCompoundInterest(
+      {
+        ...inputs,
+        seed: comparisonSeed,
+        currentYear,
+        historicalBacktest: false,
+        socialSecurityClaiming: undefined,
+        safeWithdrawal: undefined,
+      },
+      MONTE_CARLO_SIMULATIONS
+    );
+    return {
+      id,
+      name,
+      currentYear,
+      metrics: scenarioMetrics(results),
+      balances: [
+        ...results.yearByYearDetails,
+        ...(results.retirementPhaseResults?.yearByYearDetails ?? []),
+      ].map((row) => row.endingBalance),
+    };
+  });
+
+  return { seed: comparisonSeed, outcomes };
+}
@@ -0,0 +1,1070 @@
+import {
+  AccountBalances,
+  AccountBucket,
+  AssetAllocation,
+  CalculatorInputs,
+  CalculatorResults,
+  FederalTaxSettings,
+  FilingStatus,
+  RetirementPhaseResults,
+  ReturnModel,
+  TaxRates,
+  WithdrawalOrder,
+} from "@/types/calculator";
+import { PortfolioYear } from "@/utils/portfolio";
+import {
+  RandomGenerator,
+  createRandomGenerator,
+  deriveSeed,
+} from "@/utils/random";
+import {
+  planStartYear,
+  requiredMinimumDistribution,
+  retirementStartAge,
+  rmdStartAge,
+} from "@/utils/rmd";
+import { cashFlowsForMonth } from "@/utils/cashFlows";
+import {
+  annualBonusForYear,
+  contributionRoom,
+  contributionsPaused,
+  limitContribution,
+  monthlyContributionForYear,
+} from "@/utils/contributions";
+import {
+  activeEmployerMatch,
+  employerMatchForContribution,
+  salaryForYear,
+  vestedShare,
+} from "@/utils/employerMatch";
+import { streamIncomeForYear } from "@/utils/incomeStreams";
+import { applyRothConversion } from "@/utils/rothConversion";
+import {
+  DEFAULT_WITHDRAWAL_ORDER,
+  deferredIncomeCeiling,
+  emptyWithdrawals,
+  grossUpWithdrawal,
+  planWithdrawal,
+} from "@/utils/withdrawalOrder";
+import {
+  createWithdrawalStrategy,
+  strategySetsSpending,
+} from "@/utils/withdrawalStrategies";
+import {
+  TaxableIncome,
+  calculateStateIncomeTax,
+  emptyIncome,
+  federalDividendTax,
+  federalOrdinaryIncome,
+  federalWithdrawalTax,
+  filingStatus,
+  retirementFederalTax,
+  retirementTaxRates,
+  stateTaxTable,
+  withdrawalTax,
+} from "@/utils/taxes";
+import { drawMonthlyReturn } from "@/utils/returnModels";
+
+/**
+ * Single path simulation core
+ *
+ * The headline projection and every Monte Carlo trial run through the same
+ * month-by-month model, so percentiles always describe the plan shown in the
+ * year-by-year table. Only the market scenario (returns and inflation) differs
+ * between runs.
+ */
+
+// Use 100 as the maximum possible retirement period to ensure we capture the real longevity
+export const MAX_SIMULATION_YEARS = 100;
+
+// Shortfall below which a withdrawal still counts as paid in full; splitting
+// a withdrawal across accounts can lose a fraction of a cent to rounding
+const WITHDRAWAL_TOLERANCE = 0.01;
+
+// Market conditions a path is simulated under, indexed by simulated year
+export interface MarketScenario {
+  // Monthly return (as a decimal); called once per simulated month
+  monthlyReturn: (year: number) => number;
+  // Annual inflation rate (percent) during the given year
+  inflationRate: (year: number) => number;
+  // Asset allocation held during the given year
+  allocation: (year: number) => AssetAllocation;
+  // Whether retirement year 0 earns its return; random markets treat it as
+  // the moment retirement begins, while historical ones replay a calendar
+  // year that would otherwise be skipped
+  growsInFirstRetirementYear?: boolean;
+}
+
+export interface AccumulationPathResult {
+  balances: AccountBalances;
+  // Cumulative inflation over the horizon (1 = no inflation)
+  priceLevel: number;
+  totalContributions: number;
+  totalWithdrawals: number;
+  // Net cash-flow events: deposits less withdrawals
+  totalCashFlows: number;
+  // Vested employer match, and the unvested match forfeited on leaving
+  totalEmployerContributions: number;
+  forfeitedEmployerContributions: number;
+  totalTaxesPaid: number;
+  ranOutOfMoney: boolean;
+  yearByYearDetails: CalculatorResults["yearByYearDetails"];
+}
+
+export interface RetirementPathResult {
+  // Balance at the end of the user's retirement period (0 if depleted)
+  finalBalance: number;
+  finalBalances: AccountBalances;
+  // Price level the final balance is deflated by (start of its final year)
+  finalPriceLevel: number;
+  totalWithdrawals: number;
+  totalGrowth: number;
+  totalTaxesPaid: number;
+  // Moved from tax-deferred to tax-free by Roth conversions
+  totalConverted: number;
+  // Income and bracket index factor of the final year, which the tax still
+  // owed on the final balances is worked out on top of
+  finalIncome: TaxableIncome;
+  finalIndexFactor: number;
+  yearsOfIncome: number;
+  projectedLongevity: number;
+  ranOutOfMoney: boolean;
+  yearByYearDetails: RetirementPhaseResults["yearByYearDetails"];
+}
+
+interface MonthlyFlows {
+  withdrawn: number;
+  taxes: number;
+  // Taxable income behind the withdrawal, for annual bracket-based tax
+  ordinaryIncome: number;
+  capitalGains: number;
+  byAccount: Record<AccountBucket, number>;
+}
+
+export const totalBalance = (balances: AccountBalances): number =>
+  balances.taxDeferred + balances.taxFree + balances.taxable;
+
+/**
+ * Creates a scenario drawing independent monthly returns from the selected
+ * distribution, with constant inflation
+ * Each year uses its own entry of the portfolio schedule; the last entry is
+ * held for any years beyond it
+ * Every plan year draws from its own generator, derived from the path's seed
+ * and the year (firstPlanYear + simulated year), so a year's returns are the
+ * same however the path got there: whatever it withdrew, when it ran out, or
+ * whether it started in accumulation or retirement
+ */
+export function createRandomMarketScenario(
+  model: ReturnModel,
+  schedule: PortfolioYear[],
+  inflationRate: number,
+  seed: number,
+  firstPlanYear: number = 0
+): MarketScenario {
+  const portfolioYear = (year: number) =>
+    schedule[Math.min(year, schedule.length - 1)];
+  const generators: RandomGenerator[] = [];
+  const generatorForYear = (year: number) => {
+    if (!generators[year]) {
+      generators[year] = createRandomGenerator(
+        deriveSeed(seed, firstPlanYear + year)
+      );
+    }
+    return generators[year];
+  };
+
+  return {
+    monthlyReturn: (year) =>
+      drawMonthlyReturn(
+        model,
+        portfolioYear(year).expectedReturn,
+        portfolioYear(year).volatility,
+        generatorForYear(year)
+      ),
+    inflationRate: () => inflationRate,
+    allocation: (year) => portfolioYear(year).allocation,
+  };
+}
+
+// Percent of the taxable balance paid out as dividends each year
+export const DEFAULT_DIVIDEND_YIELD = 2;
+
+/**
+ * Splits an amount across account buckets based on the account type
+ * New money is all basis, so the taxable basis matches the taxable amount
+ */
+export function splitByAccountType(
+  amount: number,
+  inputs: CalculatorInputs
+): AccountBalances {
+  const { accountType, accountAllocation } = inputs;
+
+  if (accountType === "mixed") {
+    const taxable = amount * (accountAllocation.taxable / 100);
+    return {
+      taxDeferred: amount * (accountAllocation.taxDeferred / 100),
+      taxFree: amount * (accountAllocation.taxFree / 100),
+      taxable,
+      taxableBasis: taxable,
+    };
+  }
+
+  const taxable = accountType === "taxable" ? amount : 0;
+  return {
+    taxDeferred: accountType === "tax-deferred" ? amount : 0,
+    taxFree: accountType === "tax-free" ? amount : 0,
+    taxable,
+    taxableBasis: taxable,
+  };
+}
+
+/**
+ * Withdraws an amount from the accounts in the user's withdrawal order
+ * (Taxable -> Tax-Free -> Tax-Deferred by default)
+ * Mutates the balances and returns the amount actually withdrawn, the taxes due
+ * at flat rates, the income they were charged on and the amount each account paid
+ */
+function withdrawFromAccounts(
+  balances: AccountBalances,
+  amount: number,
+  taxRate: TaxRates,
+  order: WithdrawalOrder,
+  deferredRoom: number
+): MonthlyFlows {
+  const split = planWithdrawal(balances, amount, order, deferredRoom);
+  let taxes = 0;
+  let capitalGains = 0;
+
+  // Taxable: each dollar sold carries the account's average cost basis
+  if (split.taxable > 0) {
+    const basisSold =
+      balances.taxableBasis * (split.taxable / balances.taxable);
+    const realizedGain = split.taxable - basisSold;
+
+    // Losses aren't taxed; gains pay capital gains tax
+    capitalGains += Math.max(realizedGain, 0);
+    taxes += Math.max(realizedGain, 0) * (taxRate.capitalGains / 100);
+
+    balances.taxableBasis -= basisSold;
+    balances.taxable -= split.taxable;
+  }
+
+  // Tax-free: no tax
+  balances.taxFree -= split.taxFree;
+
+  // Tax-deferred: taxed as ordinary income
+  const ordinaryIncome = split.taxDeferred;
+  taxes += ordinaryIncome * (taxRate.income / 100);
+  balances.taxDeferred -= split.taxDeferred;
+
+  return {
+    withdrawn: split.taxDeferred + split.taxFree + split.taxable,
+    taxes,
+    ordinaryIncome,
+    capitalGains,
+    byAccount: split,
+  };
+}
+
+/**
+ * Applies the cash-flow events due in a month
+ * Deposits go to the event's account, or are split by the account allocation,
+ * as new basis. Withdrawals come from the event's account first and then
+ * follow the withdrawal order, taxed like any other withdrawal
+ * Mutates the balances and returns the net amount moved, the withdrawal flows
+ * and whether a withdrawal came up short
+ */
+function applyCashFlowEvents(
+  balances: AccountBalances,
+  inputs: CalculatorInputs,
+  planYear: number,
+  month: number,
+  indexFactor: number,
+  taxRate: TaxRates,
+  order: WithdrawalOrder,
+  deferredRoom: number
+): { net: number; flows: MonthlyFlows; shortfall: boolean } {
+  const flows: MonthlyFlows = {
+    withdrawn: 0,
+    taxes: 0,
+    ordinaryIncome: 0,
+    capitalGains: 0,
+    byAccount: emptyWithdrawals(),
+  };
+  let net = 0;
+  let shortfall = false;
+
+  cashFlowsForMonth(inputs, planYear, month, indexFactor).forEach(
+    ({ event, amount }) => {
+      if (amount >= 0) {
+        const deposit = event.account
+          ? { ...splitByAccountType(0, inputs), [event.account]: amount }
+          : splitByAccountType(amount, inputs);
+        balances.taxDeferred += deposit.taxDeferred;
+        balances.taxFree += deposit.taxFree;
+        balances.taxable += deposit.taxable;
+        balances.taxableBasis += deposit.taxable;
+        net += amount;
+        return;
+      }
+
+      const eventOrder: WithdrawalOrder = event.account
+        ? {
+            ...order,
+            type: "sequence",
+            sequence: [
+              event.account,
+              ...order.sequence.filter((account) => account !== event.account),
+            ],
+          }
+        : order;
+      const withdrawal = withdrawFromAccounts(
+        balances,
+        -amount,
+        taxRate,
+        eventOrder,
+        deferredRoom - flows.ordinaryIncome
+      );
+      flows.withdrawn += withdrawal.withdrawn;
+      flows.taxes += withdrawal.taxes;
+      flows.ordinaryIncome += withdrawal.ordinaryIncome;
+      flows.capitalGains += withdrawal.capitalGains;
+      net -= withdrawal.withdrawn;
+      if (withdrawal.withdrawn < -amount - WITHDRAWAL_TOLERANCE) {
+        shortfall = true;
+      }
+    }
+  );
+
+  return { net, flows, shortfall };
+}
+
+/**
+ * Applies one month of returns, fees and dividend taxes to every account
+ * Mutates the balances and returns the month's earnings, fees and taxes
+ */
+function applyMonthlyGrowth(
+  balances: AccountBalances,
+  monthlyReturn: number,
+  monthlyFeeRate: number,
+  monthlyDividendYield: number,
+  taxRate: TaxRates
+): { earnings: number; fees: number; taxes: number; dividends: number } {
+  // Calculate earnings for each account type
+  const earningsTaxDeferred = balances.taxDeferred * monthlyReturn;
+  const earningsTaxFree = balances.taxFree * monthlyReturn;
+  const earningsTaxable = balances.taxable * monthlyReturn;
+
+  // Apply fees to each account
+  const feeTaxDeferred = balances.taxDeferred * monthlyFeeRate;
+  const feeTaxFree = balances.taxFree * monthlyFeeRate;
+  const feeTaxable = balances.taxable * monthlyFeeRate;
+
+  balances.taxDeferred -= feeTaxDeferred;
+  balances.taxFree -= feeTaxFree;
+  balances.taxable -= feeTaxable;
+
+  // Apply taxes for taxable account (dividend taxes)
+  // Dividends are the part of the return paid in cash; what's left after
+  // tax is reinvested and adds to the basis, the rest is price appreciation
+  let taxes = 0;
+  let dividends = 0;
+  if (balances.taxable > 0) {
+    dividends = balances.taxable * monthlyDividendYield;
+    taxes = dividends * (taxRate.dividends / 100);
+    balances.taxable -= taxes;
+    balances.taxableBasis += dividends - taxes;
+  }
+
+  // Apply monthly return to each account
+  balances.taxDeferred += earningsTaxDeferred;
+  balances.taxFree += earningsTaxFree;
+  balances.taxable += earningsTaxable;
+
+  return {
+    earnings: earningsTaxDeferred + earningsTaxFree + earningsTaxable,
+    fees: feeTaxDeferred + feeTaxFree + feeTaxable,
+    taxes,
+    dividends,
+  };
+}
+
+/**
+ * Pays a year's federal tax on dividends from the taxable account when
+ * brackets are enabled; with flat rates it's paid monthly as they arrive
+ */
+function applyFederalDividendTax(
+  balances: AccountBalances,
+  income: TaxableIncome,
+  federalTax: FederalTaxSettings | undefined,
+  indexFactor: number,
+  status: FilingStatus
+): number {
+  if (!federalTax) {
+    return 0;
+  }
+
+  const dividendTax = Math.min(
+    federalDividendTax(income, federalTax, indexFactor, status),
+    Math.max(balances.taxable, 0)
+  );
+
+  // Less of each dividend was reinvested, so less was added to the basis
+  balances.taxable -= dividendTax;
+  balances.taxableBasis = Math.max(balances.taxableBasis - dividendTax, 0);
+
+  return dividendTax;
+}
+
+/**
+ * Works out a year's state income tax, if a state is selected
+ * The share due on dividends is paid from the taxable account, like the
+ * federal dividend tax; the share due on withdrawals is reported
+ * alongside the withdrawal taxes
+ */
+function applyStateTax(
+  balances: AccountBalances,
+  income: TaxableIncome,
+  inputs: CalculatorInputs,
+  indexFactor: number
+): { dividendTax: number; withdrawalTax: number } {
+  const table = stateTaxTable(inputs.state);
+  if (!table) {
+    return { dividendTax: 0, withdrawalTax: 0 };
+  }
+
+  const status = filingStatus(inputs);
+  const withdrawalTax = calculateStateIncomeTax(
+    { ...income, dividends: 0 },
+    table,
+    status,
+    indexFactor
+  );
+  // Dividends stack on top of the withdrawal income
+  const dividendTax = Math.min(
+    calculateStateIncomeTax(income, table, status, indexFactor) - withdrawalTax,
+    Math.max(balances.taxable, 0)
+  );
+
+  // Less of each dividend was reinvested, so less was added to the basis
+  balances.taxable -= dividendTax;
+  balances.taxableBasis = Math.max(balances.taxableBasis - dividendTax, 0);
+
+  return { dividendTax, withdrawalTax };
+}
+
+/**
+ * Simulates one path through the investment horizon: monthly contributions with
+ * annual increases, optional withdrawals, returns, fees and taxes per account
+ */
+export function simulateAccumulationPath(
+  inputs: CalculatorInputs,
+  market: MarketScenario
+): AccumulationPathResult {
+  const {
+    initialInvestment,
+    investmentHorizon,
+    taxRate,
+    fees,
+    retirementPhase,
+  } = inputs;
+
+  const monthlyFeeRate = (fees.expenseRatio + fees.advisoryFee) / 12 / 100;
+  const monthlyDividendYield =
+    (inputs.dividendYield ?? DEFAULT_DIVIDEND_YIELD) / 12 / 100;
+  const withdrawalStartYear =
+    retirementPhase.withdrawalStartYear ?? investmentHorizon;
+  const withdrawalOrder = inputs.withdrawalOrder ?? DEFAULT_WITHDRAWAL_ORDER;
+  const match = activeEmployerMatch(inputs);
+  // Employment ends when withdrawals start or at the end of the horizon
+  const lastWorkingYear =
+    (retirementPhase.enabled
+      ? Math.min(withdrawalStartYear, investmentHorizon)
+      : investmentHorizon) - 1;
+
+  // Initialize account balances
+  const balances = splitByAccountType(initialInvestment, inputs);
+
+  // Initialize tracking variables
+  let totalContributions = initialInvestment;
+  let totalWithdrawals = 0;
+  let totalCashFlows = 0;
+  let totalEmployerContributions = 0;
+  let forfeitedEmployerContributions = 0;
+  let yearsOfService = match?.yearsOfService ?? 0;
+  let totalTaxesPaid = 0;
+  let ranOutOfMoney = false;
+  const yearByYearDetails: AccumulationPathResult["yearByYearDetails"] = [];
+
+  // Cumulative price level since the start, and since withdrawals began
+  let priceLevel = 1;
+  let withdrawalPriceLevel = 1;
+
+  // Process each year of the investment horizon
+  for (let year = 0; year < investmentHorizon; year++) {
+    const yearStartBalance = totalBalance(balances);
+    const yearStartPriceLevel = priceLevel;
+
+    // Initialize yearly tracking variables
+    let yearContributions = 0;
+    let yearContributionOverflow = 0;
+    let yearEmployerContributions = 0;
+    let yearWithdrawals = 0;
+    let yearCashFlows = 0;
+    let yearWithdrawalTaxes = 0;
+    const yearIncome = emptyIncome();
+    let yearEarnings = 0;
+    let yearFees = 0;
+    let yearTaxes = 0;
+
+    // Determine if we're in withdrawal phase
+    const isWithdrawalPhase =
+      retirementPhase.enabled && year >= withdrawalStartYear;
+
+    // Calculate annual withdrawal amount adjusted for inflation if needed
+    let annualWithdrawal = 0;
+    if (isWithdrawalPhase) {
+      annualWithdrawal = retirementPhase.withdrawalAdjustForInflation
+        ? retirementPhase.annualWithdrawal * withdrawalPriceLevel
+        : retirementPhase.annualWithdrawal;
+    }
+    const monthlyWithdrawal = annualWithdrawal / 12;
+    const deferredCeiling = deferredIncomeCeiling(inputs, yearStartPriceLevel);
+
+    // Monthly contribution from the schedule (the starting amount with the
+    // annual increase by default), plus any December bonus
+    const currentMonthlyContribution = monthlyContributionForYear(inputs, year);
+    const bonus = annualBonusForYear(inputs, year);
+    const room = contributionRoom(inputs, year, yearStartPriceLevel);
+
+    // The employer matches each paycheck while the user is working, up to
+    // the annual cap
+    const employed =
+      match !== undefined &&
+      !isWithdrawalPhase &&
+      !contributionsPaused(inputs, year);
+    const monthlySalary = employed ? salaryForYear(match, year) / 12 : 0;
+    let matchRoom = match?.annualCap ?? Infinity;
+
+    for (let month = 1; month <= 12; month++) {
+      // CONTRIBUTION PHASE: Skip if in withdrawal phase
+      if (!isWithdrawalPhase) {
+        const amount = currentMonthlyContribution + (month === 12 ? bonus : 0);
+        const contribution = splitByAccountType(amount, inputs);
+        const limited = limitContribution(contribution, room);
+        yearContributionOverflow += limited.overflow;
+        balances.taxDeferred += contribution.taxDeferred;
+        balances.taxFree += contribution.taxFree;
+        balances.taxable += contribution.taxable;
+        balances.taxableBasis += contribution.taxableBasis;
+        yearContributions += amount;
+
+        if (employed) {
+          const employerContribution = Math.min(
+            employerMatchForContribution(
+              match,
+              limited.electiveDeferral,
+              monthlySalary
+            ),
+            matchRoom
+          );
+          matchRoom -= employerContribution;
+          balances.taxDeferred += employerContribution;
+          yearEmployerContributions += employerContribution;
+        }
+      }
+
+      // WITHDRAWAL PHASE: Process withdrawals if applicable
+      else if (monthlyWithdrawal > 0) {
+        const flows = withdrawFromAccounts(
+          balances,
+          monthlyWithdrawal,
+          taxRate,
+          withdrawalOrder,
+          deferredCeiling - yearIncome.ordinaryIncome
+        );
+        yearWithdrawals += flows.withdrawn;
+        yearWithdrawalTaxes += flows.taxes;
+        yearIncome.ordinaryIncome += flows.ordinaryIncome;
+        yearIncome.capitalGains += flows.capitalGains;
+
+        // We've run out of money - can't withdraw more
+        if (flows.withdrawn < monthlyWithdrawal - WITHDRAWAL_TOLERANCE) {
+          ranOutOfMoney = true;
+        }
+      }
+
+      // CASH-FLOW EVENTS: one-off and recurring deposits and withdrawals
+      const events = applyCashFlowEvents(
+        balances,
+        inputs,
+        year,
+        month,
+        yearStartPriceLevel,
+        taxRate,
+        withdrawalOrder,
+        deferredCeiling - yearIncome.ordinaryIncome
+      );
+      yearCashFlows += events.net;
+      yearWithdrawalTaxes += events.flows.taxes;
+      yearIncome.ordinaryIncome += events.flows.ordinaryIncome;
+      yearIncome.capitalGains += events.flows.capitalGains;
+      if (events.shortfall) {
+        ranOutOfMoney = true;
+      }
+
+      // INVESTMENT GROWTH
+      const growth = applyMonthlyGrowth(
+        balances,
+        market.monthlyReturn(year),
+        monthlyFeeRate,
+        monthlyDividendYield,
+        taxRate
+      );
+      yearEarnings += growth.earnings;
+      yearFees += growth.fees;
+      yearTaxes += growth.taxes;
+      yearIncome.dividends += growth.dividends;
+    }
+
+    const federalTaxes = yearTaxes + yearWithdrawalTaxes;
+    const stateTax = applyStateTax(
+      balances,
+      yearIncome,
+      inputs,
+      yearStartPriceLevel
+    );
+    const stateTaxes = stateTax.dividendTax + stateTax.withdrawalTax;
+    totalTaxesPaid += federalTaxes + stateTaxes;
+
+    // VESTING: service counts for the years worked; on leaving, the unvested
+    // share of the match (without its growth) goes back to the employer
+    totalEmployerContributions += yearEmployerContributions;
+    if (employed) {
+      yearsOfService += 1;
+    }
+    if (match && year === lastWorkingYear) {
+      forfeitedEmployerContributions = Math.min(
+        totalEmployerContributions * (1 - vestedShare(match, yearsOfService)),
+        Math.max(balances.taxDeferred, 0)
+      );
+      balances.taxDeferred -= forfeitedEmployerContributions;
+      totalEmployerContributions -= forfeitedEmployerContributions;
+    }
+
+    const totalEndingBalance = totalBalance(balances);
+    totalWithdrawals += yearWithdrawals;
+    totalContributions += yearContributions;
+    totalCashFlows += yearCashFlows;
+
+    const yearInflation = 1 + market.inflationRate(year) / 100;
+    priceLevel *= yearInflation;
+    if (isWithdrawalPhase) {
+      withdrawalPriceLevel *= yearInflation;
+    }
+
+    // Record year-end details
+    yearByYearDetails.push({
+      year,
+      startingBalance: yearStartBalance,
+      contributions: yearContributions,
+      withdrawals: yearWithdrawals,
+      withdrawalTaxes: yearWithdrawalTaxes + stateTax.withdrawalTax,
+      earnings: yearEarnings,
+      fees: yearFees,
+      taxes: federalTaxes + stateTaxes,
+      endingBalance: totalEndingBalance,
+      inflationAdjustedValue: totalEndingBalance / yearStartPriceLevel,
+      remainingYears: isWithdrawalPhase ? investmentHorizon - year : undefined,
+      cashFlows: yearCashFlows,
+      contributionOverflow: yearContributionOverflow,
+      employerContributions: yearEmployerContributions,
+      federalTaxes,
+      stateTaxes,
+      allocation: market.allocation(year),
+      taxableBasis: balances.taxableBasis,
+      unrealizedGain: balances.taxable - balances.taxableBasis,
+    });
+  }
+
+  return {
+    balances,
+    priceLevel,
+    totalContributions,
+    totalWithdrawals,
+    totalCashFlows,
+    totalEmployerContributions,
+    forfeitedEmployerContributions,
+    totalTaxesPaid,
+    ranOutOfMoney,
+    yearByYearDetails,
+  };
+}
+
+/**
+ * Simulates one retirement path starting from the accounts the accumulation
+ * phase ended with
+ * Runs until the money runs out or maxYears to measure longevity; totals and
+ * year-by-year details cover the user's retirement period only
+ * startingPriceLevel is the inflation from today to retirement, used to index
+ * federal tax brackets; it defaults to the expected inflation over the horizon
+ */
+export function simulateRetirementPath(
+  inputs: CalculatorInputs,
+  startingBalances: AccountBalances,
+  market: MarketScenario,
+  maxYears: number = MAX_SIMULATION_YEARS,
+  startingPriceLevel: number = Math.pow(
+    1 + inputs.inflationRate / 100,
+    inputs.investmentHorizon
+  )
+): RetirementPathResult {
+  const { fees, retirementPhase } = inputs;
+  const taxRate = retirementTaxRates(inputs);
+  const federalTax = retirementFederalTax(inputs);
+  const startAge = retirementStartAge(inputs);
+  const withdrawalStrategy = createWithdrawalStrategy(inputs);
+  const withdrawalOrder = inputs.withdrawalOrder ?? DEFAULT_WITHDRAWAL_ORDER;
+  const setsSpending = strategySetsSpending(inputs);
+  const status = filingStatus(inputs);
+  const currentYear = planStartYear(inputs);
+  const rmdAge =
+    inputs.currentAge === undefined
+      ? undefined
+      : rmdStartAge(inputs.currentAge, currentYear);
+  const retirementYears = retirementPhase.retirementYears || 30; // Default to 30 years
+  const monthlyFeeRate = (fees.expenseRatio + fees.advisoryFee) / 12 / 100;
+  const monthlyDividendYield =
+    (inputs.dividendYield ?? DEFAULT_DIVIDEND_YIELD) / 12 / 100;
+  // Under the brackets dividends are taxed once the year's income is known,
+  // so none is taken as they arrive
+  const monthlyTaxRate = federalTax ? { ...taxRate, dividends: 0 } : taxRate;
+
+  // Copy so every trial starts from the same accumulated accounts
+  const balances = { ...startingBalances };
+
+  let totalWithdrawals = 0;
+  let totalTaxesPaid = 0;
+  let totalGrowth = 0;
+  let cumulativeWithdrawals = 0;
+  let finalBalance = 0;
+  let finalBalances = splitByAccountType(0, inputs);
+  let totalConverted = 0;
+  let ranOutOfMoney = false;
+  let yearsOfIncome = retirementYears;
+  let projectedLongevity = 0;
+  let priceLevel = 1;
+  let finalPriceLevel = 1;
+  let finalIncome = emptyIncome();
+  let finalIndexFactor = startingPriceLevel;
+  let previousWithdrawal = 0;
+  let previousReturn = 0;
+  const yearByYearDetails: RetirementPathResult["yearByYearDetails"] = [];
+
+  for (let year = 0; year < maxYears; year++) {
+    const yearStartBalance = totalBalance(balances);
+
+    // Stop if we've run out of money
+    if (yearStartBalance <= 0) {
+      projectedLongevity = year;
+      if (year < retirementYears) {
+        ranOutOfMoney = true;
+        yearsOfIncome = year;
+      }
+      break;
+    }
+
+    let yearWithdrawals = 0;
+    let yearCashFlows = 0;
+    // Withdrawals for cash-flow events are taxed with the year's income but
+    // kept out of the spending tax
+    const eventIncome = { ordinaryIncome: 0, capitalGains: 0 };
+    // Income streams are known up front, so bracket-filling withdrawals and
+    // conversions see them from the start of the year
+    const streams = streamIncomeForYear(inputs, year, currentYear);
+    const yearIncome: TaxableIncome = {
+      ordinaryIncome: streams.ordinaryIncome,
+      otherIncome: streams.otherIncome,
+      socialSecurity: streams.socialSecurity,
+      capitalGains: 0,
+      dividends: 0,
+    };
+    let yearEarnings = 0;
+    let yearFees = 0;
+    let yearTaxes = 0;
+    let depletedThisYear = false;
+
+    // RMDs are based on the tax-deferred balance at the start of the year
+    const age = startAge === undefined ? undefined : startAge + year;
+    const requiredDistribution =
+      age === undefined || rmdAge === undefined
+        ? 0
+        : requiredMinimumDistribution(balances.taxDeferred, age, rmdAge);
+
+    // Bracket thresholds are indexed to this year's prices
+    const indexFactor = startingPriceLevel * priceLevel;
+    const deferredCeiling = deferredIncomeCeiling(inputs, indexFactor);
+
+    const spending = withdrawalStrategy({
+      year,
+      balance: yearStartBalance,
+      startingBalance: totalBalance(startingBalances),
+      priceLevel,
+      lastYearInflation: year > 0 ? market.inflationRate(year - 1) : 0,
+      previousWithdrawal,
+      previousReturn,
+    });
+    previousWithdrawal = spending;
+
+    // Income streams pay for part of a spending target; a balance-based
+    // strategy's withdrawal comes on top of them. In gross-up mode the
+    // withdrawal also covers the tax on itself and, for a spending target,
+    // on the streams
+    let need = spending;
+    if (setsSpending) {
+      need -= streams.total;
+      if (retirementPhase.grossUpWithdrawals) {
+        need += withdrawalTax(
+          yearIncome,
+          inputs,
+          taxRate,
+          federalTax,
+          indexFactor
+        );
+      }
+    }
+    const annualWithdrawal =
+      need <= 0
+        ? 0
+        : retirementPhase.grossUpWithdrawals
+          ? grossUpWithdrawal(
+              need,
+              yearIncome,
+              balances,
+              inputs,
+              withdrawalOrder,
+              deferredCeiling - federalOrdinaryIncome(yearIncome, status),
+              taxRate,
+              federalTax,
+              indexFactor
+            )
+          : need;
+    const monthlyWithdrawal = annualWithdrawal / 12;
+
+    // Stream income beyond the spending target is invested in the taxable
+    // account
+    const streamSurplus = Math.max(-need, 0);
+    balances.taxable += streamSurplus;
+    balances.taxableBasis += streamSurplus;
+    const withdrawalsByAccount = emptyWithdrawals();
+
+    for (let month = 1; month <= 12; month++) {
+      if (monthlyWithdrawal > 0) {
+        const flows = withdrawFromAccounts(
+          balances,
+          monthlyWithdrawal,
+          taxRate,
+          withdrawalOrder,
+          deferredCeiling - federalOrdinaryIncome(yearIncome, status)
+        );
+        yearWithdrawals += flows.withdrawn;
+        withdrawalsByAccount.taxDeferred += flows.byAccount.taxDeferred;
+        withdrawalsByAccount.taxFree += flows.byAccount.taxFree;
+        withdrawalsByAccount.taxable += flows.byAccount.taxable;
+        yearIncome.ordinaryIncome += flows.ordinaryIncome;
+        yearIncome.capitalGains += flows.capitalGains;
+
+        // We've run out of money - can't withdraw more
+        if (flows.withdrawn < monthlyWithdrawal - WITHDRAWAL_TOLERANCE) {
+          depletedThisYear = true;
+        }
+      }
+
+      const events = applyCashFlowEvents(
+        balances,
+        inputs,
+        inputs.investmentHorizon + year,
+        month,
+        indexFactor,
+        taxRate,
+        withdrawalOrder,
+        deferredCeiling -
+          federalOrdinaryIncome(yearIncome, status) -
+          eventIncome.ordinaryIncome
+      );
+      yearCashFlows += events.net;
+      eventIncome.ordinaryIncome += events.flows.ordinaryIncome;
+      eventIncome.capitalGains += events.flows.capitalGains;
+      if (events.shortfall) {
+        depletedThisYear = true;
+      }
+
+      // Skip applying investment returns for year 0, as it represents
+      // the moment retirement begins (no time has passed yet), unless the
+      // market replays a real year there
+      const grows = year > 0 || market.growsInFirstRetirementYear === true;
+      const growth = applyMonthlyGrowth(
+        balances,
+        grows ? market.monthlyReturn(year) : 0,
+        monthlyFeeRate,
+        grows ? monthlyDividendYield : 0,
+        monthlyTaxRate
+      );
+      yearEarnings += growth.earnings;
+      yearFees += growth.fees;
+      yearTaxes += growth.taxes;
+      yearIncome.dividends += growth.dividends;
+    }
+
+    // Tax on the spending withdrawals and income streams alone, before RMDs
+    // and conversions add income; what's left of them is the year's spending
+    const spendingTax = withdrawalTax(
+      yearIncome,
+      inputs,
+      taxRate,
+      federalTax,
+      indexFactor
+    );
+    yearIncome.ordinaryIncome += eventIncome.ordinaryIncome;
+    yearIncome.capitalGains += eventIncome.capitalGains;
+
+    // If spending drew less from the tax-deferred account than the RMD, take
+    // out the rest and reinvest what's left after its federal and state tax
+    // in the taxable account as new basis; the tax is whatever the
+    // distribution adds to the year's bill
+    const rmdExcess = Math.min(
+      Math.max(requiredDistribution - withdrawalsByAccount.taxDeferred, 0),
+      balances.taxDeferred
+    );
+    let rmdReinvested = 0;
+    if (rmdExcess > 0) {
+      const taxBefore = withdrawalTax(
+        yearIncome,
+        inputs,
+        taxRate,
+        federalTax,
+        indexFactor
+      );
+      balances.taxDeferred -= rmdExcess;
+      yearIncome.ordinaryIncome += rmdExcess;
+      rmdReinvested =
+        rmdExcess -
+        (withdrawalTax(yearIncome, inputs, taxRate, federalTax, indexFactor) -
+          taxBefore);
+      balances.taxable += rmdReinvested;
+      balances.taxableBasis += rmdReinvested;
+    }
+
+    const conversion = applyRothConversion(
+      balances,
+      yearIncome,
+      inputs,
+      year,
+      taxRate,
+      federalTax,
+      indexFactor
+    );
+
+    // Brackets apply to the whole year's income, so withdrawal taxes are
+    // worked out once the year is over
+    const yearWithdrawalTaxes = federalWithdrawalTax(
+      yearIncome,
+      taxRate,
+      federalTax,
+      indexFactor,
+      status
+    );
+    const dividendTax = applyFederalDividendTax(
+      balances,
+      yearIncome,
+      federalTax,
+      indexFactor,
+      status
+    );
+    const federalTaxes = yearTaxes + dividendTax + yearWithdrawalTaxes;
+    const stateTax = applyStateTax(balances, yearIncome, inputs, indexFactor);
+    const stateTaxes = stateTax.dividendTax + stateTax.withdrawalTax;
+    // Conversion tax is reported separately from withdrawal tax
+    const withdrawalTaxes =
+      yearWithdrawalTaxes + stateTax.withdrawalTax - conversion.tax;
+
+    const totalEndingBalance = totalBalance(balances);
+    previousReturn = yearStartBalance > 0 ? yearEarnings / yearStartBalance : 0;
+
+    // Only record totals and year-end details for the user-specified retirement period
+    if (year < retirementYears) {
+      totalGrowth += yearEarnings;
+      totalWithdrawals += yearWithdrawals;
+      totalTaxesPaid += federalTaxes + stateTaxes;
+      totalConverted += conversion.converted;
+      cumulativeWithdrawals += yearWithdrawals;
+      finalBalance = totalEndingBalance;
+      finalBalances = { ...balances };
+      finalPriceLevel = priceLevel;
+      finalIncome = { ...yearIncome };
+      finalIndexFactor = indexFactor;
+
+      yearByYearDetails.push({
+        year,
+        startingBalance: yearStartBalance,
+        withdrawals: yearWithdrawals,
+        cumulativeWithdrawals,
+        earnings: yearEarnings,
+        fees: yearFees,
+        taxes: federalTaxes + stateTaxes,
+        endingBalance: totalEndingBalance,
+        inflationAdjustedValue: totalEndingBalance / priceLevel,
+        withdrawalTaxes,
+        federalTaxes,
+        stateTaxes,
+        withdrawalsByAccount,
+        incomeStreams: streams.payments,
+        streamIncome: streams.total,
+        netSpending:
+          yearWithdrawals + streams.total - streamSurplus - spendingTax,
+        cashFlows: yearCashFlows,
+        age,
+        requiredMinimumDistribution: requiredDistribution,
+        rmdReinvested,
+        rmdDriven: rmdExcess > 0,
+        rothConversion: conversion.converted,
+        conversionTaxes: conversion.tax,
+        allocation: market.allocation(year),
+        taxableBasis: balances.taxableBasis,
+        unrealizedGain: balances.taxable - balances.taxableBasis,
+      });
+    }
+
+    priceLevel *= 1 + market.inflationRate(year) / 100;
+
+    projectedLongevity = year + 1;
+
+    // If money ran out during this year, stop calculations
+    if (depletedThisYear) {
+      if (year < retirementYears) {
+        ranOutOfMoney = true;
+        yearsOfIncome = year;
+        finalBalance = 0;
+        finalBalances = splitByAccountType(0, inputs);
+        finalIncome = emptyIncome();
+      }
+      break;
+    }
+  }
+
+  return {
+    finalBalance,
+    finalBalances,
+    finalPriceLevel,
+    totalWithdrawals,
+    totalGrowth,
+    totalTaxesPaid,
+    totalConverted,
+    finalIncome,
+    finalIndexFactor,
+    yearsOfIncome,
+    projectedLongevity,
+    ranOutOfMoney,
+    yearByYearDetails,
+  };
+}
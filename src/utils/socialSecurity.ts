@@ -0,0 +1,155 @@
+import {
+  CalculatorInputs,
+  IncomeStream,
+  SocialSecurityClaiming,
+} from "@/types/calculator";
+import {
+  MAX_CLAIMING_AGE,
+  MIN_CLAIMING_AGE,
+  claimingAdjustment,
+  fullRetirementAge,
+} from "@/utils/incomeStreams";
+
+export const DEFAULT_SOCIAL_SECURITY_CLAIMING: SocialSecurityClaiming = {
+  enabled: false,
+  worker: { primaryInsuranceAmount: 2500, birthYear: 1990 },
+  cola: 2.5,
+  includeSpouse: false,
+  spouse: { primaryInsuranceAmount: 1000, birthYear: 1990, claimingAge: 67 },
+};
+
+/**
+ * Share of the spousal benefit paid when it starts at an age
+ * Starting early cuts it 25/36% a month for the first 36 months and 5/12% a
+ * month beyond; unlike a worker's own benefit it earns no delayed credits
+ */
+export function spousalAdjustment(
+  claimingAge: number,
+  fullAge: number
+): number {
+  const early = Math.max(
+    Math.round((fullAge - Math.max(claimingAge, MIN_CLAIMING_AGE)) * 12),
+    0
+  );
+  return (
+    1 - (Math.min(early, 36) * 25) / 3600 - (Math.max(early - 36, 0) * 5) / 1200
+  );
+}
+
+// Retirement year (0 = first) in which someone born in birthYear reaches an
+// age; ages reached before retirement map to the first year
+const retirementYearAtAge = (
+  birthYear: number,
+  age: number,
+  inputs: CalculatorInputs,
+  currentYear: number
+): number =>
+  Math.max(
+    Math.ceil(birthYear + age - (currentYear + inputs.investmentHorizon)),
+    0
+  );
+
+/**
+ * Claiming ages to compare: 62-70, leaving out ages the worker reaches before
+ * retirement starts, since income before retirement isn't part of the
+ * retirement projection
+ */
+export function claimingAgeOptions(
+  settings: SocialSecurityClaiming,
+  inputs: CalculatorInputs,
+  currentYear: number
+): number[] {
+  const retirementAge =
+    currentYear + inputs.investmentHorizon - settings.worker.birthYear;
+  const ages: number[] = [];
+  for (let age = MIN_CLAIMING_AGE; age <= MAX_CLAIMING_AGE; age++) {
+    if (age >= retirementAge) {
+      ages.push(age);
+    }
+  }
+  return ages.length > 0 ? ages : [MAX_CLAIMING_AGE];
+}
+
+// A household's Social Security when the worker claims at one age
+export interface ClaimingBenefits {
+  // Annual benefits in today's dollars
+  worker: number;
+  spouse: number;
+  streams: IncomeStream[];
+}
+
+/**
+ * Social Security income streams for a household when the worker claims at
+ * an age
+ * The spouse claims their own benefit at their claiming age. If half the
+ * worker's PIA is more than the spouse's own PIA, the difference is paid as a
+ * spousal benefit once both have claimed, reduced for the spouse's age then
+ */
+export function claimingBenefits(
+  settings: SocialSecurityClaiming,
+  claimingAge: number,
+  inputs: CalculatorInputs,
+  currentYear: number
+): ClaimingBenefits {
+  const { worker, spouse, cola } = settings;
+  const stream = (
+    name: string,
+    annualAmount: number,
+    birthYear: number,
+    age: number
+  ): IncomeStream => ({
+    type: "social-security",
+    name,
+    annualAmount,
+    cola,
+    startYear: retirementYearAtAge(birthYear, age, inputs, currentYear),
+  });
+
+  const workerBenefit =
+    worker.primaryInsuranceAmount *
+    12 *
+    claimingAdjustment(claimingAge, fullRetirementAge(worker.birthYear));
+  const streams = [
+    stream("Social Security", workerBenefit, worker.birthYear, claimingAge),
+  ];
+  if (!settings.includeSpouse) {
+    return { worker: workerBenefit, spouse: 0, streams };
+  }
+
+  const spouseFullAge = fullRetirementAge(spouse.birthYear);
+  const ownBenefit =
+    spouse.primaryInsuranceAmount *
+    12 *
+    claimingAdjustment(spouse.claimingAge, spouseFullAge);
+  streams.push(
+    stream(
+      "Spouse's Social Security",
+      ownBenefit,
+      spouse.birthYear,
+      spouse.claimingAge
+    )
+  );
+
+  const spousalAge = Math.max(
+    spouse.claimingAge,
+    claimingAge + worker.birthYear - spouse.birthYear
+  );
+  const spousalBenefit =
+    Math.max(
+      worker.primaryInsuranceAmount / 2 - spouse.primaryInsuranceAmount,
+      0
+    ) *
+    12 *
+    spousalAdjustment(spousalAge, spouseFullAge);
+  if (spousalBenefit > 0) {
+    streams.push(
+      stream("Spousal benefit", spousalBenefit, spouse.birthYear, spousalAge)
+    );
+  }
+
+  return {
+    worker: workerBenefit,
+    spouse: ownBenefit + spousalBenefit,
+    streams,
+  };
+}
@@ -0,0 +1,407 @@
+import {
+  CalculatorInputs,
+  CalculatorResults,
+  FederalTaxSettings,
+  FilingStatus,
+  TaxRates,
+} from "@/types/calculator";
+import {
+  FEDERAL_TAX_TABLES,
+  FederalTaxTable,
+  STATE_TAX_TABLES,
+  StateTaxTable,
+  TaxBracket,
+} from "@/data/taxTables";
+
+export const TAX_RATE_FIELDS: Array<keyof TaxRates> = [
+  "income",
+  "dividends",
+  "capitalGains",
+];
+
+// Rates at or above 100% would tax away more than the income itself
+export const MAX_TAX_RATE = 99;
+
+export const DEFAULT_FEDERAL_TAX: FederalTaxSettings = {
+  enabled: false,
+  filingStatus: "single",
+};
+
+// A year's income by how it's taxed
+export interface TaxableIncome {
+  // Tax-deferred withdrawals, pensions and annuities: retirement income
+  ordinaryIncome: number;
+  // Ordinary income that isn't retirement income (rental), which every
+  // state with an income tax taxes
+  otherIncome: number;
+  // Social Security benefits received; only part of them is taxable
+  socialSecurity: number;
+  capitalGains: number;
+  dividends: number;
+}
+
+export const emptyIncome = (): TaxableIncome => ({
+  ordinaryIncome: 0,
+  otherIncome: 0,
+  socialSecurity: 0,
+  capitalGains: 0,
+  dividends: 0,
+});
+
+// Provisional income above which 50% and then 85% of Social Security
+// benefits become taxable; these thresholds have never been indexed
+const SOCIAL_SECURITY_THRESHOLDS: Record<FilingStatus, [number, number]> = {
+  single: [25000, 34000],
+  "married-joint": [32000, 44000],
+  "married-separate": [0, 0],
+  "head-of-household": [25000, 34000],
+};
+
+/**
+ * Tax rates for the retirement phase, falling back to the working-years rates
+ */
+export const retirementTaxRates = (inputs: CalculatorInputs): TaxRates =>
+  inputs.retirementTaxRate ?? inputs.taxRate;
+
+/**
+ * Rates reported alongside the results for each phase that was calculated
+ */
+export const appliedTaxRates = (
+  inputs: CalculatorInputs
+): CalculatorResults["appliedTaxRates"] => {
+  const federalTax = retirementFederalTax(inputs);
+
+  return {
+    accumulation: inputs.taxRate,
+    retirement: inputs.retirementPhase.enabled
+      ? retirementTaxRates(inputs)
+      : undefined,
+    state: stateTaxTable(inputs.state)?.code,
+    federalTax: federalTax && {
+      filingStatus: federalTax.filingStatus,
+      taxYear: federalTaxTable(federalTax.taxYear).taxYear,
+    },
+  };
+};
+
+/**
+ * Bracket settings for the retirement phase, or undefined when withdrawals
+ * use the flat rates
+ */
+export const retirementFederalTax = (
+  inputs: CalculatorInputs
+): FederalTaxSettings | undefined =>
+  inputs.retirementPhase.enabled && inputs.federalTax?.enabled
+    ? inputs.federalTax
+    : undefined;
+
+/**
+ * Filing status for bracket lookups, shared by federal and state taxes
+ */
+export const filingStatus = (inputs: CalculatorInputs): FilingStatus =>
+  inputs.federalTax?.filingStatus ?? DEFAULT_FEDERAL_TAX.filingStatus;
+
+/**
+ * Bundled state tax table for a state code, or undefined for no state tax
+ */
+export const stateTaxTable = (code?: string): StateTaxTable | undefined =>
+  STATE_TAX_TABLES.find((table) => table.code === code);
+
+/**
+ * Bundled bracket table for a tax year, falling back to the latest table
+ */
+export function federalTaxTable(taxYear?: number): FederalTaxTable {
+  return (
+    FEDERAL_TAX_TABLES.find((table) => table.taxYear === taxYear) ??
+    FEDERAL_TAX_TABLES[FEDERAL_TAX_TABLES.length - 1]
+  );
+}
+
+/**
+ * Tax on income stacked on top of a base amount of taxable income
+ * Thresholds are multiplied by the index factor to keep pace with inflation
+ */
+function taxOnBrackets(
+  income: number,
+  base: number,
+  brackets: TaxBracket[],
+  indexFactor: number
+): number {
+  let tax = 0;
+
+  brackets.forEach((bracket, i) => {
+    const lower = Math.max(bracket.threshold * indexFactor, base);
+    const upper = Math.min(
+      i + 1 < brackets.length
+        ? brackets[i + 1].threshold * indexFactor
+        : Infinity,
+      base + income
+    );
+    if (upper > lower) {
+      tax += (upper - lower) * (bracket.rate / 100);
+    }
+  });
+
+  return tax;
+}
+
+/**
+ * Federal income tax for one year's ordinary income and long-term capital gains
+ * The standard deduction offsets ordinary income first; gains are then taxed
+ * at the capital gains rates for the brackets they fall in above ordinary income
+ * indexFactor is the cumulative inflation since the table's tax year
+ */
+export function calculateFederalIncomeTax(
+  ordinaryIncome: number,
+  capitalGains: number,
+  settings: FederalTaxSettings,
+  indexFactor: number = 1
+): number {
+  const table = federalTaxTable(settings.taxYear);
+  const { filingStatus } = settings;
+  const deduction = table.standardDeduction[filingStatus] * indexFactor;
+
+  const taxableOrdinary = Math.max(ordinaryIncome - deduction, 0);
+  const taxableGains = Math.max(
+    capitalGains - Math.max(deduction - ordinaryIncome, 0),
+    0
+  );
+
+  return (
+    taxOnBrackets(
+      taxableOrdinary,
+      0,
+      table.ordinaryBrackets[filingStatus],
+      indexFactor
+    ) +
+    taxOnBrackets(
+      taxableGains,
+      taxableOrdinary,
+      table.capitalGainsBrackets[filingStatus],
+      indexFactor
+    )
+  );
+}
+
+/**
+ * Checks each rate is a number from 0 to MAX_TAX_RATE
+ * Returns an error message per invalid field; empty when all are valid
+ */
+export function validateTaxRates(
+  rates: TaxRates
+): Partial<Record<keyof TaxRates, string>> {
+  const errors: Partial<Record<keyof TaxRates, string>> = {};
+
+  TAX_RATE_FIELDS.forEach((field) => {
+    // Inputs hold raw strings while the user is typing
+    const raw = rates[field] as number | string;
+    const rate = Number(raw);
+
+    if (raw === "" || !isFinite(rate)) {
+      errors[field] = "Enter a rate";
+    } else if (rate < 0 || rate > MAX_TAX_RATE) {
+      errors[field] = `Must be between 0% and ${MAX_TAX_RATE}%`;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Part of a year's Social Security benefits subject to federal income tax
+ * Provisional income (other income, dividends included, plus half the
+ * benefits) above the first threshold makes up to 50% of benefits taxable,
+ * and above the second up to 85%
+ */
+export function taxableSocialSecurity(
+  income: TaxableIncome,
+  status: FilingStatus
+): number {
+  const benefits = income.socialSecurity;
+  if (benefits <= 0) {
+    return 0;
+  }
+
+  const [lower, upper] = SOCIAL_SECURITY_THRESHOLDS[status];
+  const provisionalIncome =
+    income.ordinaryIncome +
+    income.otherIncome +
+    income.capitalGains +
+    income.dividends +
+    benefits / 2;
+
+  if (provisionalIncome <= lower) {
+    return 0;
+  }
+  if (provisionalIncome <= upper) {
+    return Math.min(benefits * 0.5, (provisionalIncome - lower) * 0.5);
+  }
+  return Math.min(
+    benefits * 0.85,
+    (provisionalIncome - upper) * 0.85 +
+      Math.min(benefits * 0.5, (upper - lower) * 0.5)
+  );
+}
+
+/**
+ * Income the federal government taxes at ordinary rates: retirement and
+ * other income plus the taxable part of Social Security
+ */
+export const federalOrdinaryIncome = (
+  income: TaxableIncome,
+  status: FilingStatus
+): number =>
+  income.ordinaryIncome +
+  income.otherIncome +
+  taxableSocialSecurity(income, status);
+
+/**
+ * Federal tax on a year's withdrawals and income streams: progressive
+ * brackets when enabled, otherwise the flat income and capital gains rates
+ */
+export function federalWithdrawalTax(
+  income: TaxableIncome,
+  taxRate: TaxRates,
+  federalTax: FederalTaxSettings | undefined,
+  indexFactor: number,
+  status: FilingStatus = federalTax?.filingStatus ??
+    DEFAULT_FEDERAL_TAX.filingStatus
+): number {
+  const ordinaryIncome = federalOrdinaryIncome(income, status);
+
+  if (federalTax) {
+    return calculateFederalIncomeTax(
+      ordinaryIncome,
+      income.capitalGains,
+      federalTax,
+      indexFactor
+    );
+  }
+
+  return (
+    ordinaryIncome * (taxRate.income / 100) +
+    income.capitalGains * (taxRate.capitalGains / 100)
+  );
+}
+
+/**
+ * Federal tax on a year's qualified dividends under the brackets: they stack
+ * on top of the year's other income and are taxed at the capital gains rates
+ */
+export function federalDividendTax(
+  income: TaxableIncome,
+  settings: FederalTaxSettings,
+  indexFactor: number,
+  status: FilingStatus = settings.filingStatus
+): number {
+  const ordinaryIncome = federalOrdinaryIncome(income, status);
+
+  return (
+    calculateFederalIncomeTax(
+      ordinaryIncome,
+      income.capitalGains + income.dividends,
+      settings,
+      indexFactor
+    ) -
+    calculateFederalIncomeTax(
+      ordinaryIncome,
+      income.capitalGains,
+      settings,
+      indexFactor
+    )
+  );
+}
+
+/**
+ * Gross ordinary income that fills the federal brackets up to the top of the
+ * bracket with the given rate, standard deduction included
+ * Infinite for the top bracket
+ */
+export function ordinaryBracketCeiling(
+  settings: FederalTaxSettings,
+  rate: number,
+  indexFactor: number = 1
+): number {
+  const table = federalTaxTable(settings.taxYear);
+  const brackets = table.ordinaryBrackets[settings.filingStatus];
+  const next = brackets.findIndex((bracket) => bracket.rate > rate);
+
+  if (next === -1) {
+    return Infinity;
+  }
+  return (
+    (brackets[next].threshold +
+      table.standardDeduction[settings.filingStatus]) *
+    indexFactor
+  );
+}
+
+/**
+ * State income tax for one year's income
+ * States tax gains and dividends as ordinary income; bracket thresholds are
+ * indexed like the federal ones
+ */
+export function calculateStateIncomeTax(
+  income: TaxableIncome,
+  table: StateTaxTable,
+  status: FilingStatus,
+  indexFactor: number = 1
+): number {
+  // Social Security is left out: most states don't tax it
+  const taxableIncome =
+    (table.exemptsRetirementIncome ? 0 : income.ordinaryIncome) +
+    income.otherIncome +
+    income.capitalGains +
+    income.dividends;
+
+  if (table.kind === "flat") {
+    return taxableIncome * (table.rate / 100);
+  }
+
+  return taxOnBrackets(
+    taxableIncome,
+    0,
+    status === "married-joint"
+      ? table.brackets["married-joint"]
+      : table.brackets.single,
+    indexFactor
+  );
+}
+
+/**
+ * State tax on a year's withdrawals (dividends excluded), or 0 without a state
+ */
+export function stateWithdrawalTax(
+  income: TaxableIncome,
+  inputs: CalculatorInputs,
+  indexFactor: number
+): number {
+  const table = stateTaxTable(inputs.state);
+
+  return table
+    ? calculateStateIncomeTax(
+        { ...income, dividends: 0 },
+        table,
+        filingStatus(inputs),
+        indexFactor
+      )
+    : 0;
+}
+
+/**
+ * Federal and state tax on a year's withdrawals and income streams
+ */
+export const withdrawalTax = (
+  income: TaxableIncome,
+  inputs: CalculatorInputs,
+  taxRate: TaxRates,
+  federalTax: FederalTaxSettings | undefined,
+  indexFactor: number
+): number =>
+  federalWithdrawalTax(
+    income,
+    taxRate,
+    federalTax,
+    indexFactor,
+    filingStatus(inputs)
+  ) + stateWithdrawalTax(income, inputs, indexFactor);
@@ -0,0 +1,160 @@
+import {
+  AccountBalances,
+  AccountBucket,
+  CalculatorInputs,
+  FederalTaxSettings,
+  TaxRates,
+  WithdrawalOrder,
+} from "@/types/calculator";
+import {
+  DEFAULT_FEDERAL_TAX,
+  TaxableIncome,
+  ordinaryBracketCeiling,
+  withdrawalTax,
+} from "@/utils/taxes";
+
+// The gross-up search stops once a pass moves the withdrawal less than this
+const GROSS_UP_TOLERANCE = 0.01;
+const MAX_GROSS_UP_ITERATIONS = 50;
+
+export const DEFAULT_WITHDRAWAL_ORDER: WithdrawalOrder = {
+  type: "sequence",
+  sequence: ["taxable", "taxFree", "taxDeferred"],
+  targetBracketRate: 12,
+};
+
+// Every order the three accounts can be drawn in
+export const WITHDRAWAL_SEQUENCES: AccountBucket[][] = [
+  ["taxable", "taxFree", "taxDeferred"],
+  ["taxable", "taxDeferred", "taxFree"],
+  ["taxDeferred", "taxable", "taxFree"],
+  ["taxDeferred", "taxFree", "taxable"],
+  ["taxFree", "taxable", "taxDeferred"],
+  ["taxFree", "taxDeferred", "taxable"],
+];
+
+export const emptyWithdrawals = (): Record<AccountBucket, number> => ({
+  taxDeferred: 0,
+  taxFree: 0,
+  taxable: 0,
+});
+
+/**
+ * Ordinary income a year can reach before bracket-fill withdrawals stop
+ * drawing from tax-deferred first; Infinity for the other orders
+ * Uses the federal bracket table and filing status from the tax settings,
+ * even when brackets aren't used to tax withdrawals
+ */
+export function deferredIncomeCeiling(
+  inputs: CalculatorInputs,
+  indexFactor: number
+): number {
+  const order = inputs.withdrawalOrder ?? DEFAULT_WITHDRAWAL_ORDER;
+  if (order.type !== "bracket-fill") {
+    return Infinity;
+  }
+
+  return ordinaryBracketCeiling(
+    inputs.federalTax ?? DEFAULT_FEDERAL_TAX,
+    order.targetBracketRate,
+    indexFactor
+  );
+}
+
+/**
+ * Splits a withdrawal across the accounts following the withdrawal order
+ * deferredRoom caps the bracket-fill draw from tax-deferred; the rest
+ * follows the order's sequence. The split never exceeds the balances, so it
+ * sums to less than the amount only when the accounts run dry
+ */
+export function planWithdrawal(
+  balances: AccountBalances,
+  amount: number,
+  order: WithdrawalOrder,
+  deferredRoom: number
+): Record<AccountBucket, number> {
+  const split = emptyWithdrawals();
+  const available = (account: AccountBucket) => Math.max(balances[account], 0);
+
+  if (order.type === "proportional") {
+    const total =
+      available("taxDeferred") + available("taxFree") + available("taxable");
+    if (total > 0) {
+      const share = Math.min(amount, total) / total;
+      split.taxDeferred = available("taxDeferred") * share;
+      split.taxFree = available("taxFree") * share;
+      split.taxable = available("taxable") * share;
+    }
+    return split;
+  }
+
+  let remaining = amount;
+  if (order.type === "bracket-fill") {
+    split.taxDeferred = Math.min(
+      remaining,
+      Math.max(deferredRoom, 0),
+      available("taxDeferred")
+    );
+    remaining -= split.taxDeferred;
+  }
+
+  for (const account of order.sequence) {
+    if (remaining <= 0) {
+      break;
+    }
+    const withdrawal = Math.min(remaining, available(account) - split[account]);
+    split[account] += withdrawal;
+    remaining -= withdrawal;
+  }
+
+  return split;
+}
+
+/**
+ * Gross withdrawal that leaves `need` after the federal and state tax it adds
+ * on top of the year's other income
+ * Solved by fixed-point iteration: each pass withdraws the need plus the tax
+ * the previous guess would add, which converges because no marginal rate
+ * reaches 100%. The tax is estimated on the year-start balances, with the
+ * withdrawal split across the accounts as planWithdrawal would split it and
+ * taxable sales realizing gains at the average basis
+ */
+export function grossUpWithdrawal(
+  need: number,
+  otherIncome: TaxableIncome,
+  balances: AccountBalances,
+  inputs: CalculatorInputs,
+  order: WithdrawalOrder,
+  deferredRoom: number,
+  taxRate: TaxRates,
+  federalTax: FederalTaxSettings | undefined,
+  indexFactor: number
+): number {
+  const gainShare =
+    balances.taxable > 0
+      ? Math.max(1 - balances.taxableBasis / balances.taxable, 0)
+      : 0;
+  const taxOf = (income: TaxableIncome) =>
+    withdrawalTax(income, inputs, taxRate, federalTax, indexFactor);
+  const otherIncomeTax = taxOf(otherIncome);
+  const addedTax = (gross: number) => {
+    const split = planWithdrawal(balances, gross, order, deferredRoom);
+    return (
+      taxOf({
+        ...otherIncome,
+        ordinaryIncome: otherIncome.ordinaryIncome + split.taxDeferred,
+        capitalGains: otherIncome.capitalGains + split.taxable * gainShare,
+      }) - otherIncomeTax
+    );
+  };
+
+  let gross = need;
+  for (let i = 0; i < MAX_GROSS_UP_ITERATIONS; i++) {
+    const next = need + addedTax(gross);
+    if (Math.abs(next - gross) < GROSS_UP_TOLERANCE) {
+      return next;
+    }
+    gross = next;
+  }
+  return gross;
+}
@@ -0,0 +1,170 @@
+import {
+  CalculatorInputs,
+  WithdrawalStrategySettings,
+  WithdrawalStrategyType,
+} from "@/types/calculator";
+import { distributionPeriod, retirementStartAge } from "@/utils/rmd";
+
+export const DEFAULT_WITHDRAWAL_STRATEGY: WithdrawalStrategySettings = {
+  type: "fixed",
+  withdrawalRate: 4,
+  upperGuardrail: 20,
+  lowerGuardrail: 20,
+  guardrailAdjustment: 10,
+  ceiling: 5,
+  floor: 2.5,
+  realReturn: 3,
+};
+
+export const WITHDRAWAL_STRATEGY_TYPES: WithdrawalStrategyType[] = [
+  "fixed",
+  "constant-percentage",
+  "guyton-klinger",
+  "vanguard-dynamic",
+  "vpw",
+  "rmd",
+];
+
+/**
+ * Whether the strategy sets the year's spending, which income streams help
+ * pay for, rather than a withdrawal sized to the balance
+ * Only the fixed and Guyton-Klinger strategies start from annualWithdrawal
+ */
+export const strategySetsSpending = (inputs: CalculatorInputs): boolean => {
+  const type = inputs.retirementPhase.withdrawalStrategy?.type ?? "fixed";
+  return type === "fixed" || type === "guyton-klinger";
+};
+
+// What a strategy knows when it sets a retirement year's withdrawal
+export interface WithdrawalContext {
+  // Retirement year, starting at 0
+  year: number;
+  // Total balance at the start of this year and of retirement
+  balance: number;
+  startingBalance: number;
+  // Cumulative inflation since retirement began, and during last year
+  priceLevel: number;
+  lastYearInflation: number;
+  // Last year's planned withdrawal and portfolio return (decimal)
+  previousWithdrawal: number;
+  previousReturn: number;
+}
+
+// Sets the annual withdrawal for one retirement year
+export type WithdrawalStrategy = (context: WithdrawalContext) => number;
+
+/**
+ * Builds the withdrawal rule for the retirement phase from the user's settings
+ * Every strategy is a function of the path so far, so Monte Carlo trials and
+ * historical cohorts each adapt spending to their own returns
+ */
+export function createWithdrawalStrategy(
+  inputs: CalculatorInputs
+): WithdrawalStrategy {
+  const { retirementPhase } = inputs;
+  const settings = {
+    ...DEFAULT_WITHDRAWAL_STRATEGY,
+    ...retirementPhase.withdrawalStrategy,
+  };
+  const retirementYears = retirementPhase.retirementYears || 30;
+  const rate = (settings.withdrawalRate ?? 4) / 100;
+
+  switch (settings.type) {
+    // A fixed share of whatever the portfolio is worth
+    case "constant-percentage":
+      return ({ balance }) => balance * rate;
+
+    // Start at annualWithdrawal and raise it with inflation, except after a
+    // losing year when the rate is already above its starting level; cut or
+    // raise it when the rate drifts past the guardrails
+    case "guyton-klinger": {
+      const upper = 1 + (settings.upperGuardrail ?? 20) / 100;
+      const lower = 1 - (settings.lowerGuardrail ?? 20) / 100;
+      const adjustment = (settings.guardrailAdjustment ?? 10) / 100;
+
+      return (context) => {
+        const initialRate =
+          context.startingBalance > 0
+            ? retirementPhase.annualWithdrawal / context.startingBalance
+            : 0;
+        if (context.year === 0) {
+          return retirementPhase.annualWithdrawal;
+        }
+
+        let withdrawal = context.previousWithdrawal;
+        const previousRate =
+          context.balance > 0 ? withdrawal / context.balance : Infinity;
+        if (context.previousReturn >= 0 || previousRate <= initialRate) {
+          withdrawal *= 1 + context.lastYearInflation / 100;
+        }
+
+        const currentRate =
+          context.balance > 0 ? withdrawal / context.balance : Infinity;
+        // Cuts stop in the last 15 years, when depletion risk is lower
+        if (
+          currentRate > initialRate * upper &&
+          retirementYears - context.year > 15
+        ) {
+          withdrawal *= 1 - adjustment;
+        } else if (currentRate < initialRate * lower) {
+          withdrawal *= 1 + adjustment;
+        }
+        return withdrawal;
+      };
+    }
+
+    // Spend a share of the balance, but let real spending rise by at most
+    // the ceiling and fall by at most the floor each year
+    case "vanguard-dynamic": {
+      const ceiling = 1 + (settings.ceiling ?? 5) / 100;
+      const floor = 1 - (settings.floor ?? 2.5) / 100;
+
+      return (context) => {
+        const target = context.balance * rate;
+        if (context.year === 0) {
+          return target;
+        }
+
+        const previous =
+          context.previousWithdrawal * (1 + context.lastYearInflation / 100);
+        return Math.min(Math.max(target, previous * floor), previous * ceiling);
+      };
+    }
+
+    // Variable percentage withdrawal: amortize the balance over the years
+    // left, like a loan payment at the assumed real return
+    // One extra year is kept in the schedule so a bad final year doesn't
+    // leave the plan a few dollars short
+    case "vpw": {
+      const realReturn = (settings.realReturn ?? 3) / 100;
+
+      return ({ balance, year }) => {
+        const yearsLeft = Math.max(retirementYears - year, 0) + 1;
+        const paymentRate =
+          realReturn === 0
+            ? 1 / yearsLeft
+            : realReturn / (1 - Math.pow(1 + realReturn, -yearsLeft));
+        return balance * paymentRate;
+      };
+    }
+
+    // Divide the balance by the IRS life expectancy for this year's age;
+    // without an age, by the years left in retirement
+    case "rmd": {
+      const startAge = retirementStartAge(inputs);
+
+      return ({ balance, year }) =>
+        balance /
+        (startAge === undefined
+          ? Math.max(retirementYears - year, 1)
+          : distributionPeriod(startAge + year));
+    }
+
+    // The original fixed withdrawal, optionally grown with inflation
+    default:
+      return ({ priceLevel }) =>
+        retirementPhase.withdrawalAdjustForInflation
+          ? retirementPhase.annualWithdrawal * priceLevel
+          : retirementPhase.annualWithdrawal;
+  }
+}
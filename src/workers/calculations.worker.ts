@@ -0,0 +1,19 @@
+import {
+  CalculationMessage,
+  CalculationReply,
+  errorMessage,
+  runCalculation,
+} from "@/utils/calculationRequests";
+
+// Runs the calculator's requests off the page, one at a time, and answers
+// each with its id, or with the error it threw
+self.addEventListener("message", (event: MessageEvent<CalculationMessage>) => {
+  const { id, request } = event.data;
+  let reply: CalculationReply;
+  try {
+    reply = { id, result: runCalculation(request) };
+  } catch (error) {
+    reply = { id, error: errorMessage(error) };
+  }
+  self.postMessage(reply);
+});